@@ -0,0 +1,55 @@
+import { getTimerSnapshots } from '@/utils/fileStore'
+import { subscribeTimerRemovals, subscribeTimerSnapshots } from '@/utils/monitorHub'
+
+export const dynamic = 'force-dynamic'
+
+const HEARTBEAT_INTERVAL = 15 * 1000 // Keeps proxies from closing an idle stream
+
+/**
+ * GET /api/monitor: server-sent events. A `hello` event carries the server
+ * time and every known timer; each pushed change follows as a `timer` event
+ * and each dropped timer as a `removed` event.
+ */
+export async function GET(request: Request) {
+  const encoder = new TextEncoder()
+  const timers = await getTimerSnapshots()
+
+  let cleanup = () => {}
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      send('hello', { serverTime: Date.now(), timers })
+      const unsubscribe = subscribeTimerSnapshots((snapshot) => send('timer', snapshot))
+      const unsubscribeRemovals = subscribeTimerRemovals((removal) => send('removed', removal))
+      const heartbeat = setInterval(() => controller.enqueue(encoder.encode(': ping\n\n')), HEARTBEAT_INTERVAL)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+        unsubscribeRemovals()
+      }
+      request.signal.addEventListener('abort', () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      })
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server'
+import { deleteSessions, querySessions, upsertSessions, type RemoteSessionQuery } from '@/utils/fileStore'
+import { validateSession, type InvalidRecord } from '@/utils/import'
+import { OUTCOMES, type SessionOutcome } from '@/utils/outcome'
+import type { Session } from '@/utils/storage'
+
+export const dynamic = 'force-dynamic'
+
+function optionalNumber(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+/**
+ * GET /api/sessions?from=&to=&activityType=&status=&outcome=&overdueOnly=&deviceId=&operator=&unit=&workOrder=&notes=&order=&offset=&limit=
+ */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams
+  const status = params.get('status')
+  const outcome = params.get('outcome') as SessionOutcome | null
+  const order = params.get('order')
+
+  const query: RemoteSessionQuery = {
+    from: optionalNumber(params.get('from')),
+    to: optionalNumber(params.get('to')),
+    activityType: params.get('activityType') || undefined,
+    status: status === 'finished' || status === 'aborted' ? status : undefined,
+    outcome: outcome && OUTCOMES.includes(outcome) ? outcome : undefined,
+    overdueOnly: params.get('overdueOnly') === 'true' || undefined,
+    deviceId: params.get('deviceId') || undefined,
+    operator: params.get('operator') || undefined,
+    unit: params.get('unit') || undefined,
+    workOrder: params.get('workOrder') || undefined,
+    notes: params.get('notes') || undefined,
+    order: order === 'oldest' ? 'oldest' : 'newest',
+    offset: optionalNumber(params.get('offset')),
+    limit: optionalNumber(params.get('limit')),
+  }
+
+  try {
+    return NextResponse.json(await querySessions(query))
+  } catch (error) {
+    console.error('Failed to query sessions:', error)
+    return NextResponse.json({ error: 'Failed to read sessions' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/sessions with `{ sessions: Session[], deleted?: string[] }`; records
+ * are upserted by id, then the deleted ids are removed
+ */
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+  }
+
+  const records = (body as { sessions?: unknown })?.sessions
+  if (!Array.isArray(records)) {
+    return NextResponse.json({ error: 'Body must contain a sessions array' }, { status: 400 })
+  }
+  const deleted = (body as { deleted?: unknown }).deleted ?? []
+  if (!Array.isArray(deleted) || !deleted.every((id) => typeof id === 'string')) {
+    return NextResponse.json({ error: 'deleted must be an array of ids' }, { status: 400 })
+  }
+
+  const valid: Session[] = []
+  const invalid: InvalidRecord[] = []
+  records.forEach((record, index) => {
+    const result = validateSession(record)
+    if ('error' in result) invalid.push({ index: index + 1, reason: result.error })
+    else valid.push(result.session)
+  })
+
+  try {
+    await upsertSessions(valid)
+    await deleteSessions(deleted)
+  } catch (error) {
+    console.error('Failed to save sessions:', error)
+    return NextResponse.json({ error: 'Failed to save sessions' }, { status: 500 })
+  }
+  // Invalid records are reported but not retried: they would never pass
+  return NextResponse.json({ saved: valid.length, deleted: deleted.length, invalid })
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server'
+import { getTimerSnapshots, removeTimerSnapshot, saveTimerSnapshot, type TimerSnapshot } from '@/utils/fileStore'
+import { publishTimerRemoval, publishTimerSnapshot } from '@/utils/monitorHub'
+import type { PersistedState } from '@/utils/storage'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/timers: latest state of every bay timer on every device
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ timers: await getTimerSnapshots() })
+  } catch (error) {
+    console.error('Failed to read timers:', error)
+    return NextResponse.json({ error: 'Failed to read timers' }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/timers with `{ deviceId, deviceName, timerId, timerName, state, sentAt }`;
+ * the snapshot is also published to live monitors
+ */
+export async function PUT(request: Request) {
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+  }
+
+  const { deviceId, deviceName, timerId, timerName, state, sentAt } = body ?? {}
+  if (typeof deviceId !== 'string' || typeof timerId !== 'string' || !state || typeof state !== 'object') {
+    return NextResponse.json({ error: 'deviceId, timerId and state are required' }, { status: 400 })
+  }
+
+  const now = Date.now()
+  const snapshot: TimerSnapshot = {
+    deviceId,
+    deviceName: typeof deviceName === 'string' ? deviceName : deviceId,
+    timerId,
+    timerName: typeof timerName === 'string' ? timerName : timerId,
+    state: state as PersistedState,
+    updatedAt: now,
+    clockOffsetMs: typeof sentAt === 'number' ? now - sentAt : 0,
+  }
+
+  try {
+    await saveTimerSnapshot(snapshot)
+    publishTimerSnapshot(snapshot)
+  } catch (error) {
+    console.error('Failed to save timer:', error)
+    return NextResponse.json({ error: 'Failed to save timer' }, { status: 500 })
+  }
+  return NextResponse.json({ ok: true })
+}
+
+/**
+ * DELETE /api/timers?deviceId=…&timerId=…: drop a timer's snapshot when the
+ * bay is removed or reset, so monitors stop showing it
+ */
+export async function DELETE(request: Request) {
+  const params = new URL(request.url).searchParams
+  const deviceId = params.get('deviceId')
+  const timerId = params.get('timerId')
+  if (!deviceId || !timerId) {
+    return NextResponse.json({ error: 'deviceId and timerId are required' }, { status: 400 })
+  }
+
+  try {
+    await removeTimerSnapshot(deviceId, timerId)
+    publishTimerRemoval({ deviceId, timerId })
+  } catch (error) {
+    console.error('Failed to remove timer:', error)
+    return NextResponse.json({ error: 'Failed to remove timer' }, { status: 500 })
+  }
+  return NextResponse.json({ ok: true })
+}
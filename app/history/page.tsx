@@ -0,0 +1,10 @@
+import type { Metadata } from 'next'
+import HistoryBrowser from '@/components/HistoryBrowser'
+
+export const metadata: Metadata = {
+  title: 'History | Timekeeper Countdown Bengkel',
+}
+
+export default function HistoryPage() {
+  return <HistoryBrowser />
+}
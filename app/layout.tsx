@@ -1,9 +1,16 @@
-import type { Metadata } from 'next'
+import type { Metadata, Viewport } from 'next'
 import './globals.css'
 
 export const metadata: Metadata = {
   title: 'Timekeeper Countdown Bengkel',
   description: 'Timer countdown untuk aktivitas bengkel',
+  applicationName: 'Timekeeper',
+  appleWebApp: { capable: true, title: 'Timekeeper', statusBarStyle: 'black' },
+  icons: { icon: '/profile.png', apple: '/profile.png' },
+}
+
+export const viewport: Viewport = {
+  themeColor: '#000000',
 }
 
 export default function RootLayout({
@@ -0,0 +1,23 @@
+import type { MetadataRoute } from 'next'
+
+/**
+ * Web app manifest (served at /manifest.webmanifest) so the timekeeper
+ * can be installed on the workshop tablets
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Timekeeper Countdown Bengkel',
+    short_name: 'Timekeeper',
+    description: 'Timer countdown untuk aktivitas bengkel',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    orientation: 'any',
+    background_color: '#000000',
+    theme_color: '#000000',
+    icons: [
+      { src: '/profile.png', sizes: '500x500', type: 'image/png', purpose: 'any' },
+      { src: '/profile.png', sizes: '500x500', type: 'image/png', purpose: 'maskable' },
+    ],
+  }
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from 'next'
+import MonitorBoard from '@/components/MonitorBoard'
+
+export const metadata: Metadata = {
+  title: 'Live Monitor | Timekeeper Countdown Bengkel',
+}
+
+export default function MonitorPage() {
+  return <MonitorBoard />
+}
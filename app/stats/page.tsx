@@ -0,0 +1,10 @@
+import type { Metadata } from 'next'
+import StatsDashboard from '@/components/StatsDashboard'
+
+export const metadata: Metadata = {
+  title: 'Statistics | Timekeeper Countdown Bengkel',
+}
+
+export default function StatsPage() {
+  return <StatsDashboard />
+}
@@ -0,0 +1,16 @@
+// Evaluated once per build, so every deploy gives the service worker new bytes
+const BUILD_VERSION = process.env.NODE_ENV === 'production' ? String(Date.now()) : 'development'
+
+export const dynamic = 'force-static'
+
+/**
+ * GET /sw-version: build version imported by `public/sw.js`
+ */
+export function GET() {
+  return new Response(`self.TIMEKEEPER_BUILD = '${BUILD_VERSION}';\n`, {
+    headers: {
+      'Content-Type': 'application/javascript',
+      'Cache-Control': 'no-cache',
+    },
+  })
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AUDIT_ACTION_LABELS, getAuditLog, type AuditEntry } from '@/utils/audit';
+import { formatDateTime } from '@/utils/format';
+
+interface AuditLogPanelProps {
+  isDarkMode: boolean;
+}
+
+function describeEntry(entry: AuditEntry): string {
+  if (entry.changes && entry.changes.length > 0) {
+    return entry.changes.map((change) => `${change.field}: "${change.from}" → "${change.to}"`).join(', ');
+  }
+  if (entry.source) return entry.source;
+  return entry.sessionIds.length === 1 ? entry.sessionIds[0] : '';
+}
+
+/**
+ * Read-only view of the latest history changes on this device
+ */
+export default function AuditLogPanel({ isDarkMode }: AuditLogPanelProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+
+  useEffect(() => {
+    getAuditLog().then(setEntries);
+  }, []);
+
+  const textMuted = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const thClassName = `text-left py-2 px-1 md:px-2 font-bold tracking-wider uppercase ${textMuted}`;
+
+  return (
+    <div className={`border-2 p-3 md:p-4 mb-3 md:mb-4 text-xs md:text-sm font-mono ${isDarkMode ? 'border-gray-700 bg-gray-950' : 'border-gray-300 bg-gray-50'}`}>
+      {entries.length === 0 ? (
+        <p className={textMuted}>No history changes recorded yet</p>
+      ) : (
+        <div className="overflow-x-auto max-h-80 overflow-y-auto">
+          <table className="w-full text-[10px] md:text-xs">
+            <thead>
+              <tr className={`border-b-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-300'}`}>
+                <th className={thClassName}>When</th>
+                <th className={thClassName}>Device</th>
+                <th className={thClassName}>Action</th>
+                <th className={thClassName}>Sessions</th>
+                <th className={thClassName}>Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.id} className={`border-b ${isDarkMode ? 'border-gray-800 text-gray-300' : 'border-gray-200 text-gray-700'}`}>
+                  <td className="py-2 px-1 md:px-2 whitespace-nowrap">{formatDateTime(entry.at)}</td>
+                  <td className="py-2 px-1 md:px-2">{entry.deviceName}</td>
+                  <td className={`py-2 px-1 md:px-2 font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{AUDIT_ACTION_LABELS[entry.action]}</td>
+                  <td className="py-2 px-1 md:px-2">{entry.sessionIds.length}</td>
+                  <td className="py-2 px-1 md:px-2 break-all">{describeEntry(entry)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className={`mt-2 text-[10px] md:text-xs ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+        Append-only: entries cannot be edited or removed. Showing the latest 100.
+      </p>
+    </div>
+  );
+}
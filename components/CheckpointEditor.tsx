@@ -0,0 +1,161 @@
+'use client';
+
+import { WARNING_SOUNDS, type WarningSound } from '@/utils/audio';
+import { createCheckpoint, type CheckpointKind, type WarningCheckpoint } from '@/utils/checkpoints';
+import { PRESET_COLORS, PRESET_COLOR_CLASSES, type PresetColor } from '@/utils/presets';
+
+interface CheckpointEditorProps {
+  checkpoints: WarningCheckpoint[];
+  isDarkMode: boolean;
+  disabled?: boolean;
+  onChange: (checkpoints: WarningCheckpoint[]) => void;
+}
+
+function toNumber(value: string, min: number, max: number): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed)) return min;
+  return Math.min(max, Math.max(min, parsed));
+}
+
+/**
+ * Edit an ordered list of warning checkpoints (time left or % elapsed)
+ */
+export default function CheckpointEditor({ checkpoints, isDarkMode, disabled = false, onChange }: CheckpointEditorProps) {
+  const updateCheckpoint = (id: string, changes: Partial<WarningCheckpoint>) => {
+    onChange(checkpoints.map((checkpoint) => (checkpoint.id === id ? { ...checkpoint, ...changes } : checkpoint)));
+  };
+
+  const changeKind = (checkpoint: WarningCheckpoint, kind: CheckpointKind) => {
+    updateCheckpoint(checkpoint.id, { kind, value: kind === 'elapsed' ? 80 : 60 * 1000 });
+  };
+
+  const inputClassName = `w-full px-2 py-1 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:cursor-not-allowed font-mono text-xs ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white disabled:bg-gray-950 disabled:border-gray-800 disabled:text-gray-600'
+      : 'bg-white border-gray-300 text-gray-900 disabled:bg-gray-100 disabled:border-gray-200 disabled:text-gray-400'
+  }`;
+
+  return (
+    <div className="space-y-2">
+      {checkpoints.length === 0 && (
+        <p className={`text-xs font-mono ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>No warnings</p>
+      )}
+
+      {checkpoints.map((checkpoint) => (
+        <div key={checkpoint.id} className="grid grid-cols-6 sm:grid-cols-12 gap-1 items-center">
+          <select
+            value={checkpoint.kind}
+            onChange={(e) => changeKind(checkpoint, e.target.value as CheckpointKind)}
+            disabled={disabled}
+            className={`col-span-3 sm:col-span-2 ${inputClassName}`}
+          >
+            <option value="remaining">Time left</option>
+            <option value="elapsed">% elapsed</option>
+          </select>
+
+          {checkpoint.kind === 'elapsed' ? (
+            <div className="col-span-3 sm:col-span-2 flex items-center gap-1">
+              <input
+                type="number"
+                min="1"
+                max="99"
+                value={checkpoint.value}
+                onChange={(e) => updateCheckpoint(checkpoint.id, { value: toNumber(e.target.value, 1, 99) })}
+                disabled={disabled}
+                className={inputClassName}
+              />
+              <span className="text-xs font-mono">%</span>
+            </div>
+          ) : (
+            <div className="col-span-3 sm:col-span-2 flex items-center gap-1">
+              <input
+                type="number"
+                min="0"
+                max="999"
+                value={Math.floor(checkpoint.value / 60000)}
+                onChange={(e) => updateCheckpoint(checkpoint.id, {
+                  value: toNumber(e.target.value, 0, 999) * 60000 + (checkpoint.value % 60000),
+                })}
+                disabled={disabled}
+                className={inputClassName}
+                title="Minutes"
+              />
+              <span className="text-xs font-mono">:</span>
+              <input
+                type="number"
+                min="0"
+                max="59"
+                value={Math.floor((checkpoint.value % 60000) / 1000)}
+                onChange={(e) => updateCheckpoint(checkpoint.id, {
+                  value: Math.floor(checkpoint.value / 60000) * 60000 + toNumber(e.target.value, 0, 59) * 1000,
+                })}
+                disabled={disabled}
+                className={inputClassName}
+                title="Seconds"
+              />
+            </div>
+          )}
+
+          <input
+            type="text"
+            value={checkpoint.label}
+            onChange={(e) => updateCheckpoint(checkpoint.id, { label: e.target.value })}
+            onBlur={(e) => {
+              if (!e.target.value.trim()) updateCheckpoint(checkpoint.id, { label: 'Warning' });
+            }}
+            disabled={disabled}
+            placeholder="Label"
+            className={`col-span-3 sm:col-span-3 ${inputClassName}`}
+          />
+
+          <div className="col-span-3 sm:col-span-2 flex items-center gap-1">
+            <span className={`inline-block w-4 h-4 border-2 flex-shrink-0 ${PRESET_COLOR_CLASSES[checkpoint.color]}`} />
+            <select
+              value={checkpoint.color}
+              onChange={(e) => updateCheckpoint(checkpoint.id, { color: e.target.value as PresetColor })}
+              disabled={disabled}
+              className={inputClassName}
+            >
+              {PRESET_COLORS.map((color) => (
+                <option key={color} value={color}>{color}</option>
+              ))}
+            </select>
+          </div>
+
+          <select
+            value={checkpoint.sound}
+            onChange={(e) => updateCheckpoint(checkpoint.id, { sound: e.target.value as WarningSound })}
+            disabled={disabled}
+            className={`col-span-4 sm:col-span-2 ${inputClassName}`}
+            title="Sound"
+          >
+            {WARNING_SOUNDS.map((sound) => (
+              <option key={sound} value={sound}>{sound}</option>
+            ))}
+          </select>
+
+          <button
+            onClick={() => onChange(checkpoints.filter((item) => item.id !== checkpoint.id))}
+            disabled={disabled}
+            className="col-span-2 sm:col-span-1 px-2 py-1 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all font-bold text-xs disabled:opacity-30 disabled:cursor-not-allowed"
+            title="Remove"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...checkpoints, createCheckpoint()])}
+        disabled={disabled}
+        className={`px-3 py-1 border-2 font-bold text-[10px] md:text-xs tracking-wider uppercase transition-all disabled:opacity-30 disabled:cursor-not-allowed ${
+          isDarkMode
+            ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+            : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+        }`}
+      >
+        + Add Warning
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+interface ConfirmBarProps {
+  message: string;
+  confirmLabel: string;
+  isDarkMode: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Inline confirmation step for destructive history actions
+ */
+export default function ConfirmBar({ message, confirmLabel, isDarkMode, onConfirm, onCancel }: ConfirmBarProps) {
+  return (
+    <div className={`border-2 p-3 md:p-4 mb-3 md:mb-4 flex flex-wrap items-center gap-3 ${
+      isDarkMode ? 'border-red-700 bg-red-950/40' : 'border-red-300 bg-red-50'
+    }`}>
+      <span className={`flex-1 min-w-[12rem] font-mono text-xs md:text-sm font-bold ${isDarkMode ? 'text-red-300' : 'text-red-700'}`}>
+        {message}
+      </span>
+      <button
+        onClick={onConfirm}
+        className="px-3 md:px-4 py-1.5 md:py-2 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-red-500/50"
+      >
+        {confirmLabel}
+      </button>
+      <button
+        onClick={onCancel}
+        className={`px-3 md:px-4 py-1.5 md:py-2 border-2 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase ${
+          isDarkMode
+            ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+            : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+        }`}
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useWakeLock } from '@/hooks/useWakeLock';
+import type { TimekeeperStateData } from '@/hooks/useCountdownTimekeeper';
+import { formatClockTime } from '@/utils/format';
+import { enterFullscreen } from '@/utils/fullscreen';
+import { PRESET_COLOR_CLASSES, type ActivityPreset } from '@/utils/presets';
+
+// Hold anywhere this long to leave the display
+const EXIT_HOLD_MS = 3000;
+
+interface DisplayModeProps {
+  timerName: string;
+  activityType: string;
+  activePreset?: ActivityPreset;
+  stateData: TimekeeperStateData;
+  stateLabel: string;
+  stateBadgeClass: string;
+  timerClass: string;
+  isDarkMode: boolean;
+  onExit: () => void;
+}
+
+/**
+ * Wall-display view of one bay: only the countdown, state, activity and
+ * warnings, sized to be read across the workshop. Keeps the screen awake
+ * while a session is active; there are no buttons, so it can only be left
+ * with a long press.
+ */
+export default function DisplayMode({
+  timerName,
+  activityType,
+  activePreset,
+  stateData,
+  stateLabel,
+  stateBadgeClass,
+  timerClass,
+  isDarkMode,
+  onExit,
+}: DisplayModeProps) {
+  const [holding, setHolding] = useState(false);
+  const holdTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useWakeLock(stateData.state === 'arming' || stateData.state === 'running' || stateData.state === 'paused');
+
+  const cancelHold = () => {
+    if (holdTimeoutRef.current) {
+      clearTimeout(holdTimeoutRef.current);
+      holdTimeoutRef.current = null;
+    }
+    setHolding(false);
+  };
+
+  const startHold = () => {
+    cancelHold();
+    setHolding(true);
+    holdTimeoutRef.current = setTimeout(() => {
+      holdTimeoutRef.current = null;
+      setHolding(false);
+      onExit();
+    }, EXIT_HOLD_MS);
+  };
+
+  const timeText = stateData.state === 'arming' ? String(stateData.armingCountdown) : formatClockTime(stateData.remainingMs);
+
+  // Only a live session can be overdue; a stopped one keeps its last remaining time
+  const isLive = stateData.state === 'running' || stateData.state === 'paused';
+  const warning = !isLive
+    ? null
+    : stateData.escalation
+      ? { label: `⏰ ${stateData.escalation.label}`, className: 'bg-purple-600 border-purple-400' }
+      : stateData.remainingMs < 0
+        ? { label: '⚠ Overdue', className: 'bg-red-600 border-red-400' }
+        : stateData.activeCheckpoint
+          ? { label: `⚠ ${stateData.activeCheckpoint.label}`, className: PRESET_COLOR_CLASSES[stateData.activeCheckpoint.color] }
+          : null;
+
+  return (
+    <div
+      // Tapping brings fullscreen back after the browser dropped it (e.g. Esc)
+      onClick={enterFullscreen}
+      onPointerDown={startHold}
+      onPointerUp={cancelHold}
+      onPointerCancel={cancelHold}
+      onPointerLeave={cancelHold}
+      onContextMenu={(e) => e.preventDefault()}
+      className={`fixed inset-0 z-[60] flex flex-col items-center justify-center gap-[4vh] p-[3vw] select-none touch-none cursor-none ${
+        isDarkMode ? 'bg-black' : 'bg-white'
+      }`}
+    >
+      <div className="flex flex-wrap justify-center items-center gap-[2vw]">
+        <span className={`px-[2vw] py-[1vh] border-4 font-black text-[4vw] leading-none tracking-wider uppercase ${
+          isDarkMode ? 'bg-gray-900 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+        }`}>
+          {timerName}
+        </span>
+        <span className={`px-[2vw] py-[1vh] border-4 font-black text-[4vw] leading-none tracking-wider uppercase ${
+          activePreset ? `text-white ${PRESET_COLOR_CLASSES[activePreset.color]}` : isDarkMode ? 'border-gray-600 text-gray-300' : 'border-gray-300 text-gray-700'
+        }`}>
+          {activityType}
+        </span>
+        <span className={`px-[2vw] py-[1vh] border-4 text-white font-black text-[4vw] leading-none tracking-wider uppercase ${stateBadgeClass}`}>
+          {stateLabel}
+        </span>
+      </div>
+
+      <div
+        className={`font-mono font-black leading-none whitespace-nowrap ${timerClass}`}
+        // Scale with the string so h:mm:ss still fits the width
+        style={{ fontSize: `min(40vh, ${Math.floor(160 / timeText.length)}vw)` }}
+      >
+        {timeText}
+      </div>
+
+      <div className="min-h-[12vh] flex items-center">
+        {warning && (
+          <span className={`px-[3vw] py-[1.5vh] border-4 text-white font-black text-[6vw] leading-none tracking-wider uppercase animate-pulse ${warning.className}`}>
+            {warning.label}
+          </span>
+        )}
+      </div>
+
+      {/* Only visible while holding, so the exit gesture stays out of sight */}
+      <div className="absolute bottom-0 left-0 right-0 h-1">
+        <div
+          className={`h-full ${isDarkMode ? 'bg-gray-600' : 'bg-gray-300'}`}
+          style={{
+            width: holding ? '100%' : '0%',
+            transition: holding ? `width ${EXIT_HOLD_MS}ms linear` : 'none',
+          }}
+        ></div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { ESCALATION_ACTIONS, type EscalationAction, type EscalationStep } from '@/utils/escalation';
+
+interface EscalationEditorProps {
+  steps: EscalationStep[];
+  isDarkMode: boolean;
+  onChange: (steps: EscalationStep[]) => void;
+}
+
+const MINUTE = 60 * 1000;
+
+function toMinutes(value: string): number {
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? 0 : Math.min(999, Math.max(0, parsed));
+}
+
+/**
+ * Edit the escalation steps that fire while a session is overdue
+ */
+export default function EscalationEditor({ steps, isDarkMode, onChange }: EscalationEditorProps) {
+  const updateStep = (id: string, changes: Partial<EscalationStep>) => {
+    onChange(steps.map((step) => (step.id === id ? { ...step, ...changes } : step)));
+  };
+
+  const addStep = () => {
+    const lastAfterMs = Math.max(0, ...steps.map((step) => step.afterMs));
+    onChange([
+      ...steps,
+      { id: `esc-${Date.now()}`, afterMs: lastAfterMs + 5 * MINUTE, repeatMs: 0, action: 'reminder', label: 'Overdue' },
+    ]);
+  };
+
+  const inputClassName = `w-full px-2 py-1 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-xs ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const thClassName = `text-left py-2 px-1 md:px-2 font-bold tracking-wider uppercase ${
+    isDarkMode ? 'text-gray-400' : 'text-gray-600'
+  }`;
+
+  return (
+    <div>
+      <div className="overflow-x-auto -mx-3 md:mx-0">
+        <table className="w-full text-[10px] md:text-xs font-mono">
+          <thead>
+            <tr className={`border-b-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-300'}`}>
+              <th className={thClassName}>Label</th>
+              <th className={thClassName}>After (min)</th>
+              <th className={thClassName}>Repeat (min)</th>
+              <th className={thClassName}>Action</th>
+              <th className={thClassName}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {steps.map((step) => (
+              <tr key={step.id} className={`border-b ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}>
+                <td className="py-2 px-1 md:px-2 min-w-[140px]">
+                  <input
+                    type="text"
+                    value={step.label}
+                    onChange={(e) => updateStep(step.id, { label: e.target.value })}
+                    onBlur={(e) => {
+                      if (!e.target.value.trim()) updateStep(step.id, { label: 'Overdue' });
+                    }}
+                    className={inputClassName}
+                  />
+                </td>
+                <td className="py-2 px-1 md:px-2 w-20">
+                  <input
+                    type="number"
+                    min="0"
+                    max="999"
+                    value={Math.round(step.afterMs / MINUTE)}
+                    onChange={(e) => updateStep(step.id, { afterMs: toMinutes(e.target.value) * MINUTE })}
+                    className={inputClassName}
+                  />
+                </td>
+                <td className="py-2 px-1 md:px-2 w-20">
+                  <input
+                    type="number"
+                    min="0"
+                    max="999"
+                    value={Math.round(step.repeatMs / MINUTE)}
+                    onChange={(e) => updateStep(step.id, { repeatMs: toMinutes(e.target.value) * MINUTE })}
+                    className={inputClassName}
+                    title="0 = once"
+                  />
+                </td>
+                <td className="py-2 px-1 md:px-2">
+                  <select
+                    value={step.action}
+                    onChange={(e) => updateStep(step.id, { action: e.target.value as EscalationAction })}
+                    className={inputClassName}
+                  >
+                    {ESCALATION_ACTIONS.map((action) => (
+                      <option key={action} value={action}>{action}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2 px-1 md:px-2 text-right">
+                  <button
+                    onClick={() => onChange(steps.filter((item) => item.id !== step.id))}
+                    className="px-2 py-1 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all font-bold text-xs"
+                    title="Delete"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className={`mt-2 text-[10px] md:text-xs font-mono ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+        reminder = short beep, loud = loud alarm, banner = full-screen flashing banner. Repeat 0 = once.
+      </p>
+
+      <button
+        onClick={addStep}
+        className="mt-3 px-3 md:px-4 py-1.5 md:py-2 bg-green-600 border-2 border-green-400 text-white hover:bg-green-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-green-500/50"
+      >
+        + Add Step
+      </button>
+    </div>
+  );
+}
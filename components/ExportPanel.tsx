@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import SessionDetailFilters from '@/components/SessionDetailFilters';
+import { downloadSessions, type ExportFormat } from '@/utils/export';
+import { parseDateInput } from '@/utils/format';
+import type { DetailSuggestions } from '@/utils/sessionDetails';
+import {
+  countSessions,
+  getActivityTypes,
+  getDetailSuggestions,
+  querySessions,
+  type SessionDetails,
+  type SessionQuery,
+} from '@/utils/storage';
+
+interface ExportPanelProps {
+  isDarkMode: boolean;
+}
+
+/**
+ * Export session history filtered by date range, activity type and details
+ */
+export default function ExportPanel({ isDarkMode }: ExportPanelProps) {
+  const [activityTypes, setActivityTypes] = useState<string[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [matchCount, setMatchCount] = useState(0);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [activityType, setActivityType] = useState('');
+  const [details, setDetails] = useState<SessionDetails>({});
+  const [suggestions, setSuggestions] = useState<DetailSuggestions>({ operator: [], unit: [], workOrder: [] });
+
+  const from = parseDateInput(fromDate, false);
+  const to = parseDateInput(toDate, true);
+
+  useEffect(() => {
+    getActivityTypes().then(setActivityTypes);
+    getDetailSuggestions().then(setSuggestions);
+    countSessions().then(setTotalCount);
+  }, []);
+
+  useEffect(() => {
+    const query: SessionQuery = { ...details, from, to, activityType: activityType || undefined };
+    countSessions(query).then(setMatchCount);
+  }, [from, to, activityType, details]);
+
+  const handleExport = async (format: ExportFormat) => {
+    const sessions = await querySessions({ ...details, from, to, activityType: activityType || undefined });
+    if (sessions.length === 0) return;
+    downloadSessions(sessions, format);
+  };
+
+  const inputClassName = `w-full px-3 py-1.5 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-xs md:text-sm ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const labelClassName = `block text-[10px] md:text-xs font-bold mb-1 tracking-wide uppercase ${
+    isDarkMode ? 'text-gray-300' : 'text-gray-700'
+  }`;
+  const buttonClassName = 'px-3 md:px-4 py-1.5 md:py-2 bg-blue-600 border-2 border-blue-400 text-white hover:bg-blue-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-blue-500/50 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className={`border-2 p-3 md:p-4 mb-3 md:mb-4 ${isDarkMode ? 'border-gray-700 bg-gray-950' : 'border-gray-300 bg-gray-50'}`}>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3">
+        <div>
+          <label className={labelClassName}>From</label>
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label className={labelClassName}>To</label>
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label className={labelClassName}>Activity Type</label>
+          <select value={activityType} onChange={(e) => setActivityType(e.target.value)} className={inputClassName}>
+            <option value="">All</option>
+            {activityTypes.map((type) => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="mb-3">
+        <SessionDetailFilters
+          value={details}
+          suggestions={suggestions}
+          isDarkMode={isDarkMode}
+          idPrefix="export"
+          onChange={setDetails}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={`text-xs font-mono mr-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {matchCount} of {totalCount} sessions
+        </span>
+        <button onClick={() => handleExport('csv')} disabled={matchCount === 0} className={buttonClassName}>
+          CSV
+        </button>
+        <button onClick={() => handleExport('json')} disabled={matchCount === 0} className={buttonClassName}>
+          JSON
+        </button>
+        <button onClick={() => handleExport('xls')} disabled={matchCount === 0} className={buttonClassName}>
+          Excel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,493 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import SessionDetailFilters from '@/components/SessionDetailFilters';
+import SessionEditor from '@/components/SessionEditor';
+import SessionTimeline from '@/components/SessionTimeline';
+import { useTheme } from '@/hooks/useTheme';
+import { formatDateTime, formatDuration, formatOverdue, parseDateInput } from '@/utils/format';
+import {
+  DEFAULT_HISTORY_SORT,
+  HISTORY_PAGE_SIZE,
+  isIndexedSort,
+  sortSessions,
+  toggleSort,
+  type HistorySort,
+  type HistorySortKey,
+} from '@/utils/history';
+import { getSessionOutcome, getStopReasonLabel, OUTCOME_BADGE_CLASSES, OUTCOME_LABELS, OUTCOMES, type SessionOutcome } from '@/utils/outcome';
+import type { DetailSuggestions } from '@/utils/sessionDetails';
+import {
+  countSessions,
+  deleteSession,
+  getActivityTypes,
+  getDetailSuggestions,
+  querySessions,
+  restoreSessions,
+  updateSession,
+  type Session,
+  type SessionDetails,
+  type SessionQuery,
+} from '@/utils/storage';
+
+const UNDO_WINDOW_MS = 10000;
+
+const COLUMNS: { key: HistorySortKey; label: string; align: string }[] = [
+  { key: 'startAt', label: 'Time', align: 'text-left' },
+  { key: 'bay', label: 'Bay', align: 'text-left' },
+  { key: 'activityType', label: 'Activity', align: 'text-left' },
+  { key: 'operator', label: 'Operator', align: 'text-left' },
+  { key: 'unit', label: 'Unit', align: 'text-left' },
+  { key: 'workOrder', label: 'Work Order', align: 'text-left' },
+  { key: 'targetDurationMs', label: 'Target', align: 'text-right' },
+  { key: 'outcome', label: 'Status', align: 'text-center' },
+  { key: 'effectiveDurationMs', label: 'Duration', align: 'text-right' },
+  { key: 'overdueMs', label: 'Overdue', align: 'text-right' },
+];
+
+interface HistoryFilter {
+  fromDate: string;
+  toDate: string;
+  activityType: string;
+  status: '' | Session['status'];
+  outcome: '' | SessionOutcome;
+  overdueOnly: boolean;
+  details: SessionDetails;
+}
+
+const EMPTY_FILTER: HistoryFilter = {
+  fromDate: '',
+  toDate: '',
+  activityType: '',
+  status: '',
+  outcome: '',
+  overdueOnly: false,
+  details: {},
+};
+
+interface PendingUndo {
+  message: string;
+  previous: Session;
+  current: Session | null; // null = deleted
+}
+
+/**
+ * Every session stored on this device: filter, sort, page, and correct or
+ * delete single records with a short undo window
+ */
+export default function HistoryBrowser() {
+  const { isDarkMode, toggleTheme } = useTheme();
+  const [sessions, setSessions] = useState<Session[]>([]); // Current page only
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_FILTER);
+  const [sort, setSort] = useState<HistorySort>(DEFAULT_HISTORY_SORT);
+  const [page, setPage] = useState(0);
+  const [activityTypes, setActivityTypes] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<DetailSuggestions>({ operator: [], unit: [], workOrder: [] });
+  const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null);
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
+  const [undo, setUndo] = useState<PendingUndo | null>(null);
+  const [writeError, setWriteError] = useState<string | null>(null);
+  const loadIdRef = useRef(0);
+
+  const loadSessions = useCallback(async () => {
+    const loadId = ++loadIdRef.current;
+    const query: SessionQuery = {
+      ...filter.details,
+      from: parseDateInput(filter.fromDate, false),
+      to: parseDateInput(filter.toDate, true),
+      activityType: filter.activityType || undefined,
+      status: filter.status || undefined,
+      outcome: filter.outcome || undefined,
+      overdueOnly: filter.overdueOnly || undefined,
+    };
+    const offset = page * HISTORY_PAGE_SIZE;
+
+    let pageSessions: Session[];
+    let matching: number;
+    if (isIndexedSort(sort)) {
+      [pageSessions, matching] = await Promise.all([
+        querySessions({ ...query, order: sort.direction === 'asc' ? 'oldest' : 'newest', offset, limit: HISTORY_PAGE_SIZE }),
+        countSessions(query),
+      ]);
+    } else {
+      // Other columns have no index, so every matching session is loaded and
+      // sorted in memory; narrow the filters first on a very large history
+      const sorted = sortSessions(await querySessions(query), sort);
+      pageSessions = sorted.slice(offset, offset + HISTORY_PAGE_SIZE);
+      matching = sorted.length;
+    }
+
+    // A newer filter, sort or page was requested meanwhile
+    if (loadId !== loadIdRef.current) return;
+    // Deleting the last row of the last page steps back a page
+    if (pageSessions.length === 0 && page > 0 && matching > 0) {
+      setPage(Math.ceil(matching / HISTORY_PAGE_SIZE) - 1);
+      return;
+    }
+    setSessions(pageSessions);
+    setTotal(matching);
+    setLoading(false);
+  }, [filter, sort, page]);
+
+  const loadOptions = useCallback(() => {
+    getActivityTypes().then(setActivityTypes);
+    getDetailSuggestions().then(setSuggestions);
+  }, []);
+
+  useEffect(() => {
+    loadOptions();
+  }, [loadOptions]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  // The undo bar disappears (and the change becomes final) after a while
+  useEffect(() => {
+    if (!undo) return;
+    const timeout = setTimeout(() => setUndo(null), UNDO_WINDOW_MS);
+    return () => clearTimeout(timeout);
+  }, [undo]);
+
+  const pageCount = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+
+  // A new filter or sort starts at the first page
+  const updateFilter = (changes: Partial<HistoryFilter>) => {
+    setFilter({ ...filter, ...changes });
+    setPage(0);
+  };
+
+  const updateSort = (key: HistorySortKey) => {
+    setSort(toggleSort(sort, key));
+    setPage(0);
+  };
+
+  // A failed write leaves history as it was, so there is nothing to undo
+  const reportWriteError = (action: string, error: unknown) => {
+    setUndo(null);
+    setWriteError(`${action} failed: ${error instanceof Error ? error.message : 'Unknown storage error'}`);
+  };
+
+  const handleDelete = async (session: Session) => {
+    try {
+      await deleteSession(session);
+    } catch (error) {
+      reportWriteError(`Deleting ${session.activityType} (${formatDateTime(session.startAt)})`, error);
+      return;
+    }
+    setWriteError(null);
+    setUndo({ message: `Moved ${session.activityType} (${formatDateTime(session.startAt)}) to trash`, previous: session, current: null });
+    loadSessions();
+    loadOptions();
+  };
+
+  const handleSave = async (previous: Session, updated: Session) => {
+    try {
+      await updateSession(previous, updated);
+    } catch (error) {
+      // The editor stays open so the correction is not lost
+      reportWriteError(`Updating ${updated.activityType} (${formatDateTime(updated.startAt)})`, error);
+      return;
+    }
+    setEditingSessionId(null);
+    setWriteError(null);
+    setUndo({ message: `Updated ${updated.activityType} (${formatDateTime(updated.startAt)})`, previous, current: updated });
+    loadSessions();
+    loadOptions();
+  };
+
+  const handleUndo = async () => {
+    if (!undo) return;
+    setUndo(null);
+    // Undo is itself audited: a restore from the trash, or an edit back
+    try {
+      if (undo.current) {
+        await updateSession(undo.current, undo.previous);
+      } else {
+        await restoreSessions([undo.previous.id]);
+      }
+    } catch (error) {
+      reportWriteError('Undo', error);
+      return;
+    }
+    setWriteError(null);
+    loadSessions();
+    loadOptions();
+  };
+
+  const panelClassName = `border-2 p-3 md:p-4 lg:p-6 mb-4 md:mb-6 ${
+    isDarkMode ? 'bg-gray-900 border-gray-700' : 'bg-white border-gray-300 shadow-lg'
+  }`;
+  const inputClassName = `w-full px-3 py-1.5 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-xs md:text-sm ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const labelClassName = `block text-[10px] md:text-xs font-bold mb-1 tracking-wide uppercase ${
+    isDarkMode ? 'text-gray-300' : 'text-gray-700'
+  }`;
+  const thClassName = `py-2 md:py-3 px-2 md:px-3 font-bold tracking-wider uppercase whitespace-nowrap ${
+    isDarkMode ? 'text-gray-400' : 'text-gray-600'
+  }`;
+  const tdClassName = `py-2 md:py-3 px-2 md:px-3 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`;
+  const toggleClassName = (active: boolean) =>
+    `px-3 md:px-4 py-1.5 md:py-2 border-2 font-bold text-[10px] md:text-xs tracking-wider uppercase transition-all whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed ${
+      active
+        ? 'bg-blue-600 border-blue-400 text-white shadow-lg shadow-blue-500/50'
+        : isDarkMode
+          ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+          : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+    }`;
+  const rowButtonClassName = `px-2 py-1 border-2 transition-all font-bold text-xs ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+      : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className={`min-h-screen ${isDarkMode ? 'bg-black text-white' : 'bg-white text-black'}`}>
+      {/* Header */}
+      <div className={`p-3 md:p-4 lg:p-6 border-b flex items-center justify-between gap-2 ${
+        isDarkMode ? 'border-gray-800 bg-gradient-to-r from-gray-900 to-black' : 'border-gray-200 bg-gradient-to-r from-gray-50 to-white'
+      }`}>
+        <Link href="/" className={toggleClassName(false)}>← Timer</Link>
+        <h1 className={`text-sm md:text-lg lg:text-xl font-bold tracking-wider uppercase ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          Session History
+        </h1>
+        <button onClick={toggleTheme} className={toggleClassName(false)}>
+          {isDarkMode ? '☀️' : '🌙'}
+        </button>
+      </div>
+
+      <div className={`w-full px-3 md:px-4 lg:px-8 py-4 md:py-6 ${isDarkMode ? 'bg-black' : 'bg-gray-50'}`}>
+        <div className="max-w-6xl mx-auto">
+          {/* Filters */}
+          <div className={panelClassName}>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3 mb-3">
+              <div>
+                <label className={labelClassName}>From</label>
+                <input type="date" value={filter.fromDate} onChange={(e) => updateFilter({ fromDate: e.target.value })} className={inputClassName} />
+              </div>
+              <div>
+                <label className={labelClassName}>To</label>
+                <input type="date" value={filter.toDate} onChange={(e) => updateFilter({ toDate: e.target.value })} className={inputClassName} />
+              </div>
+              <div>
+                <label className={labelClassName}>Activity Type</label>
+                <select value={filter.activityType} onChange={(e) => updateFilter({ activityType: e.target.value })} className={inputClassName}>
+                  <option value="">All</option>
+                  {activityTypes.map((type) => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClassName}>Status</label>
+                <select
+                  value={filter.status}
+                  onChange={(e) => updateFilter({ status: e.target.value as HistoryFilter['status'] })}
+                  className={inputClassName}
+                >
+                  <option value="">All</option>
+                  <option value="finished">Finished</option>
+                  <option value="aborted">Aborted</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClassName}>Outcome</label>
+                <select
+                  value={filter.outcome}
+                  onChange={(e) => updateFilter({ outcome: e.target.value as HistoryFilter['outcome'] })}
+                  className={inputClassName}
+                >
+                  <option value="">All</option>
+                  {OUTCOMES.map((outcome) => (
+                    <option key={outcome} value={outcome}>{OUTCOME_LABELS[outcome]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="mb-3">
+              <SessionDetailFilters
+                value={filter.details}
+                suggestions={suggestions}
+                isDarkMode={isDarkMode}
+                idPrefix="history-page"
+                onChange={(details) => updateFilter({ details })}
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => updateFilter({ overdueOnly: !filter.overdueOnly })} className={toggleClassName(filter.overdueOnly)}>
+                ⏰ Overdue Only
+              </button>
+              <button onClick={() => updateFilter(EMPTY_FILTER)} className={toggleClassName(false)}>
+                ↺ Reset Filters
+              </button>
+              <span className={`text-xs font-mono ml-auto ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                {total} sessions
+              </span>
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className={panelClassName}>
+            {loading ? (
+              <p className={`text-center py-8 font-mono text-sm ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>Loading…</p>
+            ) : total === 0 ? (
+              <p className={`text-center py-8 font-mono text-sm ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>No matching sessions</p>
+            ) : (
+              <>
+                <div className="overflow-x-auto -mx-3 md:mx-0">
+                  <table className="w-full text-[10px] md:text-xs lg:text-sm font-mono">
+                    <thead>
+                      <tr className={`border-b-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-300'}`}>
+                        {COLUMNS.map((column) => (
+                          <th key={column.key} className={`${column.align} ${thClassName}`}>
+                            <button
+                              onClick={() => updateSort(column.key)}
+                              className={`uppercase tracking-wider ${sort.key === column.key ? (isDarkMode ? 'text-white' : 'text-gray-900') : ''}`}
+                            >
+                              {column.label}
+                              {sort.key === column.key && (sort.direction === 'asc' ? ' ▲' : ' ▼')}
+                            </button>
+                          </th>
+                        ))}
+                        <th className={thClassName}></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sessions.map((session) => (
+                        <Fragment key={session.id}>
+                          <tr
+                            onClick={() => setExpandedSessionId(expandedSessionId === session.id ? null : session.id)}
+                            className={`border-b transition-colors cursor-pointer ${
+                              isDarkMode ? 'border-gray-800 hover:bg-gray-800' : 'border-gray-200 hover:bg-gray-50'
+                            }`}
+                          >
+                            <td className={`${tdClassName} whitespace-nowrap`}>{formatDateTime(session.startAt)}</td>
+                            <td className={tdClassName}>{session.timerName || '-'}</td>
+                            <td className={`${tdClassName} font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                              {session.activityType}
+                              {session.notes && (
+                                <span
+                                  className={`block max-w-[16rem] truncate text-[10px] font-normal ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}
+                                  title={session.notes}
+                                >
+                                  {session.notes}
+                                </span>
+                              )}
+                            </td>
+                            <td className={tdClassName}>{session.operator || '-'}</td>
+                            <td className={tdClassName}>{session.unit || '-'}</td>
+                            <td className={tdClassName}>{session.workOrder || '-'}</td>
+                            <td className={`${tdClassName} text-right`}>{formatDuration(session.targetDurationMs)}</td>
+                            <td className={`${tdClassName} text-center`}>
+                              <span
+                                className={`inline-block px-2 md:px-3 py-0.5 md:py-1 border-2 text-white text-[10px] md:text-xs font-bold tracking-wider uppercase whitespace-nowrap ${
+                                  OUTCOME_BADGE_CLASSES[getSessionOutcome(session)]
+                                }`}
+                                title={session.stopReason ? getStopReasonLabel(session.stopReason) : undefined}
+                              >
+                                {OUTCOME_LABELS[getSessionOutcome(session)]}
+                              </span>
+                            </td>
+                            <td className={`${tdClassName} text-right`}>{formatDuration(session.effectiveDurationMs)}</td>
+                            <td className={`${tdClassName} text-right font-bold ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
+                              {formatOverdue(session.overdueMs || 0)}
+                            </td>
+                            <td className={`${tdClassName} text-right whitespace-nowrap`} onClick={(e) => e.stopPropagation()}>
+                              <button
+                                onClick={() => setEditingSessionId(editingSessionId === session.id ? null : session.id)}
+                                className={`${rowButtonClassName} mr-1`}
+                                title="Edit"
+                              >
+                                ✎
+                              </button>
+                              <button
+                                onClick={() => handleDelete(session)}
+                                className="px-2 py-1 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all font-bold text-xs"
+                                title="Delete"
+                              >
+                                ✕
+                              </button>
+                            </td>
+                          </tr>
+                          {editingSessionId === session.id && (
+                            <tr className={`border-b ${isDarkMode ? 'border-gray-800 bg-gray-950' : 'border-gray-200 bg-gray-50'}`}>
+                              <td colSpan={COLUMNS.length + 1} className="px-2 md:px-3">
+                                <SessionEditor
+                                  session={session}
+                                  activityTypes={activityTypes}
+                                  suggestions={suggestions}
+                                  isDarkMode={isDarkMode}
+                                  onSave={(updated) => handleSave(session, updated)}
+                                  onCancel={() => setEditingSessionId(null)}
+                                />
+                              </td>
+                            </tr>
+                          )}
+                          {expandedSessionId === session.id && editingSessionId !== session.id && (
+                            <tr className={`border-b ${isDarkMode ? 'border-gray-800 bg-gray-950' : 'border-gray-200 bg-gray-50'}`}>
+                              <td colSpan={COLUMNS.length + 1} className="px-2 md:px-3">
+                                <SessionTimeline session={session} isDarkMode={isDarkMode} />
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Paging */}
+                <div className="flex flex-wrap items-center justify-center gap-2 mt-3 md:mt-4">
+                  <button onClick={() => setPage(0)} disabled={currentPage === 0} className={toggleClassName(false)}>«</button>
+                  <button onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0} className={toggleClassName(false)}>‹ Prev</button>
+                  <span className={`text-xs font-mono px-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                    Page {currentPage + 1} / {pageCount}
+                  </span>
+                  <button onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1} className={toggleClassName(false)}>Next ›</button>
+                  <button onClick={() => setPage(pageCount - 1)} disabled={currentPage >= pageCount - 1} className={toggleClassName(false)}>»</button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Write failure */}
+      {writeError && (
+        <div className="fixed bottom-0 inset-x-0 z-50 border-t-2 border-red-400 bg-red-700 text-white p-3 md:p-4 flex flex-wrap items-center justify-center gap-3 shadow-lg shadow-red-500/50">
+          <span className="text-xs md:text-sm font-mono font-bold">⚠ {writeError}</span>
+          <button
+            onClick={() => setWriteError(null)}
+            className="px-3 md:px-4 py-1.5 md:py-2 bg-white border-2 border-white text-red-700 hover:bg-red-100 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Undo */}
+      {undo && (
+        <div className={`fixed bottom-0 inset-x-0 z-50 border-t-2 p-3 md:p-4 flex flex-wrap items-center justify-center gap-3 ${
+          isDarkMode ? 'bg-gray-900 border-gray-600' : 'bg-white border-gray-300 shadow-lg'
+        }`}>
+          <span className="text-xs md:text-sm font-mono">{undo.message}</span>
+          <button
+            onClick={handleUndo}
+            className="px-3 md:px-4 py-1.5 md:py-2 bg-blue-600 border-2 border-blue-400 text-white hover:bg-blue-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-blue-500/50"
+          >
+            ↶ Undo
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
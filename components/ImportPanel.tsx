@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDateTime } from '@/utils/format';
+import { parseImportFile, planImport, type ConflictStrategy, type ImportPlan } from '@/utils/import';
+import { getSessions, importSessions, type Session } from '@/utils/storage';
+
+interface ImportPanelProps {
+  isDarkMode: boolean;
+  onImported: () => void;
+}
+
+/**
+ * Import a previously exported JSON/CSV file. Shows a preview and conflict
+ * report; storage is only written after the user confirms.
+ */
+export default function ImportPanel({ isDarkMode, onImported }: ImportPanelProps) {
+  const [existing, setExisting] = useState<Session[]>([]);
+  const [records, setRecords] = useState<unknown[] | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [strategy, setStrategy] = useState<ConflictStrategy>('keep-existing');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const plan: ImportPlan | null = records ? planImport(existing, records, strategy) : null;
+
+  const handleFile = async (file: File | undefined) => {
+    setError(null);
+    setMessage(null);
+    setRecords(null);
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const parsed = parseImportFile(text, file.name);
+      setExisting(await getSessions());
+      setRecords(parsed);
+      setFileName(file.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!plan) return;
+    // Records replaced by "Use imported" stay restorable from the trash
+    const overwritten = strategy === 'prefer-imported' ? plan.conflicts.map((conflict) => conflict.existing) : [];
+    try {
+      await importSessions(plan.toWrite, overwritten, fileName);
+    } catch (err) {
+      setError(`Import failed, nothing was written: ${err instanceof Error ? err.message : 'Unknown storage error'}`);
+      return;
+    }
+    setError(null);
+    setMessage(
+      `Imported ${plan.added.length} new session(s)` +
+        (overwritten.length > 0 ? ` and replaced ${overwritten.length}` : '') +
+        ` from ${fileName}`
+    );
+    setRecords(null);
+    onImported();
+  };
+
+  const textMuted = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const textStrong = isDarkMode ? 'text-white' : 'text-gray-900';
+  const buttonBase = 'px-3 md:px-4 py-1.5 md:py-2 border-2 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase';
+
+  return (
+    <div className={`border-2 p-3 md:p-4 mb-3 md:mb-4 text-xs md:text-sm font-mono ${isDarkMode ? 'border-gray-700 bg-gray-950' : 'border-gray-300 bg-gray-50'}`}>
+      <input
+        type="file"
+        accept=".json,.csv,application/json,text/csv"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className={`block w-full text-xs ${textMuted}`}
+      />
+
+      {error && <p className="mt-3 text-red-500 font-bold">{error}</p>}
+      {message && <p className="mt-3 text-green-500 font-bold">{message}</p>}
+
+      {plan && (
+        <div className="mt-3 space-y-3">
+          {/* Summary */}
+          <div className={`grid grid-cols-2 sm:grid-cols-5 gap-2 ${textMuted}`}>
+            <span>Records: <b className={textStrong}>{plan.total}</b></span>
+            <span>New: <b className="text-green-500">{plan.added.length}</b></span>
+            <span>Duplicates: <b className={textStrong}>{plan.duplicates.length}</b></span>
+            <span>Conflicts: <b className="text-orange-500">{plan.conflicts.length}</b></span>
+            <span>Invalid: <b className="text-red-500">{plan.invalid.length}</b></span>
+          </div>
+
+          {/* Conflicts */}
+          {plan.conflicts.length > 0 && (
+            <div>
+              <p className={`font-bold uppercase tracking-wider mb-1 ${textStrong}`}>Conflicts (same id, different data)</p>
+              <ul className={`space-y-0.5 ${textMuted}`}>
+                {plan.conflicts.map(({ existing, incoming }) => (
+                  <li key={incoming.id}>
+                    {incoming.id}: {existing.activityType} @ {formatDateTime(existing.startAt)} → {incoming.activityType} @ {formatDateTime(incoming.startAt)}
+                  </li>
+                ))}
+              </ul>
+              <div className="flex flex-wrap gap-4 mt-2">
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={strategy === 'keep-existing'} onChange={() => setStrategy('keep-existing')} />
+                  Keep existing
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={strategy === 'prefer-imported'} onChange={() => setStrategy('prefer-imported')} />
+                  Use imported
+                </label>
+              </div>
+              {strategy === 'prefer-imported' && (
+                <p className={`mt-1 ${textMuted}`}>
+                  {plan.conflicts.length} existing session(s) will be replaced and moved to the trash.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Invalid */}
+          {plan.invalid.length > 0 && (
+            <div>
+              <p className={`font-bold uppercase tracking-wider mb-1 ${textStrong}`}>Skipped (invalid)</p>
+              <ul className={`space-y-0.5 max-h-32 overflow-y-auto ${textMuted}`}>
+                {plan.invalid.map((item) => (
+                  <li key={item.index}>#{item.index}: {item.reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleConfirm}
+              disabled={plan.toWrite.length === 0}
+              className={`${buttonBase} bg-green-600 border-green-400 text-white hover:bg-green-500 shadow-lg shadow-green-500/50 disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              Confirm Import
+            </button>
+            <button
+              onClick={() => setRecords(null)}
+              className={`${buttonBase} ${isDarkMode ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700' : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'}`}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useTheme } from '@/hooks/useTheme';
+import type { TimerSnapshot } from '@/utils/fileStore';
+import type { TimerRemoval } from '@/utils/monitorHub';
+import { formatTime } from '@/utils/format';
+import { PRESET_COLOR_CLASSES } from '@/utils/presets';
+import { createInitialContext, getRemainingMs } from '@/utils/timerMachine';
+
+const TICK_INTERVAL = 100;
+const STALE_AFTER = 30 * 1000; // Running timers push at least every 5 s, paused ones every 10 s
+
+type Connection = 'connecting' | 'live' | 'reconnecting';
+
+function snapshotKey(snapshot: Pick<TimerSnapshot, 'deviceId' | 'timerId'>): string {
+  return `${snapshot.deviceId}:${snapshot.timerId}`;
+}
+
+function isActive(snapshot: TimerSnapshot): boolean {
+  const { state } = snapshot.state;
+  return state === 'arming' || state === 'running' || state === 'paused';
+}
+
+/**
+ * Remaining time of a snapshot at server time `serverNow`
+ */
+function getSnapshotRemainingMs(snapshot: TimerSnapshot, serverNow: number): number {
+  const { state } = snapshot;
+  if (state.state === 'arming') return state.targetDurationMs;
+  if (state.state !== 'running' && state.state !== 'paused') return state.remainingMs;
+
+  return getRemainingMs(
+    {
+      ...createInitialContext(),
+      state: state.state,
+      targetDurationMs: state.targetDurationMs,
+      startTimestamp: state.startTimestamp,
+      pausedAt: state.pausedAt,
+      accumulatedPausedMs: state.accumulatedPausedMs,
+    },
+    serverNow - snapshot.clockOffsetMs
+  );
+}
+
+/**
+ * Read-only live view of every active timer on every device (SSE)
+ */
+export default function MonitorBoard() {
+  const { isDarkMode, toggleTheme } = useTheme();
+  const [snapshots, setSnapshots] = useState<Record<string, TimerSnapshot>>({});
+  const [serverOffset, setServerOffset] = useState(0); // Server clock minus this browser's clock
+  const [connection, setConnection] = useState<Connection>('connecting');
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const source = new EventSource('/api/monitor');
+
+    source.addEventListener('hello', (event) => {
+      const data: { serverTime: number; timers: TimerSnapshot[] } = JSON.parse((event as MessageEvent).data);
+      setServerOffset(data.serverTime - Date.now());
+      setSnapshots(Object.fromEntries(data.timers.map((snapshot) => [snapshotKey(snapshot), snapshot])));
+      setConnection('live');
+    });
+    source.addEventListener('timer', (event) => {
+      const snapshot: TimerSnapshot = JSON.parse((event as MessageEvent).data);
+      setSnapshots((prev) => ({ ...prev, [snapshotKey(snapshot)]: snapshot }));
+    });
+    source.addEventListener('removed', (event) => {
+      const removal: TimerRemoval = JSON.parse((event as MessageEvent).data);
+      setSnapshots((prev) => {
+        const next = { ...prev };
+        delete next[snapshotKey(removal)];
+        return next;
+      });
+    });
+    // EventSource reconnects by itself; a fresh `hello` replaces the list
+    source.onerror = () => setConnection('reconnecting');
+
+    const tick = setInterval(() => setNow(Date.now()), TICK_INTERVAL);
+    return () => {
+      clearInterval(tick);
+      source.close();
+    };
+  }, []);
+
+  const serverNow = now + serverOffset;
+  const all = Object.values(snapshots);
+  const active = all
+    .filter(isActive)
+    .map((snapshot) => ({ snapshot, remainingMs: getSnapshotRemainingMs(snapshot, serverNow) }))
+    .sort((a, b) => a.remainingMs - b.remainingMs);
+
+  const toggleClassName = `px-3 md:px-4 py-1.5 md:py-2 border-2 font-bold text-[10px] md:text-xs tracking-wider uppercase transition-all whitespace-nowrap ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+      : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className={`min-h-screen ${isDarkMode ? 'bg-black text-white' : 'bg-white text-black'}`}>
+      {/* Header */}
+      <div className={`p-3 md:p-4 lg:p-6 border-b flex items-center justify-between gap-2 ${
+        isDarkMode ? 'border-gray-800 bg-gradient-to-r from-gray-900 to-black' : 'border-gray-200 bg-gradient-to-r from-gray-50 to-white'
+      }`}>
+        <Link href="/" className={toggleClassName}>← Timer</Link>
+        <h1 className={`text-sm md:text-lg lg:text-xl font-bold tracking-wider uppercase ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          Live Monitor
+        </h1>
+        <div className="flex items-center gap-2">
+          <span className={`px-2 py-1 border-2 font-bold text-[10px] md:text-xs tracking-wider uppercase text-white ${
+            connection === 'live' ? 'bg-green-600 border-green-400' : 'bg-gray-600 border-gray-400 animate-pulse'
+          }`}>
+            {connection === 'live' ? '● Live' : connection === 'connecting' ? '○ Connecting' : '○ Reconnecting'}
+          </span>
+          <button onClick={toggleTheme} className={toggleClassName}>
+            {isDarkMode ? '☀️' : '🌙'}
+          </button>
+        </div>
+      </div>
+
+      <div className={`w-full px-3 md:px-4 lg:px-8 py-4 md:py-6 ${isDarkMode ? 'bg-black' : 'bg-gray-50'}`}>
+        <p className={`mb-4 font-mono text-xs md:text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {active.length} active / {all.length} bays
+        </p>
+
+        {active.length === 0 ? (
+          <p className={`text-center py-8 font-mono text-sm ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>No active timers</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3 md:gap-4">
+            {active.map(({ snapshot, remainingMs }) => {
+              const { state } = snapshot;
+              const lastWarning = state.warningsFired[state.warningsFired.length - 1];
+              const checkpoint = lastWarning !== undefined ? state.checkpoints[lastWarning] : undefined;
+              const escalationIndex = state.escalationsFired.reduce((latest, count, index) => (count > 0 ? index : latest), -1);
+              const escalation = state.escalationSteps[escalationIndex];
+              const isOverdue = remainingMs < 0;
+              const isStale = serverNow - snapshot.updatedAt > STALE_AFTER;
+
+              return (
+                <div
+                  key={snapshotKey(snapshot)}
+                  className={`border-2 p-3 md:p-4 ${
+                    isOverdue
+                      ? 'border-red-500 shadow-lg shadow-red-500/50'
+                      : isDarkMode ? 'border-gray-700' : 'border-gray-300 shadow-lg'
+                  } ${isDarkMode ? 'bg-gray-900' : 'bg-white'} ${isStale ? 'opacity-50' : ''}`}
+                >
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    <div>
+                      <div className={`text-[10px] md:text-xs font-mono ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>{snapshot.deviceName}</div>
+                      <div className="text-sm md:text-base font-bold tracking-wider uppercase">{snapshot.timerName}</div>
+                      <div className={`text-xs font-mono ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>{state.config.activityType}</div>
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      <span className={`inline-block px-2 py-0.5 border-2 text-white font-bold text-[10px] tracking-wider uppercase ${
+                        state.state === 'paused' ? 'bg-orange-500 border-orange-400' : state.state === 'arming' ? 'bg-yellow-500 border-yellow-400' : 'bg-green-600 border-green-400'
+                      }`}>
+                        {state.state}
+                      </span>
+                      {isStale && (
+                        <span className="inline-block px-2 py-0.5 border-2 border-gray-400 bg-gray-600 text-white font-bold text-[10px] tracking-wider uppercase">
+                          No signal
+                        </span>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className={`text-4xl md:text-5xl font-mono font-black ${
+                    isOverdue ? 'text-red-500 animate-pulse' : isDarkMode ? 'text-white' : 'text-gray-900'
+                  }`}>
+                    {formatTime(remainingMs)}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {checkpoint && (
+                      <span className={`inline-block px-2 py-0.5 border-2 text-white font-bold text-[10px] tracking-wider uppercase ${PRESET_COLOR_CLASSES[checkpoint.color]}`}>
+                        ⚠ {checkpoint.label}
+                      </span>
+                    )}
+                    {isOverdue && (
+                      <span className="inline-block px-2 py-0.5 border-2 border-red-400 bg-red-600 text-white font-bold text-[10px] tracking-wider uppercase">
+                        Overdue
+                      </span>
+                    )}
+                    {escalation && (
+                      <span className="inline-block px-2 py-0.5 border-2 border-purple-400 bg-purple-600 text-white font-bold text-[10px] tracking-wider uppercase">
+                        ⏰ {escalation.label}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  getNotificationPermission,
+  getNotificationSettings,
+  isVibrationSupported,
+  notifyTimerEvent,
+  requestNotificationPermission,
+  saveNotificationSettings,
+  type NotificationPermissionState,
+  type NotificationSettings as Settings,
+} from '@/utils/notifications';
+
+interface NotificationSettingsProps {
+  isDarkMode: boolean;
+}
+
+const PERMISSION_LABELS: Record<NotificationPermissionState, string> = {
+  default: 'Not asked yet',
+  granted: 'Allowed',
+  denied: 'Blocked (allow notifications for this site in the browser settings)',
+  unsupported: 'Not supported in this browser',
+};
+
+/**
+ * Permission flow and switches for system notifications and vibration
+ */
+export default function NotificationSettings({ isDarkMode }: NotificationSettingsProps) {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [permission, setPermission] = useState<NotificationPermissionState>('default');
+  const [canVibrate, setCanVibrate] = useState(false);
+
+  useEffect(() => {
+    setSettings(getNotificationSettings());
+    setPermission(getNotificationPermission());
+    setCanVibrate(isVibrationSupported());
+  }, []);
+
+  if (!settings) return null;
+
+  const update = (changes: Partial<Settings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveNotificationSettings(next);
+  };
+
+  const enable = async () => {
+    const result = permission === 'granted' ? permission : await requestNotificationPermission();
+    setPermission(result);
+    update({ enabled: true });
+  };
+
+  const sendTest = () => {
+    notifyTimerEvent({ kind: 'warning', timerId: 'test', title: 'Bay 1: Test', body: 'Notifications are working' }, true);
+  };
+
+  const labelClassName = `block text-[10px] md:text-xs font-bold tracking-wider uppercase mb-1 ${
+    isDarkMode ? 'text-gray-400' : 'text-gray-600'
+  }`;
+  const toggleClassName = (active: boolean) =>
+    `px-3 md:px-4 py-1.5 md:py-2 border-2 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase disabled:opacity-50 disabled:cursor-not-allowed ${
+      active
+        ? 'bg-blue-600 border-blue-400 text-white shadow-lg shadow-blue-500/50'
+        : isDarkMode
+          ? 'bg-gray-800 border-gray-600 text-gray-400 hover:bg-gray-700'
+          : 'bg-gray-100 border-gray-300 text-gray-600 hover:bg-gray-200'
+    }`;
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 md:gap-4 items-end">
+        <div>
+          <span className={labelClassName}>Notifications</span>
+          {settings.enabled ? (
+            <button onClick={() => update({ enabled: false })} className={toggleClassName(true)}>
+              🔔 On
+            </button>
+          ) : (
+            <button onClick={enable} className={toggleClassName(false)}>
+              🔕 Off
+            </button>
+          )}
+        </div>
+
+        <div>
+          <span className={labelClassName}>Vibration</span>
+          <button
+            onClick={() => update({ vibrate: !settings.vibrate })}
+            disabled={!canVibrate}
+            className={toggleClassName(settings.vibrate && canVibrate)}
+          >
+            {!canVibrate ? 'Not supported' : settings.vibrate ? '📳 On' : '📳 Off'}
+          </button>
+        </div>
+
+        <div className="flex items-end justify-between gap-2">
+          <div>
+            <span className={labelClassName}>Permission</span>
+            <p className={`font-mono text-xs ${
+              permission === 'granted'
+                ? isDarkMode ? 'text-green-400' : 'text-green-600'
+                : permission === 'denied'
+                  ? isDarkMode ? 'text-red-400' : 'text-red-600'
+                  : isDarkMode ? 'text-white' : 'text-gray-900'
+            }`}>
+              {PERMISSION_LABELS[permission]}
+            </p>
+          </div>
+          <button
+            onClick={sendTest}
+            disabled={permission !== 'granted'}
+            className="px-3 md:px-4 py-1.5 md:py-2 bg-blue-600 border-2 border-blue-400 text-white hover:bg-blue-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-blue-500/50 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+          >
+            ▶ Test
+          </button>
+        </div>
+      </div>
+
+      <p className={`mt-3 text-[10px] md:text-xs font-mono ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+        Shown only while the app is in the background: warnings, time up, overdue escalations and stops.
+        Use &quot;Pause&quot; or &quot;Finish&quot; on the notification to control the bay. Vibration works on Android.
+      </p>
+    </div>
+  );
+}
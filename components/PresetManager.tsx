@@ -0,0 +1,195 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import CheckpointEditor from '@/components/CheckpointEditor';
+import { SOUND_PROFILES, type SoundProfile } from '@/utils/audio';
+import { checkpointsFromMinutes, describeCheckpoint } from '@/utils/checkpoints';
+import { PRESET_COLORS, PRESET_COLOR_CLASSES, type ActivityPreset, type PresetColor } from '@/utils/presets';
+
+interface PresetManagerProps {
+  presets: ActivityPreset[];
+  isDarkMode: boolean;
+  onChange: (presets: ActivityPreset[]) => void;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  if (isNaN(value)) return min;
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Add, edit, reorder and delete activity presets
+ */
+export default function PresetManager({ presets, isDarkMode, onChange }: PresetManagerProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const updatePreset = (id: string, changes: Partial<ActivityPreset>) => {
+    onChange(presets.map((preset) => (preset.id === id ? { ...preset, ...changes } : preset)));
+  };
+
+  const movePreset = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= presets.length) return;
+    const updated = [...presets];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    onChange(updated);
+  };
+
+  const deletePreset = (id: string) => {
+    if (presets.length <= 1) return;
+    onChange(presets.filter((preset) => preset.id !== id));
+  };
+
+  const addPreset = () => {
+    const preset: ActivityPreset = {
+      id: `preset-${Date.now()}`,
+      name: `Activity ${presets.length + 1}`,
+      targetMinutes: 5,
+      targetSeconds: 0,
+      checkpoints: checkpointsFromMinutes(1),
+      color: 'gray',
+      soundProfile: 'standard',
+    };
+    onChange([...presets, preset]);
+  };
+
+  const inputClassName = `w-full px-2 py-1 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-xs ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const thClassName = `text-left py-2 px-1 md:px-2 font-bold tracking-wider uppercase ${
+    isDarkMode ? 'text-gray-400' : 'text-gray-600'
+  }`;
+  const iconButtonClassName = `px-2 py-1 border-2 font-bold text-xs transition-all disabled:opacity-30 disabled:cursor-not-allowed ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+      : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div>
+      <div className="overflow-x-auto -mx-3 md:mx-0">
+        <table className="w-full text-[10px] md:text-xs font-mono">
+          <thead>
+            <tr className={`border-b-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-300'}`}>
+              <th className={thClassName}>Order</th>
+              <th className={thClassName}>Name</th>
+              <th className={thClassName}>Min</th>
+              <th className={thClassName}>Sec</th>
+              <th className={thClassName}>Warnings</th>
+              <th className={thClassName}>Color</th>
+              <th className={thClassName}>Sound</th>
+              <th className={thClassName}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {presets.map((preset, index) => (
+              <Fragment key={preset.id}>
+                <tr className={`border-b ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}>
+                  <td className="py-2 px-1 md:px-2 whitespace-nowrap">
+                    <button onClick={() => movePreset(index, -1)} disabled={index === 0} className={iconButtonClassName} title="Move up">↑</button>
+                    <button onClick={() => movePreset(index, 1)} disabled={index === presets.length - 1} className={`ml-1 ${iconButtonClassName}`} title="Move down">↓</button>
+                  </td>
+                  <td className="py-2 px-1 md:px-2 min-w-[120px]">
+                    <input
+                      type="text"
+                      value={preset.name}
+                      onChange={(e) => updatePreset(preset.id, { name: e.target.value })}
+                      onBlur={(e) => {
+                        if (!e.target.value.trim()) updatePreset(preset.id, { name: `Activity ${index + 1}` });
+                      }}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-2 px-1 md:px-2 w-16">
+                    <input
+                      type="number"
+                      min="0"
+                      max="999"
+                      value={preset.targetMinutes}
+                      onChange={(e) => updatePreset(preset.id, { targetMinutes: clamp(parseInt(e.target.value, 10), 0, 999) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-2 px-1 md:px-2 w-16">
+                    <input
+                      type="number"
+                      min="0"
+                      max="59"
+                      value={preset.targetSeconds}
+                      onChange={(e) => updatePreset(preset.id, { targetSeconds: clamp(parseInt(e.target.value, 10), 0, 59) })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-2 px-1 md:px-2">
+                    <button
+                      onClick={() => setExpandedId(expandedId === preset.id ? null : preset.id)}
+                      className={`${iconButtonClassName} whitespace-nowrap`}
+                      title={preset.checkpoints.map(describeCheckpoint).join(', ')}
+                    >
+                      {preset.checkpoints.length} {expandedId === preset.id ? '▴' : '▾'}
+                    </button>
+                  </td>
+                  <td className="py-2 px-1 md:px-2">
+                    <div className="flex items-center gap-1">
+                      <span className={`inline-block w-4 h-4 border-2 flex-shrink-0 ${PRESET_COLOR_CLASSES[preset.color]}`} />
+                      <select
+                        value={preset.color}
+                        onChange={(e) => updatePreset(preset.id, { color: e.target.value as PresetColor })}
+                        className={inputClassName}
+                      >
+                        {PRESET_COLORS.map((color) => (
+                          <option key={color} value={color}>{color}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </td>
+                  <td className="py-2 px-1 md:px-2">
+                    <select
+                      value={preset.soundProfile}
+                      onChange={(e) => updatePreset(preset.id, { soundProfile: e.target.value as SoundProfile })}
+                      className={inputClassName}
+                    >
+                      {SOUND_PROFILES.map((profile) => (
+                        <option key={profile} value={profile}>{profile}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2 px-1 md:px-2 text-right">
+                    <button
+                      onClick={() => deletePreset(preset.id)}
+                      disabled={presets.length <= 1}
+                      className="px-2 py-1 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all font-bold text-xs disabled:opacity-30 disabled:cursor-not-allowed"
+                      title="Delete"
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+                {expandedId === preset.id && (
+                  <tr className={`border-b ${isDarkMode ? 'border-gray-800 bg-gray-950' : 'border-gray-200 bg-gray-50'}`}>
+                    <td colSpan={8} className="py-2 px-1 md:px-2">
+                      <CheckpointEditor
+                        checkpoints={preset.checkpoints}
+                        isDarkMode={isDarkMode}
+                        onChange={(checkpoints) => updatePreset(preset.id, { checkpoints })}
+                      />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        onClick={addPreset}
+        className="mt-3 px-3 md:px-4 py-1.5 md:py-2 bg-green-600 border-2 border-green-400 text-white hover:bg-green-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-green-500/50"
+      >
+        + Add Activity
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { INDEXED_DETAIL_FIELDS, SESSION_DETAIL_FIELDS, type DetailSuggestions } from '@/utils/sessionDetails';
+import type { SessionDetails } from '@/utils/storage';
+
+interface SessionDetailFiltersProps {
+  value: SessionDetails;
+  suggestions: DetailSuggestions;
+  isDarkMode: boolean;
+  idPrefix: string; // Keeps datalist ids unique when several filter rows are shown
+  onChange: (value: SessionDetails) => void;
+}
+
+/**
+ * Operator / unit / work order / notes filter inputs ("contains", any case)
+ */
+export default function SessionDetailFilters({ value, suggestions, isDarkMode, idPrefix, onChange }: SessionDetailFiltersProps) {
+  const inputClassName = `w-full px-3 py-1.5 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-xs md:text-sm ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white placeholder-gray-600'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+  }`;
+  const labelClassName = `block text-[10px] md:text-xs font-bold mb-1 tracking-wide uppercase ${
+    isDarkMode ? 'text-gray-300' : 'text-gray-700'
+  }`;
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      {SESSION_DETAIL_FIELDS.map(({ field, label }) => (
+        <div key={field}>
+          <label className={labelClassName}>{label}</label>
+          <input
+            type="search"
+            value={value[field] || ''}
+            onChange={(e) => onChange({ ...value, [field]: e.target.value })}
+            placeholder="Any"
+            list={field === 'notes' ? undefined : `${idPrefix}-${field}`}
+            className={inputClassName}
+          />
+        </div>
+      ))}
+      {INDEXED_DETAIL_FIELDS.map((field) => (
+        <datalist key={field} id={`${idPrefix}-${field}`}>
+          {suggestions[field].map((option) => (
+            <option key={option} value={option} />
+          ))}
+        </datalist>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { INDEXED_DETAIL_FIELDS, SESSION_DETAIL_FIELDS, pickSessionDetails, type DetailSuggestions } from '@/utils/sessionDetails';
+import type { Session, SessionDetails } from '@/utils/storage';
+
+interface SessionEditorProps {
+  session: Session;
+  activityTypes: string[];
+  suggestions: DetailSuggestions;
+  isDarkMode: boolean;
+  onSave: (updated: Session) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Correct the activity type and details of a recorded session.
+ * Times, durations and the event log are measurements and stay as recorded.
+ */
+export default function SessionEditor({ session, activityTypes, suggestions, isDarkMode, onSave, onCancel }: SessionEditorProps) {
+  const [activityType, setActivityType] = useState(session.activityType);
+  const [details, setDetails] = useState<SessionDetails>({
+    operator: session.operator,
+    unit: session.unit,
+    workOrder: session.workOrder,
+    notes: session.notes,
+  });
+
+  const handleSave = () => {
+    const name = activityType.trim();
+    if (!name) return;
+    const updated: Session = { ...session, activityType: name };
+    SESSION_DETAIL_FIELDS.forEach(({ field }) => delete updated[field]);
+    onSave({ ...updated, ...pickSessionDetails(details) });
+  };
+
+  const inputClassName = `w-full px-3 py-1.5 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-xs md:text-sm ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const labelClassName = `block text-[10px] md:text-xs font-bold mb-1 tracking-wide uppercase ${
+    isDarkMode ? 'text-gray-300' : 'text-gray-700'
+  }`;
+
+  return (
+    <div className="py-3">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-3">
+        <div>
+          <label className={labelClassName}>Activity</label>
+          <input
+            type="text"
+            value={activityType}
+            onChange={(e) => setActivityType(e.target.value)}
+            list={`edit-activity-${session.id}`}
+            className={inputClassName}
+          />
+          <datalist id={`edit-activity-${session.id}`}>
+            {activityTypes.map((type) => (
+              <option key={type} value={type} />
+            ))}
+          </datalist>
+        </div>
+        {SESSION_DETAIL_FIELDS.filter(({ field }) => field !== 'notes').map(({ field, label, placeholder }) => (
+          <div key={field}>
+            <label className={labelClassName}>{label}</label>
+            <input
+              type="text"
+              value={details[field] || ''}
+              onChange={(e) => setDetails({ ...details, [field]: e.target.value })}
+              placeholder={placeholder}
+              list={`edit-${field}-${session.id}`}
+              maxLength={60}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+        <div className="col-span-2 sm:col-span-4">
+          <label className={labelClassName}>Notes</label>
+          <input
+            type="text"
+            value={details.notes || ''}
+            onChange={(e) => setDetails({ ...details, notes: e.target.value })}
+            maxLength={500}
+            className={inputClassName}
+          />
+        </div>
+        {INDEXED_DETAIL_FIELDS.map((field) => (
+          <datalist key={field} id={`edit-${field}-${session.id}`}>
+            {suggestions[field].map((value) => (
+              <option key={value} value={value} />
+            ))}
+          </datalist>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!activityType.trim()}
+          className="px-3 md:px-4 py-1.5 md:py-2 bg-blue-600 border-2 border-blue-400 text-white hover:bg-blue-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-blue-500/50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          ✓ Save
+        </button>
+        <button
+          onClick={onCancel}
+          className={`px-3 md:px-4 py-1.5 md:py-2 border-2 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase ${
+            isDarkMode
+              ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+              : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+          }`}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { formatClock, formatDuration } from '@/utils/format';
+import type { Session, SessionEvent, SessionEventType } from '@/utils/storage';
+
+const EVENT_LABELS: Record<SessionEventType, string> = {
+  arming: 'Arming start',
+  running: 'Running start',
+  pause: 'Paused',
+  resume: 'Resumed',
+  warning: 'Warning',
+  target_reached: 'Target reached',
+  escalation: 'Escalation',
+  finished: 'Finished',
+  aborted: 'Stopped',
+};
+
+const EVENT_COLORS: Record<SessionEventType, string> = {
+  arming: 'bg-yellow-500 border-yellow-400',
+  running: 'bg-green-500 border-green-400',
+  pause: 'bg-orange-500 border-orange-400',
+  resume: 'bg-green-500 border-green-400',
+  warning: 'bg-red-600 border-red-400',
+  target_reached: 'bg-red-600 border-red-400',
+  escalation: 'bg-purple-600 border-purple-400',
+  finished: 'bg-blue-500 border-blue-400',
+  aborted: 'bg-red-600 border-red-400',
+};
+
+interface SessionTimelineProps {
+  session: Session;
+  isDarkMode: boolean;
+}
+
+/**
+ * Duration of each pause, measured until the next resume/finish/abort
+ */
+function getPauseDuration(events: SessionEvent[], index: number): number | null {
+  const next = events.slice(index + 1).find((event) => event.type !== 'warning' && event.type !== 'target_reached');
+  return next ? next.at - events[index].at : null;
+}
+
+/**
+ * Expandable timeline built from a session's event log
+ */
+export default function SessionTimeline({ session, isDarkMode }: SessionTimelineProps) {
+  const events = session.events || [];
+  const wallTimeMs = session.endAt - session.startAt;
+
+  if (events.length === 0) {
+    return (
+      <p className={`py-3 text-center ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+        No event log for this session
+      </p>
+    );
+  }
+
+  return (
+    <div className="py-3 space-y-3">
+      {/* Summary */}
+      <div className={`flex flex-wrap gap-x-6 gap-y-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+        <span>Wall time: <b className={isDarkMode ? 'text-white' : 'text-gray-900'}>{formatDuration(wallTimeMs)}</b></span>
+        <span>Effective: <b className={isDarkMode ? 'text-white' : 'text-gray-900'}>{formatDuration(session.effectiveDurationMs)}</b></span>
+        <span>Paused: <b className={isDarkMode ? 'text-white' : 'text-gray-900'}>{formatDuration(session.pausedMs || 0)}</b></span>
+      </div>
+
+      {/* Events */}
+      <ol className={`border-l-2 ml-2 space-y-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-300'}`}>
+        {events.map((event, index) => {
+          const pauseDuration = event.type === 'pause' ? getPauseDuration(events, index) : null;
+          return (
+            <li key={`${event.type}-${event.at}-${index}`} className="relative pl-4">
+              <span className={`absolute -left-[7px] top-1 w-3 h-3 border-2 ${EVENT_COLORS[event.type]}`} />
+              <span className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>{formatClock(event.at)}</span>
+              <span className={`ml-2 text-[10px] ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                +{formatDuration(Math.max(0, event.at - events[0].at))}
+              </span>
+              <span className={`ml-3 font-bold uppercase tracking-wider ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                {EVENT_LABELS[event.type]}
+              </span>
+              {event.label && (
+                <span className={`ml-2 ${isDarkMode ? 'text-yellow-400' : 'text-yellow-600'}`}>
+                  {event.label}
+                </span>
+              )}
+              {pauseDuration !== null && (
+                <span className={`ml-2 ${isDarkMode ? 'text-orange-400' : 'text-orange-600'}`}>
+                  ({formatDuration(pauseDuration)})
+                </span>
+              )}
+              {event.reason && (
+                <span className={`ml-2 italic ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                  — {event.reason}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
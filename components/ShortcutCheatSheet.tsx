@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect } from 'react';
+import {
+  CHEAT_SHEET_KEY,
+  formatShortcutKey,
+  SHORTCUT_ACTION_LABELS,
+  SHORTCUT_ACTIONS,
+  type ShortcutSettings,
+} from '@/utils/shortcuts';
+
+interface ShortcutCheatSheetProps {
+  timerName: string;
+  settings: ShortcutSettings;
+  onClose: () => void;
+}
+
+/**
+ * Large on-screen list of the current key bindings, readable from the bay
+ */
+export default function ShortcutCheatSheet({ timerName, settings, onClose }: ShortcutCheatSheetProps) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      onClick={onClose}
+      className="fixed inset-0 z-[70] flex items-center justify-center p-4 md:p-8 bg-black/90 text-white font-mono"
+    >
+      <div className="w-full max-w-2xl border-2 border-gray-600 bg-gray-900 p-4 md:p-6">
+        <h2 className="text-base md:text-2xl font-black tracking-wider uppercase mb-1">⌨ Shortcuts</h2>
+        <p className="text-xs md:text-sm text-gray-400 mb-4 md:mb-6">
+          Keys control {timerName}{settings.enabled ? '' : ' (shortcuts are turned off in Settings)'}
+        </p>
+
+        <table className="w-full text-sm md:text-xl">
+          <tbody>
+            {SHORTCUT_ACTIONS.map((action) => (
+              <tr key={action} className="border-b border-gray-800">
+                <td className="py-2 md:py-3 pr-4 font-bold tracking-wider uppercase">{SHORTCUT_ACTION_LABELS[action]}</td>
+                <td className="py-2 md:py-3 text-right">
+                  {settings.bindings[action].length === 0 ? (
+                    <span className="text-gray-500">—</span>
+                  ) : (
+                    settings.bindings[action].map((key) => (
+                      <kbd key={key} className="inline-block ml-2 px-2 md:px-3 py-0.5 md:py-1 border-2 border-gray-500 bg-gray-800 font-bold">
+                        {formatShortcutKey(key)}
+                      </kbd>
+                    ))
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="mt-4 md:mt-6 text-[10px] md:text-xs text-gray-400">
+          Presses within {settings.cooldownMs} ms of a shortcut are ignored. Stop still asks for a reason.
+          Press {CHEAT_SHEET_KEY} or Esc, or tap anywhere, to close.
+        </p>
+      </div>
+    </div>
+  );
+}
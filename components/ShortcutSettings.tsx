@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  bindShortcutKey,
+  DEFAULT_SHORTCUT_SETTINGS,
+  formatShortcutKey,
+  MAX_COOLDOWN_MS,
+  RESERVED_KEYS,
+  SHORTCUT_ACTION_LABELS,
+  SHORTCUT_ACTIONS,
+  type ShortcutAction,
+  type ShortcutSettings as Settings,
+} from '@/utils/shortcuts';
+
+interface ShortcutSettingsProps {
+  settings: Settings;
+  isDarkMode: boolean;
+  onChange: (settings: Settings) => void;
+}
+
+/**
+ * Key bindings per action. "+ Key" records the next key press, so a foot
+ * pedal or clicker is bound by simply pressing it.
+ */
+export default function ShortcutSettings({ settings, isDarkMode, onChange }: ShortcutSettingsProps) {
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!capturing) return;
+
+    // Capture phase on window runs before the bay's shortcut listener
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setCapturing(null);
+        return;
+      }
+      if (RESERVED_KEYS.includes(e.key) || ['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) {
+        setError(`${formatShortcutKey(e.key)} cannot be bound`);
+        return;
+      }
+      setError(null);
+      setCapturing(null);
+      onChange({ ...settings, bindings: bindShortcutKey(settings.bindings, capturing, e.key) });
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing, settings, onChange]);
+
+  const unbind = (action: ShortcutAction, key: string) => {
+    onChange({
+      ...settings,
+      bindings: { ...settings.bindings, [action]: settings.bindings[action].filter((bound) => bound !== key) },
+    });
+  };
+
+  const labelClassName = `block text-[10px] md:text-xs font-bold tracking-wider uppercase mb-1 ${
+    isDarkMode ? 'text-gray-400' : 'text-gray-600'
+  }`;
+  const buttonBase = 'px-3 md:px-4 py-1.5 md:py-2 border-2 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase';
+  const neutralButton = isDarkMode
+    ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+    : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200';
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 md:gap-4 items-end mb-4">
+        <div>
+          <span className={labelClassName}>Shortcuts</span>
+          <button
+            onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+            className={`${buttonBase} ${settings.enabled ? 'bg-blue-600 border-blue-400 text-white shadow-lg shadow-blue-500/50' : neutralButton}`}
+          >
+            {settings.enabled ? '⌨ On' : '⌨ Off'}
+          </button>
+        </div>
+
+        <div>
+          <label htmlFor="shortcut-cooldown" className={labelClassName}>Double-press guard (ms)</label>
+          <input
+            id="shortcut-cooldown"
+            type="number"
+            min="0"
+            max={MAX_COOLDOWN_MS}
+            step="100"
+            value={settings.cooldownMs}
+            onChange={(e) => {
+              const value = Math.min(MAX_COOLDOWN_MS, Math.max(0, parseInt(e.target.value) || 0));
+              onChange({ ...settings, cooldownMs: value });
+            }}
+            className={`w-full px-3 py-1.5 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-xs md:text-sm ${
+              isDarkMode ? 'bg-gray-800 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+            }`}
+          />
+        </div>
+
+        <div>
+          <button onClick={() => onChange(DEFAULT_SHORTCUT_SETTINGS)} className={`${buttonBase} ${neutralButton}`}>
+            ⟲ Restore Defaults
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {SHORTCUT_ACTIONS.map((action) => (
+          <div
+            key={action}
+            className={`flex flex-wrap items-center gap-2 border-2 p-2 ${isDarkMode ? 'border-gray-700 bg-gray-950' : 'border-gray-300 bg-gray-50'}`}
+          >
+            <span className={`w-48 font-mono text-xs md:text-sm font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+              {SHORTCUT_ACTION_LABELS[action]}
+            </span>
+            {settings.bindings[action].map((key) => (
+              <button
+                key={key}
+                onClick={() => unbind(action, key)}
+                className={`px-2 py-1 border-2 font-mono text-xs font-bold ${neutralButton}`}
+                title="Remove this key"
+              >
+                {formatShortcutKey(key)} ✕
+              </button>
+            ))}
+            <button
+              onClick={() => {
+                setError(null);
+                setCapturing(capturing === action ? null : action);
+              }}
+              className={`px-2 py-1 border-2 font-mono text-xs font-bold ${
+                capturing === action ? 'bg-yellow-500 border-yellow-400 text-black animate-pulse' : neutralButton
+              }`}
+            >
+              {capturing === action ? 'Press a key… (Esc cancels)' : '+ Key'}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="mt-2 text-xs font-mono font-bold text-red-500">{error}</p>}
+
+      <p className={`mt-3 text-[10px] md:text-xs font-mono ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+        Shortcuts control the open bay (not the All Bays grid) and are ignored while typing in a field.
+        Foot pedals and presenter clickers work if they send key presses: click &quot;+ Key&quot; and press the pedal.
+        Press ? on the timer screen for the cheat sheet.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { isOutputSelectionSupported, listOutputDevices, SYNTH_PATTERNS, type SynthPattern } from '@/utils/audio';
+import {
+  BUILT_IN_PACKS,
+  MAX_SOUND_FILE_BYTES,
+  SOUND_EVENTS,
+  deleteSoundFile,
+  getAudioSettings,
+  getPackSounds,
+  getSoundFiles,
+  getSoundPackId,
+  playSoundSetting,
+  saveAudioSettings,
+  saveCustomSounds,
+  saveSoundFile,
+  saveSoundPackId,
+  type AudioSettings,
+  type SoundEvent,
+  type SoundFile,
+  type SoundMap,
+  type SoundPackId,
+  type SoundSource,
+} from '@/utils/sounds';
+
+interface SoundSettingsProps {
+  isDarkMode: boolean;
+}
+
+function sourceToValue(source: SoundSource): string {
+  if (source.kind === 'synth') return `synth:${source.pattern}`;
+  if (source.kind === 'file') return `file:${source.fileId}`;
+  return source.kind;
+}
+
+function valueToSource(value: string): SoundSource {
+  const [kind, id] = value.split(':');
+  if (kind === 'synth') return { kind: 'synth', pattern: id as SynthPattern };
+  if (kind === 'file') return { kind: 'file', fileId: id };
+  return kind === 'checkpoint' ? { kind: 'checkpoint' } : { kind: 'none' };
+}
+
+/**
+ * Sound pack selection, per-event sounds and volumes, and uploaded audio files
+ */
+export default function SoundSettings({ isDarkMode }: SoundSettingsProps) {
+  const [packId, setPackId] = useState<SoundPackId>('racing');
+  const [sounds, setSounds] = useState<SoundMap>(() => getPackSounds('racing'));
+  const [files, setFiles] = useState<SoundFile[]>([]);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(() => getAudioSettings());
+  const [outputs, setOutputs] = useState<{ id: string; label: string }[]>([]);
+  const [canSelectOutput, setCanSelectOutput] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const id = getSoundPackId();
+    setPackId(id);
+    setSounds(getPackSounds(id));
+    getSoundFiles().then(setFiles);
+    setAudioSettings(getAudioSettings());
+    if (isOutputSelectionSupported()) {
+      setCanSelectOutput(true);
+      listOutputDevices().then(setOutputs);
+    }
+  }, []);
+
+  const isCustom = packId === 'custom';
+
+  const updateAudioSettings = (changes: Partial<AudioSettings>) => {
+    const next = { ...getAudioSettings(), ...changes };
+    setAudioSettings(next);
+    saveAudioSettings(next);
+  };
+
+  const selectPack = (id: SoundPackId) => {
+    saveSoundPackId(id);
+    setPackId(id);
+    setSounds(getPackSounds(id));
+  };
+
+  // Start the custom pack from whatever is selected now
+  const customize = () => {
+    saveCustomSounds(sounds);
+    selectPack('custom');
+  };
+
+  const updateSound = (event: SoundEvent, changes: Partial<SoundMap[SoundEvent]>) => {
+    const next = { ...sounds, [event]: { ...sounds[event], ...changes } };
+    setSounds(next);
+    saveCustomSounds(next);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploadError(null);
+    try {
+      const saved = await saveSoundFile(file);
+      setFiles((prev) => [...prev, saved]);
+    } catch (error) {
+      console.error('Failed to upload sound:', error);
+      setUploadError(error instanceof Error && error.message.startsWith('File is larger') ? error.message : 'Not a playable audio file');
+    }
+  };
+
+  const handleDeleteFile = async (id: string) => {
+    await deleteSoundFile(id);
+    setFiles((prev) => prev.filter((file) => file.id !== id));
+  };
+
+  const inputClassName = `w-full px-2 py-1 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-xs disabled:opacity-60 ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const labelClassName = `block text-[10px] md:text-xs font-bold tracking-wider uppercase mb-1 ${
+    isDarkMode ? 'text-gray-400' : 'text-gray-600'
+  }`;
+  const thClassName = `text-left py-2 px-1 md:px-2 font-bold tracking-wider uppercase ${
+    isDarkMode ? 'text-gray-400' : 'text-gray-600'
+  }`;
+  const previewClassName = 'px-2 py-1 bg-blue-600 border-2 border-blue-400 text-white hover:bg-blue-500 transition-all font-bold text-xs';
+
+  return (
+    <div>
+      <div className={`grid grid-cols-1 sm:grid-cols-2 gap-3 md:gap-4 mb-4 pb-3 border-b-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-300'}`}>
+        <div>
+          <label className={labelClassName}>Master Volume</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={Math.round(audioSettings.masterVolume * 100)}
+              onChange={(e) => updateAudioSettings({ masterVolume: parseInt(e.target.value, 10) / 100 })}
+              className="w-full accent-blue-500"
+            />
+            <span className={`w-8 text-right font-mono text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+              {Math.round(audioSettings.masterVolume * 100)}
+            </span>
+            <button onClick={() => playSoundSetting(sounds.finish)} className={previewClassName} title="Test">
+              ▶
+            </button>
+          </div>
+        </div>
+        <div>
+          <label className={labelClassName}>Output Device</label>
+          {canSelectOutput ? (
+            <select
+              value={audioSettings.outputDeviceId}
+              onChange={(e) => updateAudioSettings({ outputDeviceId: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">System default</option>
+              {outputs.map((output) => (
+                <option key={output.id} value={output.id}>{output.label}</option>
+              ))}
+            </select>
+          ) : (
+            <p className={`font-mono text-xs ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+              Not supported in this browser (system default)
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-2 mb-3">
+        <div className="sm:w-48">
+          <label className={labelClassName}>Sound Pack</label>
+          <select value={packId} onChange={(e) => selectPack(e.target.value as SoundPackId)} className={inputClassName}>
+            {BUILT_IN_PACKS.map((pack) => (
+              <option key={pack.id} value={pack.id}>{pack.name}</option>
+            ))}
+            <option value="custom">Custom</option>
+          </select>
+        </div>
+        {!isCustom && (
+          <button
+            onClick={customize}
+            className="px-3 md:px-4 py-1.5 md:py-2 bg-green-600 border-2 border-green-400 text-white hover:bg-green-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-green-500/50"
+          >
+            ✎ Customize
+          </button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto -mx-3 md:mx-0">
+        <table className="w-full text-[10px] md:text-xs font-mono">
+          <thead>
+            <tr className={`border-b-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-300'}`}>
+              <th className={thClassName}>Event</th>
+              <th className={thClassName}>Sound</th>
+              <th className={thClassName}>Volume</th>
+              <th className={thClassName}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {SOUND_EVENTS.map(({ event, label }) => {
+              const setting = sounds[event];
+              return (
+                <tr key={event} className={`border-b ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}>
+                  <td className={`py-2 px-1 md:px-2 whitespace-nowrap ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{label}</td>
+                  <td className="py-2 px-1 md:px-2 min-w-[140px]">
+                    <select
+                      value={sourceToValue(setting.source)}
+                      onChange={(e) => updateSound(event, { source: valueToSource(e.target.value) })}
+                      disabled={!isCustom}
+                      className={inputClassName}
+                    >
+                      {event === 'warning' && <option value="checkpoint">per checkpoint</option>}
+                      {SYNTH_PATTERNS.map((pattern) => (
+                        <option key={pattern} value={`synth:${pattern}`}>{pattern}</option>
+                      ))}
+                      {files.map((file) => (
+                        <option key={file.id} value={`file:${file.id}`}>♪ {file.name}</option>
+                      ))}
+                      <option value="none">none</option>
+                    </select>
+                  </td>
+                  <td className="py-2 px-1 md:px-2 min-w-[100px]">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="range"
+                        min="0"
+                        max="150"
+                        value={Math.round(setting.volume * 100)}
+                        onChange={(e) => updateSound(event, { volume: parseInt(e.target.value, 10) / 100 })}
+                        disabled={!isCustom}
+                        className="w-full accent-blue-500 disabled:opacity-60"
+                      />
+                      <span className={`w-8 text-right ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                        {Math.round(setting.volume * 100)}
+                      </span>
+                    </div>
+                  </td>
+                  <td className="py-2 px-1 md:px-2 text-right">
+                    <button onClick={() => playSoundSetting(setting)} className={previewClassName} title="Preview">
+                      ▶
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className={`mt-4 pt-3 border-t-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-300'}`}>
+        <span className={labelClassName}>Uploaded Audio</span>
+        {files.length === 0 ? (
+          <p className={`text-[10px] md:text-xs font-mono ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>No files yet</p>
+        ) : (
+          <ul className="space-y-1">
+            {files.map((file) => (
+              <li key={file.id} className={`flex items-center justify-between gap-2 font-mono text-xs ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                <span className="truncate">♪ {file.name}</span>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => playSoundSetting({ source: { kind: 'file', fileId: file.id }, volume: 1 })}
+                    className={previewClassName}
+                    title="Preview"
+                  >
+                    ▶
+                  </button>
+                  <button
+                    onClick={() => handleDeleteFile(file.id)}
+                    className="px-2 py-1 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all font-bold text-xs"
+                    title="Delete"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {uploadError && (
+          <p className={`mt-2 text-[10px] md:text-xs font-mono ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{uploadError}</p>
+        )}
+        <input ref={fileInputRef} type="file" accept="audio/*" onChange={handleUpload} className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="mt-3 px-3 md:px-4 py-1.5 md:py-2 bg-green-600 border-2 border-green-400 text-white hover:bg-green-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-green-500/50"
+        >
+          + Upload Audio
+        </button>
+        <p className={`mt-2 text-[10px] md:text-xs font-mono ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+          MP3, WAV or OGG up to {MAX_SOUND_FILE_BYTES / 1024 / 1024} MB, stored on this device only. Event volumes (up to 150) stack on top of the master volume and each activity&apos;s sound profile.
+        </p>
+      </div>
+    </div>
+  );
+}
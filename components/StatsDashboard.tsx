@@ -0,0 +1,212 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useTheme } from '@/hooks/useTheme';
+import { formatDuration } from '@/utils/format';
+import { getActivityStats, getTrend, summarize, type TrendGranularity } from '@/utils/stats';
+import { querySessions, type Session } from '@/utils/storage';
+
+const RANGE_OPTIONS = [
+  { label: '7 Days', days: 7 },
+  { label: '30 Days', days: 30 },
+  { label: '90 Days', days: 90 },
+  { label: 'All', days: 0 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+function formatBucketLabel(start: number, granularity: TrendGranularity): string {
+  const label = new Date(start).toLocaleDateString('id-ID', { day: '2-digit', month: '2-digit' });
+  return granularity === 'week' ? `W ${label}` : label;
+}
+
+/**
+ * Analytics over all saved sessions: per-activity summary and trends
+ */
+export default function StatsDashboard() {
+  const { isDarkMode, toggleTheme } = useTheme();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rangeDays, setRangeDays] = useState(30);
+  const [granularity, setGranularity] = useState<TrendGranularity>('day');
+
+  useEffect(() => {
+    setLoading(true);
+    querySessions(rangeDays > 0 ? { from: Date.now() - rangeDays * DAY_MS } : {}).then((result) => {
+      setSessions(result);
+      setLoading(false);
+    });
+  }, [rangeDays]);
+
+  const overall = summarize('All', sessions);
+  const activityStats = getActivityStats(sessions);
+  const trend = getTrend(sessions, granularity);
+  const maxBucketCount = Math.max(1, ...trend.map((bucket) => bucket.count));
+
+  const panelClassName = `border-2 p-3 md:p-4 lg:p-6 mb-4 md:mb-6 ${
+    isDarkMode ? 'bg-gray-900 border-gray-700' : 'bg-white border-gray-300 shadow-lg'
+  }`;
+  const headingClassName = `text-base md:text-lg font-bold mb-3 md:mb-4 tracking-wider uppercase border-b-2 pb-2 ${
+    isDarkMode ? 'text-white border-gray-700' : 'text-gray-900 border-gray-300'
+  }`;
+  const thClassName = `py-2 md:py-3 px-2 md:px-3 font-bold tracking-wider uppercase ${
+    isDarkMode ? 'text-gray-400' : 'text-gray-600'
+  }`;
+  const tdClassName = `py-2 md:py-3 px-2 md:px-3 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`;
+  const toggleClassName = (active: boolean) =>
+    `px-3 md:px-4 py-1.5 md:py-2 border-2 font-bold text-[10px] md:text-xs tracking-wider uppercase transition-all whitespace-nowrap ${
+      active
+        ? 'bg-blue-600 border-blue-400 text-white shadow-lg shadow-blue-500/50'
+        : isDarkMode
+          ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+          : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+    }`;
+
+  const summaryCards = [
+    { label: 'Sessions', value: overall.count.toString() },
+    { label: 'Completed', value: formatPercent(overall.finishedRatio) },
+    { label: 'On Time', value: formatPercent(overall.onTimeRate) },
+    { label: 'Median', value: formatDuration(overall.medianDurationMs) },
+    { label: 'Total Overdue', value: formatDuration(overall.totalOverdueMs) },
+  ];
+
+  return (
+    <div className={`min-h-screen ${isDarkMode ? 'bg-black text-white' : 'bg-white text-black'}`}>
+      {/* Header */}
+      <div className={`p-3 md:p-4 lg:p-6 border-b flex items-center justify-between gap-2 ${
+        isDarkMode ? 'border-gray-800 bg-gradient-to-r from-gray-900 to-black' : 'border-gray-200 bg-gradient-to-r from-gray-50 to-white'
+      }`}>
+        <Link href="/" className={toggleClassName(false)}>← Timer</Link>
+        <h1 className={`text-sm md:text-lg lg:text-xl font-bold tracking-wider uppercase ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          Statistics
+        </h1>
+        <button onClick={toggleTheme} className={toggleClassName(false)}>
+          {isDarkMode ? '☀️' : '🌙'}
+        </button>
+      </div>
+
+      <div className={`w-full px-3 md:px-4 lg:px-8 py-4 md:py-6 ${isDarkMode ? 'bg-black' : 'bg-gray-50'}`}>
+        <div className="max-w-6xl mx-auto">
+          {/* Range */}
+          <div className="flex flex-wrap gap-2 mb-4 md:mb-6">
+            {RANGE_OPTIONS.map((option) => (
+              <button key={option.label} onClick={() => setRangeDays(option.days)} className={toggleClassName(rangeDays === option.days)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <p className={`text-center py-8 font-mono text-sm ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>Loading…</p>
+          ) : sessions.length === 0 ? (
+            <p className={`text-center py-8 font-mono text-sm ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>No sessions in this range</p>
+          ) : (
+            <>
+              {/* Summary Cards */}
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4 md:mb-6">
+                {summaryCards.map((card) => (
+                  <div key={card.label} className={`border-2 p-3 text-center ${isDarkMode ? 'bg-gray-900 border-gray-700' : 'bg-white border-gray-300 shadow'}`}>
+                    <div className={`text-[10px] md:text-xs font-bold tracking-wider uppercase ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>{card.label}</div>
+                    <div className="text-lg md:text-2xl font-mono font-black mt-1">{card.value}</div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Per Activity */}
+              <div className={panelClassName}>
+                <h2 className={headingClassName}>Per Activity Type</h2>
+                <div className="overflow-x-auto -mx-3 md:mx-0">
+                  <table className="w-full text-[10px] md:text-xs lg:text-sm font-mono">
+                    <thead>
+                      <tr className={`border-b-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-300'}`}>
+                        <th className={`text-left ${thClassName}`}>Activity</th>
+                        <th className={`text-right ${thClassName}`}>Count</th>
+                        <th className={`text-right ${thClassName}`}>On Time / Late / Stop / Abt</th>
+                        <th className={`text-left ${thClassName}`}>On Time</th>
+                        <th className={`text-right ${thClassName}`}>Mean</th>
+                        <th className={`text-right ${thClassName}`}>Median</th>
+                        <th className={`text-right ${thClassName}`}>P90</th>
+                        <th className={`text-right ${thClassName}`}>Overdue</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {activityStats.map((stats) => (
+                        <tr key={stats.activityType} className={`border-b ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}>
+                          <td className={`${tdClassName} font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{stats.activityType}</td>
+                          <td className={`${tdClassName} text-right`}>{stats.count}</td>
+                          <td className={`${tdClassName} text-right whitespace-nowrap`}>
+                            {stats.outcomes.on_time} / {stats.outcomes.late} / {stats.outcomes.stopped_early} / {stats.outcomes.aborted_arming}
+                          </td>
+                          <td className={tdClassName}>
+                            <div className="flex items-center gap-2">
+                              <div className={`h-2 w-16 md:w-24 ${isDarkMode ? 'bg-gray-800' : 'bg-gray-200'}`}>
+                                <div className="h-2 bg-green-500" style={{ width: formatPercent(stats.onTimeRate) }} />
+                              </div>
+                              {formatPercent(stats.onTimeRate)}
+                            </div>
+                          </td>
+                          <td className={`${tdClassName} text-right`}>{formatDuration(stats.meanDurationMs)}</td>
+                          <td className={`${tdClassName} text-right`}>{formatDuration(stats.medianDurationMs)}</td>
+                          <td className={`${tdClassName} text-right`}>{formatDuration(stats.p90DurationMs)}</td>
+                          <td className={`${tdClassName} text-right ${stats.totalOverdueMs > 0 ? (isDarkMode ? 'text-red-400' : 'text-red-600') : ''}`}>
+                            {formatDuration(stats.totalOverdueMs)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Trend */}
+              <div className={panelClassName}>
+                <div className={`flex flex-wrap items-center justify-between gap-2 ${headingClassName}`}>
+                  <span>Trend</span>
+                  <div className="flex gap-2">
+                    <button onClick={() => setGranularity('day')} className={toggleClassName(granularity === 'day')}>Daily</button>
+                    <button onClick={() => setGranularity('week')} className={toggleClassName(granularity === 'week')}>Weekly</button>
+                  </div>
+                </div>
+
+                <div className="flex items-end gap-1 h-48 overflow-x-auto">
+                  {trend.map((bucket) => (
+                    <div
+                      key={bucket.key}
+                      className="flex flex-col items-center justify-end h-full min-w-[28px] flex-1"
+                      title={`${bucket.key}: ${bucket.onTime} on time, ${bucket.late} late, ${bucket.stopped} stopped, ${bucket.aborted} aborted`}
+                    >
+                      <span className={`text-[10px] font-mono mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                        {bucket.count > 0 ? bucket.count : ''}
+                      </span>
+                      <div className="w-full flex flex-col-reverse" style={{ height: `${(bucket.count / maxBucketCount) * 80}%` }}>
+                        <div className="bg-green-500" style={{ flexGrow: bucket.onTime }} />
+                        <div className="bg-orange-500" style={{ flexGrow: bucket.late }} />
+                        <div className="bg-red-600" style={{ flexGrow: bucket.stopped }} />
+                        <div className="bg-gray-500" style={{ flexGrow: bucket.aborted }} />
+                      </div>
+                      <span className="text-[9px] font-mono mt-1 whitespace-nowrap text-gray-500">
+                        {formatBucketLabel(bucket.start, granularity)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className={`flex flex-wrap gap-4 mt-3 text-[10px] md:text-xs font-mono ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                  <span><span className="inline-block w-3 h-3 bg-green-500 mr-1 align-middle" />On time</span>
+                  <span><span className="inline-block w-3 h-3 bg-orange-500 mr-1 align-middle" />Late</span>
+                  <span><span className="inline-block w-3 h-3 bg-red-600 mr-1 align-middle" />Stopped early</span>
+                  <span><span className="inline-block w-3 h-3 bg-gray-500 mr-1 align-middle" />Aborted (arming)</span>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useState } from 'react';
+import { STOP_REASONS, type StopReasonCode } from '@/utils/outcome';
+
+interface StopReasonPickerProps {
+  isDarkMode: boolean;
+  compact?: boolean;
+  onConfirm: (reason: StopReasonCode) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Required reason code before a running/paused job is stopped early
+ */
+export default function StopReasonPicker({ isDarkMode, compact = false, onConfirm, onCancel }: StopReasonPickerProps) {
+  const [reason, setReason] = useState<StopReasonCode | ''>('');
+
+  const sizeClassName = compact
+    ? 'px-3 py-1.5 text-[10px] md:text-xs'
+    : 'px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 text-xs md:text-sm';
+
+  return (
+    <div className="flex flex-wrap justify-center items-center gap-2">
+      <select
+        value={reason}
+        onChange={(e) => setReason(e.target.value as StopReasonCode | '')}
+        autoFocus
+        className={`px-3 py-1.5 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-xs md:text-sm ${
+          isDarkMode
+            ? 'bg-gray-800 border-gray-600 text-white'
+            : 'bg-white border-gray-300 text-gray-900'
+        }`}
+      >
+        <option value="" disabled>Stop reason…</option>
+        {STOP_REASONS.map((item) => (
+          <option key={item.code} value={item.code}>{item.label}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => reason && onConfirm(reason)}
+        disabled={!reason}
+        className={`${sizeClassName} bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all font-bold tracking-wider uppercase disabled:opacity-50 disabled:cursor-not-allowed`}
+      >
+        ⏹ Confirm Stop
+      </button>
+      <button
+        onClick={onCancel}
+        className={`${sizeClassName} border-2 transition-all font-bold tracking-wider uppercase ${
+          isDarkMode
+            ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+            : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+        }`}
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
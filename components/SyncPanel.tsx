@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatDateTime } from '@/utils/format';
+import {
+  flushOutbox,
+  getDevice,
+  getSyncStatus,
+  saveDeviceName,
+  subscribeSyncStatus,
+  type SyncStatus,
+} from '@/utils/syncClient';
+
+interface SyncPanelProps {
+  isDarkMode: boolean;
+}
+
+/**
+ * Device name and outbox status for the sync server
+ */
+export default function SyncPanel({ isDarkMode }: SyncPanelProps) {
+  const [deviceName, setDeviceName] = useState('');
+  const [status, setStatus] = useState<SyncStatus>({ pending: 0, lastSyncAt: null, error: null });
+
+  useEffect(() => {
+    setDeviceName(getDevice().name);
+    setStatus(getSyncStatus());
+    return subscribeSyncStatus(setStatus);
+  }, []);
+
+  const labelClassName = `block text-[10px] md:text-xs font-bold tracking-wider uppercase mb-1 ${
+    isDarkMode ? 'text-gray-400' : 'text-gray-600'
+  }`;
+  const valueClassName = `font-mono text-xs md:text-sm ${isDarkMode ? 'text-white' : 'text-gray-900'}`;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 md:gap-4 items-end">
+      <div>
+        <label className={labelClassName}>Device Name</label>
+        <input
+          type="text"
+          value={deviceName}
+          onChange={(e) => setDeviceName(e.target.value)}
+          onBlur={() => {
+            const name = deviceName.trim() || getDevice().name;
+            setDeviceName(name);
+            saveDeviceName(name);
+          }}
+          className={`w-full px-3 py-1.5 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-xs md:text-sm ${
+            isDarkMode
+              ? 'bg-gray-800 border-gray-600 text-white'
+              : 'bg-white border-gray-300 text-gray-900'
+          }`}
+        />
+      </div>
+
+      <div>
+        <span className={labelClassName}>Outbox</span>
+        <p className={valueClassName}>
+          {status.pending === 0 ? 'All sessions sent' : `${status.pending} waiting`}
+          {status.error && (
+            <span className={`block text-[10px] md:text-xs ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
+              {status.error} (retrying)
+            </span>
+          )}
+        </p>
+      </div>
+
+      <div className="flex items-end justify-between gap-2">
+        <div>
+          <span className={labelClassName}>Last Sync</span>
+          <p className={valueClassName}>{status.lastSyncAt ? formatDateTime(status.lastSyncAt) : '-'}</p>
+        </div>
+        <button
+          onClick={() => flushOutbox()}
+          disabled={status.pending === 0}
+          className="px-3 md:px-4 py-1.5 md:py-2 bg-blue-600 border-2 border-blue-400 text-white hover:bg-blue-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-blue-500/50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          ⇅ Sync Now
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,165 +1,242 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useCountdownTimekeeper } from '@/hooks/useCountdownTimekeeper';
-
-const ACTIVITY_TYPES = [
-  'Loading',
-  'Repair',
-  'Inspection',
-  'Ready',
-  'Non-downtime',
-  'Downtime',
-];
-
-function formatTime(ms: number): string {
-  const isNegative = ms < 0;
-  const absMs = Math.abs(ms);
-  const totalSeconds = Math.floor(absMs / 1000);
-  const milliseconds = Math.floor(absMs % 1000);
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-
-  const sign = isNegative ? '-' : '';
-  if (hours > 0) {
-    return `${sign}${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(3, '0')}`;
-  }
-  return `${sign}${minutes}:${seconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(3, '0')}`;
-}
-
-function formatDuration(ms: number): string {
-  const totalSeconds = Math.floor(ms / 1000);
-  const minutes = Math.floor(totalSeconds / 60);
-  const seconds = totalSeconds % 60;
-  return `${minutes}m ${seconds}s`;
-}
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import AuditLogPanel from '@/components/AuditLogPanel';
+import ConfirmBar from '@/components/ConfirmBar';
+import EscalationEditor from '@/components/EscalationEditor';
+import ExportPanel from '@/components/ExportPanel';
+import ImportPanel from '@/components/ImportPanel';
+import NotificationSettings from '@/components/NotificationSettings';
+import PresetManager from '@/components/PresetManager';
+import SessionDetailFilters from '@/components/SessionDetailFilters';
+import SessionTimeline from '@/components/SessionTimeline';
+import ShortcutSettings from '@/components/ShortcutSettings';
+import SyncPanel from '@/components/SyncPanel';
+import SoundSettings from '@/components/SoundSettings';
+import TimerPanel from '@/components/TimerPanel';
+import TrashPanel from '@/components/TrashPanel';
+import UpdatePrompt from '@/components/UpdatePrompt';
+import VoiceSettings from '@/components/VoiceSettings';
+import { useTheme } from '@/hooks/useTheme';
+import { initAudioContext, resumeAudio, subscribeAudioStatus, type AudioStatus } from '@/utils/audio';
+import { getEscalationSteps, saveEscalationSteps, type EscalationStep } from '@/utils/escalation';
+import { formatDuration, formatOverdue, formatDateTime } from '@/utils/format';
+import { getSessionOutcome, getStopReasonLabel, OUTCOME_BADGE_CLASSES, OUTCOME_LABELS } from '@/utils/outcome';
+import { applyAudioSettings, getAudioSettings, saveAudioSettings } from '@/utils/sounds';
+import { getPresets, savePresets, findPreset, PRESET_COLOR_CLASSES, type ActivityPreset } from '@/utils/presets';
+import type { DetailSuggestions } from '@/utils/sessionDetails';
+import {
+  DEFAULT_SHORTCUT_SETTINGS,
+  getShortcutSettings,
+  saveShortcutSettings,
+  type ShortcutSettings as ShortcutConfig,
+} from '@/utils/shortcuts';
+import {
+  getTimers,
+  saveTimers,
+  clearState,
+  querySessions,
+  clearSessions,
+  countSessions,
+  getDetailSuggestions,
+  type Session,
+  type SessionDetails,
+  type TimerSlot,
+} from '@/utils/storage';
+import { registerServiceWorker } from '@/utils/serviceWorker';
+import { fetchRemoteSessions, removeTimerState, startOutboxSync } from '@/utils/syncClient';
 
-function formatOverdue(ms: number): string {
-  if (!ms || ms <= 0) return '';
-  return `+${formatDuration(ms)}`;
-}
-
-function formatDateTime(timestamp: number): string {
-  const date = new Date(timestamp);
-  return date.toLocaleString('id-ID', {
-    day: '2-digit',
-    month: '2-digit',
-    year: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit',
-  });
-}
+type ViewMode = 'focus' | 'grid';
+type HistoryTool = 'filter' | 'export' | 'import' | 'trash' | 'audit';
+type HistorySource = 'device' | 'all';
+type SettingsPanel = 'presets' | 'escalation' | 'sounds' | 'voice' | 'notifications' | 'shortcuts' | 'sync';
 
 export default function Timekeeper() {
-  const {
-    config,
-    setConfig,
-    stateData,
-    sessions,
-    audioEnabled,
-    startSession,
-    pauseSession,
-    resumeSession,
-    abortSession,
-    finishSession,
-    resetSession,
-    toggleMute,
-    enableAudio,
-    clearHistory,
-  } = useCountdownTimekeeper();
+  const [timers, setTimers] = useState<TimerSlot[]>([]);
+  const [presets, setPresets] = useState<ActivityPreset[]>([]);
+  const [escalationSteps, setEscalationSteps] = useState<EscalationStep[]>([]);
+  const [shortcuts, setShortcuts] = useState<ShortcutConfig>(DEFAULT_SHORTCUT_SETTINGS);
+  const [settingsPanel, setSettingsPanel] = useState<SettingsPanel | null>(null);
+  const [selectedTimerId, setSelectedTimerId] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('focus');
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null);
+  const [historyTool, setHistoryTool] = useState<HistoryTool | null>(null);
+  const [historySource, setHistorySource] = useState<HistorySource>('device');
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [clearCount, setClearCount] = useState<number | null>(null); // Set while "Clear" awaits confirmation
+  const [historyFilter, setHistoryFilter] = useState<SessionDetails>({});
+  const [detailSuggestions, setDetailSuggestions] = useState<DetailSuggestions>({ operator: [], unit: [], workOrder: [] });
+  const [audioEnabled, setAudioEnabled] = useState(false);
+  const [audioStatus, setAudioStatus] = useState<AudioStatus>('off');
+  const audioBlocked = audioEnabled && audioStatus !== 'running';
 
   // Dark/Light mode state
-  const [isDarkMode, setIsDarkMode] = useState(true);
+  const { isDarkMode, toggleTheme } = useTheme();
 
-  // Load theme preference from localStorage
-  useEffect(() => {
-    const savedTheme = localStorage.getItem('timekeeper-theme');
-    if (savedTheme === 'light') {
-      setIsDarkMode(false);
+  const loadSessions = useCallback(() => {
+    if (historySource === 'device') {
+      querySessions({ ...historyFilter, limit: 10 }).then(setSessions);
+      return;
     }
+    fetchRemoteSessions({ ...historyFilter, limit: 10 })
+      .then((remote) => {
+        setSessions(remote);
+        setHistoryError(null);
+      })
+      .catch(() => setHistoryError('Sync server unreachable'));
+  }, [historySource, historyFilter]);
+
+  // New sessions and imports can bring new operators, units and work orders
+  const handleSessionsChanged = useCallback(() => {
+    loadSessions();
+    getDetailSuggestions().then(setDetailSuggestions);
+  }, [loadSessions]);
+
+  const activeFilterCount = Object.values(historyFilter).filter((value) => value?.trim()).length;
+
+  // Load presets and timers on mount (presets first so new timer panels
+  // start from the first preset), register the service worker (notification
+  // actions) and start pushing queued sessions
+  useEffect(() => {
+    setPresets(getPresets());
+    setEscalationSteps(getEscalationSteps());
+    setShortcuts(getShortcutSettings());
+    const savedTimers = getTimers();
+    setTimers(savedTimers);
+    setSelectedTimerId(savedTimers[0].id);
+    getDetailSuggestions().then(setDetailSuggestions);
+    registerServiceWorker();
+    return startOutboxSync();
   }, []);
 
-  // Save theme preference to localStorage
-  const toggleTheme = () => {
-    const newMode = !isDarkMode;
-    setIsDarkMode(newMode);
-    localStorage.setItem('timekeeper-theme', newMode ? 'dark' : 'light');
-  };
+  useEffect(() => {
+    setHistoryError(null);
+    loadSessions();
+  }, [loadSessions]);
+
+  // Sound enabled before a reload comes back on; the browser usually keeps
+  // the context suspended until the next tap, which shows "sound blocked"
+  useEffect(() => {
+    const settings = getAudioSettings();
+    applyAudioSettings(settings);
+    if (settings.enabled) {
+      initAudioContext();
+      setAudioEnabled(true);
+    }
+    return subscribeAudioStatus(setAudioStatus);
+  }, []);
 
-  const getStateBadgeColor = () => {
-    const baseColors = {
-      idle: isDarkMode ? 'bg-gray-700 border-gray-600' : 'bg-gray-500 border-gray-400',
-      arming: 'bg-yellow-500 border-yellow-400 shadow-lg shadow-yellow-500/50',
-      running: 'bg-green-500 border-green-400 shadow-lg shadow-green-500/50',
-      paused: 'bg-orange-500 border-orange-400 shadow-lg shadow-orange-500/50',
-      finished: 'bg-blue-500 border-blue-400 shadow-lg shadow-blue-500/50',
-      aborted: 'bg-red-600 border-red-400 shadow-lg shadow-red-500/50',
+  // While blocked, any tap or key press re-arms the sound
+  useEffect(() => {
+    if (!audioBlocked) return;
+    const rearm = () => {
+      resumeAudio();
     };
-    return baseColors[stateData.state] || baseColors.idle;
-  };
+    document.addEventListener('pointerdown', rearm);
+    document.addEventListener('keydown', rearm);
+    return () => {
+      document.removeEventListener('pointerdown', rearm);
+      document.removeEventListener('keydown', rearm);
+    };
+  }, [audioBlocked]);
 
-  const getTimerColor = () => {
-    // Show red if overdue (negative remaining time)
-    if (stateData.remainingMs < 0) {
-      return isDarkMode 
-        ? 'text-red-400 drop-shadow-[0_0_20px_rgba(248,113,113,0.8)] animate-pulse'
-        : 'text-red-600 drop-shadow-[0_0_20px_rgba(220,38,38,0.6)] animate-pulse';
-    }
-    
-    if (stateData.isWarning) {
-      return isDarkMode 
-        ? 'text-red-400 drop-shadow-[0_0_20px_rgba(248,113,113,0.8)] animate-pulse'
-        : 'text-red-600 drop-shadow-[0_0_20px_rgba(220,38,38,0.6)] animate-pulse';
-    }
-    
-    switch (stateData.state) {
-      case 'idle':
-        return isDarkMode ? 'text-gray-400' : 'text-gray-600';
-      case 'arming':
-        return isDarkMode 
-          ? 'text-yellow-400 drop-shadow-[0_0_20px_rgba(250,204,21,0.8)]'
-          : 'text-yellow-600 drop-shadow-[0_0_20px_rgba(202,138,4,0.6)]';
-      case 'running':
-        return isDarkMode 
-          ? 'text-green-400 drop-shadow-[0_0_20px_rgba(74,222,128,0.8)]'
-          : 'text-green-600 drop-shadow-[0_0_20px_rgba(22,163,74,0.6)]';
-      case 'paused':
-        return isDarkMode 
-          ? 'text-orange-400 drop-shadow-[0_0_20px_rgba(251,146,60,0.8)]'
-          : 'text-orange-600 drop-shadow-[0_0_20px_rgba(234,88,12,0.6)]';
-      case 'finished':
-        return isDarkMode 
-          ? 'text-blue-400 drop-shadow-[0_0_20px_rgba(96,165,250,0.8)]'
-          : 'text-blue-600 drop-shadow-[0_0_20px_rgba(37,99,235,0.6)]';
-      case 'aborted':
-        return isDarkMode 
-          ? 'text-red-400 drop-shadow-[0_0_20px_rgba(248,113,113,0.8)]'
-          : 'text-red-600 drop-shadow-[0_0_20px_rgba(220,38,38,0.6)]';
-      default:
-        return isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const enableAudio = useCallback(() => {
+    resumeAudio();
+    setAudioEnabled(true);
+    saveAudioSettings({ ...getAudioSettings(), enabled: true });
+  }, []);
+
+  // Clear asks first, showing how many records go to the trash
+  const requestClearHistory = useCallback(async () => {
+    setClearCount(await countSessions());
+  }, []);
+
+  const clearHistory = useCallback(async () => {
+    setClearCount(null);
+    try {
+      await clearSessions();
+    } catch (error) {
+      setHistoryError(`Clearing history failed: ${error instanceof Error ? error.message : 'Unknown storage error'}`);
+      return;
     }
+    setHistoryError(null);
+    handleSessionsChanged();
+  }, [handleSessionsChanged]);
+
+  const addTimer = () => {
+    const usedNumbers = timers.map((timer) => parseInt(timer.id.replace('bay-', ''), 10) || 0);
+    const nextNumber = Math.max(0, ...usedNumbers) + 1;
+    const timer: TimerSlot = { id: `bay-${nextNumber}`, name: `Bay ${nextNumber}` };
+    const updated = [...timers, timer];
+    setTimers(updated);
+    saveTimers(updated);
   };
 
-  const getStateLabel = () => {
-    switch (stateData.state) {
-      case 'idle':
-        return 'Idle';
-      case 'arming':
-        return 'Arming';
-      case 'running':
-        return 'Running';
-      case 'paused':
-        return 'Paused';
-      case 'finished':
-        return 'Finished';
-      case 'aborted':
-        return 'Aborted';
-      default:
-        return 'Unknown';
+  const removeTimer = (timerId: string) => {
+    if (timers.length <= 1) return;
+    const updated = timers.filter((timer) => timer.id !== timerId);
+    setTimers(updated);
+    saveTimers(updated);
+    clearState(timerId);
+    removeTimerState(timerId);
+    if (selectedTimerId === timerId) {
+      setSelectedTimerId(updated[0].id);
     }
   };
 
+  const updatePresets = (updated: ActivityPreset[]) => {
+    setPresets(updated);
+    savePresets(updated);
+  };
+
+  const updateEscalationSteps = (updated: EscalationStep[]) => {
+    setEscalationSteps(updated);
+    saveEscalationSteps(updated);
+  };
+
+  const updateShortcuts = (updated: ShortcutConfig) => {
+    setShortcuts(updated);
+    saveShortcutSettings(updated);
+  };
+
+  const toggleSettingsPanel = (panel: SettingsPanel) => {
+    setSettingsPanel(settingsPanel === panel ? null : panel);
+  };
+
+  const getPresetColorClass = (activityType: string) => {
+    const preset = findPreset(presets, activityType);
+    return preset ? PRESET_COLOR_CLASSES[preset.color] : null;
+  };
+
+  const selectTimer = (timerId: string) => {
+    setSelectedTimerId(timerId);
+    setViewMode('focus');
+  };
+
+  const toggleHistoryTool = (tool: HistoryTool) => {
+    setHistoryTool(historyTool === tool ? null : tool);
+  };
+
+  const historyToolClassName = (active: boolean) =>
+    `px-3 md:px-4 py-1.5 md:py-2 border-2 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase ${
+      active
+        ? 'bg-blue-600 border-blue-400 text-white shadow-lg shadow-blue-500/50'
+        : isDarkMode
+          ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+          : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+    }`;
+
+  const tabClassName = (active: boolean) =>
+    `px-3 md:px-4 py-1.5 md:py-2 border-2 font-bold text-[10px] md:text-xs tracking-wider uppercase transition-all whitespace-nowrap ${
+      active
+        ? 'bg-blue-600 border-blue-400 text-white shadow-lg shadow-blue-500/50'
+        : isDarkMode
+          ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+          : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+    }`;
+
   return (
     <div className={`min-h-screen ${isDarkMode ? 'bg-black text-white' : 'bg-white text-black'}`}>
       <div className="w-full">
@@ -187,8 +264,42 @@ export default function Timekeeper() {
               </div>
             </div>
 
-            {/* Dark Mode Toggle - Right */}
-            <div className="flex items-center justify-end flex-shrink-0 z-10">
+            {/* Stats / Monitor Links & Dark Mode Toggle - Right */}
+            <div className="flex items-center justify-end gap-2 flex-shrink-0 z-10">
+              {audioBlocked && (
+                <button
+                  onClick={enableAudio}
+                  className="px-2 md:px-3 lg:px-4 py-1.5 md:py-2 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 font-bold text-[10px] md:text-xs tracking-wider uppercase transition-all whitespace-nowrap pointer-events-auto animate-pulse shadow-lg shadow-red-500/50"
+                  title="The browser suspended audio. Tap to turn alarms back on."
+                >
+                  <span className="hidden md:inline">🔇 Sound Blocked</span>
+                  <span className="md:hidden">🔇</span>
+                </button>
+              )}
+              <Link
+                href="/stats"
+                className={`px-2 md:px-3 lg:px-4 py-1.5 md:py-2 border-2 font-bold text-[10px] md:text-xs tracking-wider uppercase transition-all whitespace-nowrap pointer-events-auto ${
+                  isDarkMode
+                    ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+                    : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+                }`}
+                title="Statistics"
+              >
+                <span className="hidden md:inline">📊 Stats</span>
+                <span className="md:hidden">📊</span>
+              </Link>
+              <Link
+                href="/monitor"
+                className={`px-2 md:px-3 lg:px-4 py-1.5 md:py-2 border-2 font-bold text-[10px] md:text-xs tracking-wider uppercase transition-all whitespace-nowrap pointer-events-auto ${
+                  isDarkMode
+                    ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+                    : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+                }`}
+                title="Live monitor"
+              >
+                <span className="hidden md:inline">📡 Monitor</span>
+                <span className="md:hidden">📡</span>
+              </Link>
               <button
                 onClick={toggleTheme}
                 className={`px-2 md:px-3 lg:px-4 py-1.5 md:py-2 border-2 font-bold text-[10px] md:text-xs tracking-wider uppercase transition-all whitespace-nowrap pointer-events-auto ${
@@ -205,300 +316,128 @@ export default function Timekeeper() {
           </div>
         </div>
 
-        {/* Timer Display - F1 Style Full Width */}
-        <div className={`w-full border-b-4 py-6 md:py-10 lg:py-16 text-center relative overflow-hidden ${
-          isDarkMode 
-            ? 'bg-gradient-to-b from-gray-900 to-black border-gray-800' 
-            : 'bg-gradient-to-b from-gray-50 to-white border-gray-200'
+        {/* Bay Tabs */}
+        <div className={`flex flex-wrap items-center gap-2 px-3 md:px-4 lg:px-6 py-2 md:py-3 border-b ${
+          isDarkMode ? 'border-gray-800 bg-gray-950' : 'border-gray-200 bg-gray-50'
         }`}>
-          {/* Grid overlay effect */}
-          <div className={`absolute inset-0 ${isDarkMode ? 'opacity-5' : 'opacity-10'}`} style={{
-            backgroundImage: isDarkMode
-              ? 'linear-gradient(rgba(255,255,255,0.1) 1px, transparent 1px), linear-gradient(90deg, rgba(255,255,255,0.1) 1px, transparent 1px)'
-              : 'linear-gradient(rgba(0,0,0,0.1) 1px, transparent 1px), linear-gradient(90deg, rgba(0,0,0,0.1) 1px, transparent 1px)',
-            backgroundSize: '50px 50px'
-          }}></div>
-          
-          {/* State Badge - F1 Style */}
-          <div className="mb-4 md:mb-6 lg:mb-8 relative z-10 flex justify-center items-center flex-wrap gap-2 md:gap-3">
-            <span className={`inline-block px-3 md:px-4 lg:px-6 py-1.5 md:py-2 border-2 text-white font-bold text-[10px] md:text-xs lg:text-sm tracking-wider uppercase ${getStateBadgeColor()}`}>
-              {getStateLabel()}
-            </span>
-            {stateData.isWarning && (
-              <span className="inline-block px-3 md:px-4 lg:px-6 py-1.5 md:py-2 border-2 border-red-400 bg-red-600 text-white font-bold animate-pulse text-[10px] md:text-xs lg:text-sm tracking-wider uppercase shadow-lg shadow-red-500/50">
-                ⚠ Warning
-              </span>
-            )}
-          </div>
-
-          {/* Timer - F1 Style Large Display */}
-          {stateData.state === 'arming' ? (
-            <div className={`text-[6rem] sm:text-[8rem] md:text-[12rem] lg:text-[15rem] xl:text-[18rem] font-mono font-black mb-4 md:mb-6 relative z-10 leading-none ${
-              isDarkMode
-                ? 'text-yellow-400 drop-shadow-[0_0_20px_rgba(250,204,21,0.8)] md:drop-shadow-[0_0_30px_rgba(250,204,21,0.9)]'
-                : 'text-yellow-600 drop-shadow-[0_0_20px_rgba(202,138,4,0.6)] md:drop-shadow-[0_0_30px_rgba(202,138,4,0.7)]'
-            }`}>
-              {stateData.armingCountdown}
-            </div>
-          ) : (
-            <div className={`text-[5rem] sm:text-[6rem] md:text-[10rem] lg:text-[12rem] xl:text-[16rem] font-mono font-black mb-4 md:mb-6 relative z-10 leading-none ${getTimerColor()}`}>
-              {formatTime(stateData.remainingMs)}
-            </div>
-          )}
-
-          {/* Audio Controls - F1 Style */}
-          <div className="flex justify-center gap-2 md:gap-3 mb-4 md:mb-6 relative z-10">
-            {!audioEnabled && (
-              <button
-                onClick={enableAudio}
-                className="px-3 md:px-4 lg:px-5 py-1.5 md:py-2 bg-green-600 border-2 border-green-400 text-white hover:bg-green-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-green-500/50"
-              >
-                Enable Sound
-              </button>
-            )}
-            {audioEnabled && (
-              <button
-                onClick={toggleMute}
-                className={`px-3 md:px-4 lg:px-5 py-1.5 md:py-2 border-2 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg ${
-                  stateData.mute
-                    ? 'bg-gray-700 border-gray-500 text-gray-400 hover:bg-gray-600'
-                    : 'bg-blue-600 border-blue-400 text-white hover:bg-blue-500 shadow-blue-500/50'
-                }`}
-              >
-                {stateData.mute ? '🔇 Muted' : '🔊 Sound'}
-              </button>
-            )}
-          </div>
-
-          {/* Control Buttons - F1 Style */}
-          <div className="flex flex-wrap justify-center gap-2 md:gap-3 lg:gap-4 relative z-10 px-2">
-            {stateData.state === 'idle' && (
-              <button
-                onClick={startSession}
-                className="px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 bg-green-600 border-2 border-green-400 text-white hover:bg-green-500 transition-all font-bold text-xs md:text-sm lg:text-base tracking-wider uppercase shadow-lg shadow-green-500/50"
-              >
-                ▶ Start
-              </button>
-            )}
-
-            {stateData.state === 'running' && (
-              <>
-                <button
-                  onClick={pauseSession}
-                  className="px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 bg-orange-600 border-2 border-orange-400 text-white hover:bg-orange-500 transition-all font-bold text-xs md:text-sm tracking-wider uppercase shadow-lg shadow-orange-500/50"
-                >
-                  ⏸ Pause
-                </button>
-                <button
-                  onClick={finishSession}
-                  className={`px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 border-2 text-white hover:opacity-90 transition-all font-bold text-xs md:text-sm tracking-wider uppercase shadow-lg ${
-                    stateData.remainingMs <= 0
-                      ? 'bg-blue-600 border-blue-400 shadow-blue-500/50'
-                      : 'bg-red-600 border-red-400 shadow-red-500/50'
-                  }`}
-                >
-                  {stateData.remainingMs <= 0 ? '✓ Finish' : '⏹ Stop'}
-                </button>
-              </>
-            )}
-
-            {stateData.state === 'paused' && (
-              <>
-                <button
-                  onClick={resumeSession}
-                  className="px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 bg-green-600 border-2 border-green-400 text-white hover:bg-green-500 transition-all font-bold text-xs md:text-sm tracking-wider uppercase shadow-lg shadow-green-500/50"
-                >
-                  ▶ Resume
-                </button>
-                <button
-                  onClick={abortSession}
-                  className="px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all font-bold text-xs md:text-sm tracking-wider uppercase shadow-lg shadow-red-500/50"
-                >
-                  ⏹ Stop
-                </button>
-              </>
-            )}
-
-            {(stateData.state === 'finished' || stateData.state === 'aborted') && (
-              <button
-                onClick={resetSession}
-                className="px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 bg-blue-600 border-2 border-blue-400 text-white hover:bg-blue-500 transition-all font-bold text-xs md:text-sm tracking-wider uppercase shadow-lg shadow-blue-500/50"
-              >
-                ⟲ Reset
-              </button>
-            )}
+          <button onClick={() => setViewMode('grid')} className={tabClassName(viewMode === 'grid')}>
+            ▦ All Bays
+          </button>
+          {timers.map((timer) => (
+            <button
+              key={timer.id}
+              onClick={() => selectTimer(timer.id)}
+              className={tabClassName(viewMode === 'focus' && selectedTimerId === timer.id)}
+            >
+              {timer.name}
+            </button>
+          ))}
+          <button onClick={addTimer} className={tabClassName(false)}>
+            + Add Bay
+          </button>
+        </div>
 
-            {stateData.state === 'arming' && (
-              <button
-                onClick={abortSession}
-                className="px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all font-bold text-xs md:text-sm tracking-wider uppercase shadow-lg shadow-red-500/50"
-              >
-                ✕ Abort
-              </button>
-            )}
-          </div>
+        {/* Timers - every bay stays mounted so background bays keep counting */}
+        <div className={viewMode === 'grid'
+          ? `grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3 md:gap-4 px-3 md:px-4 lg:px-8 pt-4 md:pt-6 ${isDarkMode ? 'bg-black' : 'bg-gray-50'}`
+          : ''
+        }>
+          {timers.map((timer) => (
+            <TimerPanel
+              key={timer.id}
+              timer={timer}
+              variant={viewMode === 'grid' ? 'card' : timer.id === selectedTimerId ? 'full' : 'hidden'}
+              presets={presets}
+              escalationSteps={escalationSteps}
+              detailSuggestions={detailSuggestions}
+              shortcuts={shortcuts}
+              isDarkMode={isDarkMode}
+              audioEnabled={audioEnabled}
+              audioBlocked={audioBlocked}
+              canRemove={timers.length > 1}
+              onEnableAudio={enableAudio}
+              onSelect={() => selectTimer(timer.id)}
+              onRemove={() => removeTimer(timer.id)}
+              onSessionSaved={handleSessionsChanged}
+            />
+          ))}
         </div>
 
         {/* Content Area - F1 Style */}
         <div className={`w-full px-3 md:px-4 lg:px-8 py-4 md:py-6 ${isDarkMode ? 'bg-black' : 'bg-gray-50'}`}>
           <div className="max-w-6xl mx-auto">
-            {/* Config Panel - F1 Style */}
+            {/* Settings: activity presets and overdue escalation */}
             <div className={`border-2 p-3 md:p-4 lg:p-6 mb-4 md:mb-6 ${
-              isDarkMode 
-                ? 'bg-gray-900 border-gray-700' 
+              isDarkMode
+                ? 'bg-gray-900 border-gray-700'
                 : 'bg-white border-gray-300 shadow-lg'
             }`}>
-          <h2 className={`text-base md:text-lg font-bold mb-3 md:mb-4 tracking-wider uppercase border-b-2 pb-2 ${
-            isDarkMode 
-              ? 'text-white border-gray-700' 
-              : 'text-gray-900 border-gray-300'
-          }`}>Session Configuration</h2>
-          
-          <div className="space-y-4">
-            {/* Activity Type */}
-            <div>
-              <label className={`block text-xs font-bold mb-2 tracking-wide uppercase ${
-                isDarkMode ? 'text-gray-300' : 'text-gray-700'
-              }`}>
-                Activity Type
-              </label>
-              <select
-                value={config.activityType}
-                onChange={(e) => setConfig({ ...config, activityType: e.target.value })}
-                disabled={stateData.state !== 'idle'}
-                className={`w-full px-4 py-2 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:cursor-not-allowed font-mono ${
-                  isDarkMode
-                    ? 'bg-gray-800 border-gray-600 text-white disabled:bg-gray-950 disabled:border-gray-800 disabled:text-gray-600'
-                    : 'bg-white border-gray-300 text-gray-900 disabled:bg-gray-100 disabled:border-gray-200 disabled:text-gray-400'
-                }`}
-              >
-                {ACTIVITY_TYPES.map((type) => (
-                  <option key={type} value={type} className={isDarkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'}>
-                    {type}
-                  </option>
-                ))}
-              </select>
-            </div>
-
-            {/* Duration */}
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className={`block text-xs font-bold mb-2 tracking-wide uppercase ${
-                  isDarkMode ? 'text-gray-300' : 'text-gray-700'
-                }`}>
-                  Minutes
-                </label>
-                <input
-                  type="number"
-                  min="0"
-                  max="999"
-                  value={config.targetMinutes === 0 ? '' : config.targetMinutes}
-                  onChange={(e) => {
-                    const val = e.target.value;
-                    // Remove leading zeros and parse
-                    const cleanVal = val.replace(/^0+/, '') || '0';
-                    const numVal = parseInt(cleanVal, 10);
-                    if (!isNaN(numVal) && numVal >= 0 && numVal <= 999) {
-                      setConfig({ ...config, targetMinutes: numVal });
-                    } else if (val === '') {
-                      setConfig({ ...config, targetMinutes: 0 });
-                    }
-                  }}
-                  onBlur={(e) => {
-                    const val = parseInt(e.target.value, 10);
-                    if (isNaN(val) || val < 0) {
-                      setConfig({ ...config, targetMinutes: 0 });
-                    } else if (val > 999) {
-                      setConfig({ ...config, targetMinutes: 999 });
-                    }
-                  }}
-                  disabled={stateData.state !== 'idle'}
-                  className={`w-full px-4 py-2 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:cursor-not-allowed font-mono ${
-                    isDarkMode
-                      ? 'bg-gray-800 border-gray-600 text-white disabled:bg-gray-950 disabled:border-gray-800 disabled:text-gray-600'
-                      : 'bg-white border-gray-300 text-gray-900 disabled:bg-gray-100 disabled:border-gray-200 disabled:text-gray-400'
-                  }`}
-                />
-              </div>
-              <div>
-                <label className={`block text-xs font-bold mb-2 tracking-wide uppercase ${
-                  isDarkMode ? 'text-gray-300' : 'text-gray-700'
-                }`}>
-                  Seconds
-                </label>
-                <input
-                  type="number"
-                  min="0"
-                  max="59"
-                  value={config.targetSeconds === 0 ? '' : config.targetSeconds}
-                  onChange={(e) => {
-                    const val = e.target.value;
-                    // Remove leading zeros and parse
-                    const cleanVal = val.replace(/^0+/, '') || '0';
-                    const numVal = parseInt(cleanVal, 10);
-                    if (!isNaN(numVal) && numVal >= 0 && numVal <= 59) {
-                      setConfig({ ...config, targetSeconds: numVal });
-                    } else if (val === '') {
-                      setConfig({ ...config, targetSeconds: 0 });
-                    }
-                  }}
-                  onBlur={(e) => {
-                    const val = parseInt(e.target.value, 10);
-                    if (isNaN(val) || val < 0) {
-                      setConfig({ ...config, targetSeconds: 0 });
-                    } else if (val > 59) {
-                      setConfig({ ...config, targetSeconds: 59 });
-                    }
-                  }}
-                  disabled={stateData.state !== 'idle'}
-                  className={`w-full px-4 py-2 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:cursor-not-allowed font-mono ${
-                    isDarkMode
-                      ? 'bg-gray-800 border-gray-600 text-white disabled:bg-gray-950 disabled:border-gray-800 disabled:text-gray-600'
-                      : 'bg-white border-gray-300 text-gray-900 disabled:bg-gray-100 disabled:border-gray-200 disabled:text-gray-400'
-                  }`}
-                />
+              <div className={`flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 ${settingsPanel ? `mb-3 md:mb-4 border-b-2 pb-2 md:pb-3 ${
+                isDarkMode ? 'border-gray-700' : 'border-gray-300'
+              }` : ''}`}>
+                <h2 className={`text-base md:text-lg font-bold tracking-wider uppercase ${
+                  isDarkMode ? 'text-white' : 'text-gray-900'
+                }`}>Settings</h2>
+                <div className="flex flex-wrap gap-2 self-start sm:self-auto">
+                  <button
+                    onClick={() => toggleSettingsPanel('presets')}
+                    className={historyToolClassName(settingsPanel === 'presets')}
+                  >
+                    ✎ Activity Presets
+                  </button>
+                  <button
+                    onClick={() => toggleSettingsPanel('escalation')}
+                    className={historyToolClassName(settingsPanel === 'escalation')}
+                  >
+                    ⏰ Overdue Escalation
+                  </button>
+                  <button
+                    onClick={() => toggleSettingsPanel('sounds')}
+                    className={historyToolClassName(settingsPanel === 'sounds')}
+                  >
+                    🔊 Sounds
+                  </button>
+                  <button
+                    onClick={() => toggleSettingsPanel('voice')}
+                    className={historyToolClassName(settingsPanel === 'voice')}
+                  >
+                    🗣 Voice
+                  </button>
+                  <button
+                    onClick={() => toggleSettingsPanel('notifications')}
+                    className={historyToolClassName(settingsPanel === 'notifications')}
+                  >
+                    🔔 Notifications
+                  </button>
+                  <button
+                    onClick={() => toggleSettingsPanel('shortcuts')}
+                    className={historyToolClassName(settingsPanel === 'shortcuts')}
+                  >
+                    ⌨ Shortcuts
+                  </button>
+                  <button
+                    onClick={() => toggleSettingsPanel('sync')}
+                    className={historyToolClassName(settingsPanel === 'sync')}
+                  >
+                    ⇅ Sync
+                  </button>
+                </div>
               </div>
-            </div>
 
-            {/* Warning Threshold */}
-            <div>
-              <label className={`block text-xs font-bold mb-2 tracking-wide uppercase ${
-                isDarkMode ? 'text-gray-300' : 'text-gray-700'
-              }`}>
-                Warning Threshold (minutes)
-              </label>
-              <input
-                type="number"
-                min="0"
-                max="60"
-                value={config.warningThresholdMinutes === 0 ? '' : config.warningThresholdMinutes}
-                onChange={(e) => {
-                  const val = e.target.value;
-                  const cleanVal = val.replace(/^0+/, '') || '0';
-                  const numVal = parseInt(cleanVal, 10);
-                  if (!isNaN(numVal) && numVal >= 0 && numVal <= 60) {
-                    setConfig({ ...config, warningThresholdMinutes: numVal });
-                  } else if (val === '') {
-                    setConfig({ ...config, warningThresholdMinutes: 0 });
-                  }
-                }}
-                onBlur={(e) => {
-                  const val = parseInt(e.target.value, 10);
-                  if (isNaN(val) || val < 0) {
-                    setConfig({ ...config, warningThresholdMinutes: 0 });
-                  } else if (val > 60) {
-                    setConfig({ ...config, warningThresholdMinutes: 60 });
-                  }
-                }}
-                className={`w-full px-4 py-2 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono ${
-                  isDarkMode
-                    ? 'bg-gray-800 border-gray-600 text-white'
-                    : 'bg-white border-gray-300 text-gray-900'
-                }`}
-              />
+              {settingsPanel === 'presets' && (
+                <PresetManager presets={presets} isDarkMode={isDarkMode} onChange={updatePresets} />
+              )}
+              {settingsPanel === 'escalation' && (
+                <EscalationEditor steps={escalationSteps} isDarkMode={isDarkMode} onChange={updateEscalationSteps} />
+              )}
+              {settingsPanel === 'sounds' && <SoundSettings isDarkMode={isDarkMode} />}
+              {settingsPanel === 'voice' && <VoiceSettings isDarkMode={isDarkMode} />}
+              {settingsPanel === 'notifications' && <NotificationSettings isDarkMode={isDarkMode} />}
+              {settingsPanel === 'shortcuts' && (
+                <ShortcutSettings settings={shortcuts} isDarkMode={isDarkMode} onChange={updateShortcuts} />
+              )}
+              {settingsPanel === 'sync' && <SyncPanel isDarkMode={isDarkMode} />}
             </div>
-          </div>
-        </div>
 
             {/* Session History - F1 Style */}
             <div className={`border-2 p-3 md:p-4 lg:p-6 ${
@@ -512,20 +451,105 @@ export default function Timekeeper() {
                 <h2 className={`text-base md:text-lg font-bold tracking-wider uppercase ${
                   isDarkMode ? 'text-white' : 'text-gray-900'
                 }`}>Session History (Last 10)</h2>
-                {sessions.length > 0 && (
+                <div className="flex flex-wrap gap-2 self-start sm:self-auto">
                   <button
-                    onClick={clearHistory}
-                    className="px-3 md:px-4 py-1.5 md:py-2 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-red-500/50 self-start sm:self-auto"
+                    onClick={() => setHistorySource('device')}
+                    className={historyToolClassName(historySource === 'device')}
                   >
-                    Clear
+                    This Device
                   </button>
-                )}
+                  <button
+                    onClick={() => setHistorySource('all')}
+                    className={historyToolClassName(historySource === 'all')}
+                  >
+                    All Devices
+                  </button>
+                  <button
+                    onClick={() => toggleHistoryTool('filter')}
+                    className={historyToolClassName(historyTool === 'filter' || activeFilterCount > 0)}
+                  >
+                    ⌕ Filter{activeFilterCount > 0 && ` (${activeFilterCount})`}
+                  </button>
+                  <Link href="/history" className={historyToolClassName(false)}>
+                    ☰ Full History
+                  </Link>
+                  {historySource === 'device' && (
+                    <button
+                      onClick={() => toggleHistoryTool('import')}
+                      className={historyToolClassName(historyTool === 'import')}
+                    >
+                      ⇧ Import
+                    </button>
+                  )}
+                  {historySource === 'device' && (
+                    <>
+                      <button
+                        onClick={() => toggleHistoryTool('trash')}
+                        className={historyToolClassName(historyTool === 'trash')}
+                      >
+                        🗑 Trash
+                      </button>
+                      <button
+                        onClick={() => toggleHistoryTool('audit')}
+                        className={historyToolClassName(historyTool === 'audit')}
+                      >
+                        📜 Audit Log
+                      </button>
+                    </>
+                  )}
+                  {historySource === 'device' && sessions.length > 0 && (
+                    <>
+                      <button
+                        onClick={() => toggleHistoryTool('export')}
+                        className={historyToolClassName(historyTool === 'export')}
+                      >
+                        ⇩ Export
+                      </button>
+                      <button
+                        onClick={requestClearHistory}
+                        className="px-3 md:px-4 py-1.5 md:py-2 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-red-500/50"
+                      >
+                        Clear
+                      </button>
+                    </>
+                  )}
+                </div>
               </div>
 
+              {historyTool === 'filter' && (
+                <div className={`border-2 p-3 md:p-4 mb-3 md:mb-4 ${isDarkMode ? 'border-gray-700 bg-gray-950' : 'border-gray-300 bg-gray-50'}`}>
+                  <SessionDetailFilters
+                    value={historyFilter}
+                    suggestions={detailSuggestions}
+                    isDarkMode={isDarkMode}
+                    idPrefix="history"
+                    onChange={setHistoryFilter}
+                  />
+                </div>
+              )}
+              {historySource === 'device' && historyTool === 'export' && sessions.length > 0 && <ExportPanel isDarkMode={isDarkMode} />}
+              {historySource === 'device' && historyTool === 'import' && <ImportPanel isDarkMode={isDarkMode} onImported={handleSessionsChanged} />}
+              {historySource === 'device' && historyTool === 'trash' && <TrashPanel isDarkMode={isDarkMode} onRestored={handleSessionsChanged} />}
+              {historySource === 'device' && historyTool === 'audit' && <AuditLogPanel isDarkMode={isDarkMode} />}
+              {historySource === 'device' && clearCount !== null && (
+                <ConfirmBar
+                  message={`Move all ${clearCount} session(s) on this device to the trash?`}
+                  confirmLabel="Clear History"
+                  isDarkMode={isDarkMode}
+                  onConfirm={clearHistory}
+                  onCancel={() => setClearCount(null)}
+                />
+              )}
+              {historyError && (
+                <p className={`mb-3 font-mono text-xs md:text-sm ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
+                  {historyError}
+                </p>
+              )}
+
               {sessions.length === 0 ? (
                 <p className={`text-center py-6 md:py-8 font-mono text-xs md:text-sm ${
                   isDarkMode ? 'text-gray-500' : 'text-gray-400'
-                }`}>No sessions</p>
+                }`}>{activeFilterCount > 0 ? 'No matching sessions' : 'No sessions'}</p>
               ) : (
                 <div className="overflow-x-auto -mx-3 md:mx-0">
                   <table className="w-full text-[10px] md:text-xs lg:text-sm font-mono">
@@ -536,9 +560,21 @@ export default function Timekeeper() {
                         <th className={`text-left py-2 md:py-3 px-2 md:px-3 font-bold tracking-wider uppercase ${
                           isDarkMode ? 'text-gray-400' : 'text-gray-600'
                         }`}>Time</th>
+                        <th className={`text-left py-2 md:py-3 px-2 md:px-3 font-bold tracking-wider uppercase ${
+                          isDarkMode ? 'text-gray-400' : 'text-gray-600'
+                        }`}>Bay</th>
                         <th className={`text-left py-2 md:py-3 px-2 md:px-3 font-bold tracking-wider uppercase ${
                           isDarkMode ? 'text-gray-400' : 'text-gray-600'
                         }`}>Activity</th>
+                        <th className={`text-left py-2 md:py-3 px-2 md:px-3 font-bold tracking-wider uppercase ${
+                          isDarkMode ? 'text-gray-400' : 'text-gray-600'
+                        }`}>Operator</th>
+                        <th className={`text-left py-2 md:py-3 px-2 md:px-3 font-bold tracking-wider uppercase ${
+                          isDarkMode ? 'text-gray-400' : 'text-gray-600'
+                        }`}>Unit</th>
+                        <th className={`text-left py-2 md:py-3 px-2 md:px-3 font-bold tracking-wider uppercase ${
+                          isDarkMode ? 'text-gray-400' : 'text-gray-600'
+                        }`}>Work Order</th>
                         <th className={`text-right py-2 md:py-3 px-2 md:px-3 font-bold tracking-wider uppercase ${
                           isDarkMode ? 'text-gray-400' : 'text-gray-600'
                         }`}>Target</th>
@@ -552,32 +588,69 @@ export default function Timekeeper() {
                     </thead>
                     <tbody>
                       {sessions.map((session) => (
-                        <tr key={session.id} className={`border-b transition-colors ${
-                          isDarkMode 
-                            ? 'border-gray-800 hover:bg-gray-800' 
-                            : 'border-gray-200 hover:bg-gray-50'
-                        }`}>
-                          <td className={`py-2 md:py-3 px-2 md:px-3 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{formatDateTime(session.startAt)}</td>
-                          <td className={`py-2 md:py-3 px-2 md:px-3 font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{session.activityType}</td>
-                          <td className={`py-2 md:py-3 px-2 md:px-3 text-right ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{formatDuration(session.targetDurationMs)}</td>
-                          <td className="py-2 md:py-3 px-2 md:px-3 text-center">
-                            <span className={`inline-block px-2 md:px-3 py-0.5 md:py-1 border-2 text-[10px] md:text-xs font-bold tracking-wider uppercase ${
-                              session.status === 'finished' 
-                                ? 'bg-green-600 border-green-400 text-white shadow-lg shadow-green-500/50' 
-                                : 'bg-red-600 border-red-400 text-white shadow-lg shadow-red-500/50'
-                            }`}>
-                              {session.status === 'finished' ? '✓' : '✕'}
-                            </span>
-                          </td>
-                          <td className={`py-2 md:py-3 px-2 md:px-3 text-right ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                            {formatDuration(session.effectiveDurationMs)}
-                            {session.overdueMs && session.overdueMs > 0 && (
-                              <span className={`ml-2 text-xs ${isDarkMode ? 'text-red-400' : 'text-red-600'} font-bold`}>
-                                ({formatOverdue(session.overdueMs)} late)
+                        <Fragment key={session.id}>
+                          <tr
+                            onClick={() => setExpandedSessionId(expandedSessionId === session.id ? null : session.id)}
+                            className={`border-b transition-colors cursor-pointer ${
+                              isDarkMode 
+                                ? 'border-gray-800 hover:bg-gray-800' 
+                                : 'border-gray-200 hover:bg-gray-50'
+                            }`}
+                          >
+                            <td className={`py-2 md:py-3 px-2 md:px-3 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{formatDateTime(session.startAt)}</td>
+                            <td className={`py-2 md:py-3 px-2 md:px-3 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                              {historySource === 'all' && session.deviceName && (
+                                <span className={`block text-[10px] ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>{session.deviceName}</span>
+                              )}
+                              {session.timerName || '-'}
+                            </td>
+                            <td className={`py-2 md:py-3 px-2 md:px-3 font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                              <span className="flex items-center gap-1.5">
+                                {getPresetColorClass(session.activityType) && (
+                                  <span className={`inline-block w-2.5 h-2.5 border ${getPresetColorClass(session.activityType)}`} />
+                                )}
+                                {session.activityType}
+                              </span>
+                              {session.notes && (
+                                <span
+                                  className={`block max-w-[16rem] truncate text-[10px] font-normal ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}
+                                  title={session.notes}
+                                >
+                                  {session.notes}
+                                </span>
+                              )}
+                            </td>
+                            <td className={`py-2 md:py-3 px-2 md:px-3 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{session.operator || '-'}</td>
+                            <td className={`py-2 md:py-3 px-2 md:px-3 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{session.unit || '-'}</td>
+                            <td className={`py-2 md:py-3 px-2 md:px-3 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{session.workOrder || '-'}</td>
+                            <td className={`py-2 md:py-3 px-2 md:px-3 text-right ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{formatDuration(session.targetDurationMs)}</td>
+                            <td className="py-2 md:py-3 px-2 md:px-3 text-center">
+                              <span
+                                className={`inline-block px-2 md:px-3 py-0.5 md:py-1 border-2 text-white text-[10px] md:text-xs font-bold tracking-wider uppercase whitespace-nowrap ${
+                                  OUTCOME_BADGE_CLASSES[getSessionOutcome(session)]
+                                }`}
+                                title={session.stopReason ? getStopReasonLabel(session.stopReason) : undefined}
+                              >
+                                {OUTCOME_LABELS[getSessionOutcome(session)]}
                               </span>
-                            )}
-                          </td>
-                        </tr>
+                            </td>
+                            <td className={`py-2 md:py-3 px-2 md:px-3 text-right ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                              {formatDuration(session.effectiveDurationMs)}
+                              {session.overdueMs && session.overdueMs > 0 && (
+                                <span className={`ml-2 text-xs ${isDarkMode ? 'text-red-400' : 'text-red-600'} font-bold`}>
+                                  ({formatOverdue(session.overdueMs)} late)
+                                </span>
+                              )}
+                            </td>
+                          </tr>
+                          {expandedSessionId === session.id && (
+                            <tr className={`border-b ${isDarkMode ? 'border-gray-800 bg-gray-950' : 'border-gray-200 bg-gray-50'}`}>
+                              <td colSpan={9} className="px-2 md:px-3">
+                                <SessionTimeline session={session} isDarkMode={isDarkMode} />
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
                       ))}
                     </tbody>
                   </table>
@@ -587,6 +660,8 @@ export default function Timekeeper() {
           </div>
         </div>
       </div>
+
+      <UpdatePrompt isDarkMode={isDarkMode} />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,852 @@
+'use client';
+
+import { useState } from 'react';
+import CheckpointEditor from '@/components/CheckpointEditor';
+import DisplayMode from '@/components/DisplayMode';
+import ShortcutCheatSheet from '@/components/ShortcutCheatSheet';
+import StopReasonPicker from '@/components/StopReasonPicker';
+import { useCountdownTimekeeper, type TimekeeperConfig } from '@/hooks/useCountdownTimekeeper';
+import { useShortcuts } from '@/hooks/useShortcuts';
+import { formatTime } from '@/utils/format';
+import { enterFullscreen, exitFullscreen } from '@/utils/fullscreen';
+import type { EscalationStep } from '@/utils/escalation';
+import type { StopReasonCode } from '@/utils/outcome';
+import { findPreset, PRESET_COLOR_CLASSES, PRESET_TEXT_CLASSES, type ActivityPreset } from '@/utils/presets';
+import { INDEXED_DETAIL_FIELDS, SESSION_DETAIL_FIELDS, type DetailSuggestions } from '@/utils/sessionDetails';
+import type { ShortcutAction, ShortcutSettings } from '@/utils/shortcuts';
+import type { Session, TimerSlot } from '@/utils/storage';
+
+const PAUSE_REASONS = [
+  'Menunggu sparepart',
+  'Menunggu operator',
+  'Istirahat',
+  'Ganti shift',
+  'Cek ulang / diagnosa',
+];
+
+export type TimerPanelVariant = 'full' | 'card' | 'hidden';
+
+function toConfig(preset: ActivityPreset): TimekeeperConfig {
+  return {
+    activityType: preset.name,
+    targetMinutes: preset.targetMinutes,
+    targetSeconds: preset.targetSeconds,
+    checkpoints: preset.checkpoints,
+    soundProfile: preset.soundProfile,
+  };
+}
+
+interface TimerPanelProps {
+  timer: TimerSlot;
+  variant: TimerPanelVariant;
+  presets: ActivityPreset[];
+  escalationSteps: EscalationStep[];
+  detailSuggestions: DetailSuggestions;
+  shortcuts: ShortcutSettings;
+  isDarkMode: boolean;
+  audioEnabled: boolean;
+  audioBlocked: boolean;
+  canRemove: boolean;
+  onEnableAudio: () => void;
+  onSelect: () => void;
+  onRemove: () => void;
+  onSessionSaved: (session: Session) => void;
+}
+
+/**
+ * One work-bay timer. Stays mounted while hidden so its countdown,
+ * alerts and persistence keep running in the background.
+ */
+export default function TimerPanel({
+  timer,
+  variant,
+  presets,
+  escalationSteps,
+  detailSuggestions,
+  shortcuts,
+  isDarkMode,
+  audioEnabled,
+  audioBlocked,
+  canRemove,
+  onEnableAudio,
+  onSelect,
+  onRemove,
+  onSessionSaved,
+}: TimerPanelProps) {
+  const {
+    config,
+    setConfig,
+    stateData,
+    saveError,
+    startSession,
+    pauseSession,
+    setPauseReason,
+    resumeSession,
+    completeSession,
+    stopSession,
+    cancelArming,
+    resetSession,
+    dismissBanner,
+    dismissSaveError,
+    toggleMute,
+  } = useCountdownTimekeeper({
+    timer,
+    audioEnabled,
+    onSessionSaved,
+    defaultConfig: presets[0] && toConfig(presets[0]),
+    escalationSteps,
+  });
+
+  const activePreset = findPreset(presets, config.activityType);
+
+  // Picking an activity applies its preset defaults (details are kept)
+  const handleActivityChange = (name: string) => {
+    const preset = findPreset(presets, name);
+    setConfig(preset ? { ...config, ...toConfig(preset) } : { ...config, activityType: name });
+  };
+
+  // Details are saved when the session ends, so they stay editable until then
+  const detailsLocked = stateData.state === 'finished' || stateData.state === 'aborted';
+
+  const [pauseReason, setPauseReasonInput] = useState('');
+  const [stopping, setStopping] = useState(false);
+  const [displayMode, setDisplayMode] = useState(false);
+  const [showCheatSheet, setShowCheatSheet] = useState(false);
+  const isStopping = stopping && (stateData.state === 'running' || stateData.state === 'paused');
+
+  const handleStop = (reason: StopReasonCode) => {
+    setStopping(false);
+    stopSession(reason);
+  };
+
+  const openDisplay = () => {
+    enterFullscreen();
+    setDisplayMode(true);
+  };
+
+  const closeDisplay = () => {
+    exitFullscreen();
+    setDisplayMode(false);
+  };
+
+  const handlePause = () => {
+    setPauseReasonInput('');
+    pauseSession();
+  };
+
+  // Same rules as the buttons: an action only applies in the states where its button is shown
+  const handleShortcut = (action: ShortcutAction) => {
+    const { state } = stateData;
+    switch (action) {
+      case 'start':
+        if (state === 'idle') startSession();
+        break;
+      case 'pauseResume':
+        if (state === 'running' && !isStopping) handlePause();
+        else if (state === 'paused' && !isStopping) resumeSession();
+        break;
+      case 'stop':
+        if (state === 'arming') {
+          cancelArming();
+        } else if (state === 'running' || state === 'paused') {
+          // A stop reason is required, so leave the wall display to show the picker
+          if (displayMode) closeDisplay();
+          setStopping(true);
+        }
+        break;
+      case 'reset':
+        if (state === 'finished' || state === 'aborted') resetSession();
+        break;
+      case 'mute':
+        toggleMute();
+        break;
+    }
+  };
+
+  useShortcuts({
+    settings: shortcuts,
+    active: variant === 'full',
+    onAction: handleShortcut,
+    onToggleCheatSheet: () => setShowCheatSheet((shown) => !shown),
+  });
+
+  const getStateBadgeColor = () => {
+    const baseColors = {
+      idle: isDarkMode ? 'bg-gray-700 border-gray-600' : 'bg-gray-500 border-gray-400',
+      arming: 'bg-yellow-500 border-yellow-400 shadow-lg shadow-yellow-500/50',
+      running: 'bg-green-500 border-green-400 shadow-lg shadow-green-500/50',
+      paused: 'bg-orange-500 border-orange-400 shadow-lg shadow-orange-500/50',
+      finished: 'bg-blue-500 border-blue-400 shadow-lg shadow-blue-500/50',
+      aborted: 'bg-red-600 border-red-400 shadow-lg shadow-red-500/50',
+    };
+    return baseColors[stateData.state] || baseColors.idle;
+  };
+
+  const getTimerColor = () => {
+    // Show red if overdue (negative remaining time)
+    if (stateData.remainingMs < 0) {
+      return isDarkMode 
+        ? 'text-red-400 drop-shadow-[0_0_20px_rgba(248,113,113,0.8)] animate-pulse'
+        : 'text-red-600 drop-shadow-[0_0_20px_rgba(220,38,38,0.6)] animate-pulse';
+    }
+    
+    if (stateData.activeCheckpoint && stateData.activeCheckpoint.color !== 'red') {
+      return `${PRESET_TEXT_CLASSES[stateData.activeCheckpoint.color]} animate-pulse`;
+    }
+
+    if (stateData.isWarning) {
+      return isDarkMode 
+        ? 'text-red-400 drop-shadow-[0_0_20px_rgba(248,113,113,0.8)] animate-pulse'
+        : 'text-red-600 drop-shadow-[0_0_20px_rgba(220,38,38,0.6)] animate-pulse';
+    }
+    
+    switch (stateData.state) {
+      case 'idle':
+        return isDarkMode ? 'text-gray-400' : 'text-gray-600';
+      case 'arming':
+        return isDarkMode 
+          ? 'text-yellow-400 drop-shadow-[0_0_20px_rgba(250,204,21,0.8)]'
+          : 'text-yellow-600 drop-shadow-[0_0_20px_rgba(202,138,4,0.6)]';
+      case 'running':
+        return isDarkMode 
+          ? 'text-green-400 drop-shadow-[0_0_20px_rgba(74,222,128,0.8)]'
+          : 'text-green-600 drop-shadow-[0_0_20px_rgba(22,163,74,0.6)]';
+      case 'paused':
+        return isDarkMode 
+          ? 'text-orange-400 drop-shadow-[0_0_20px_rgba(251,146,60,0.8)]'
+          : 'text-orange-600 drop-shadow-[0_0_20px_rgba(234,88,12,0.6)]';
+      case 'finished':
+        return isDarkMode 
+          ? 'text-blue-400 drop-shadow-[0_0_20px_rgba(96,165,250,0.8)]'
+          : 'text-blue-600 drop-shadow-[0_0_20px_rgba(37,99,235,0.6)]';
+      case 'aborted':
+        return isDarkMode 
+          ? 'text-red-400 drop-shadow-[0_0_20px_rgba(248,113,113,0.8)]'
+          : 'text-red-600 drop-shadow-[0_0_20px_rgba(220,38,38,0.6)]';
+      default:
+        return isDarkMode ? 'text-gray-400' : 'text-gray-600';
+    }
+  };
+
+  const getStateLabel = () => {
+    switch (stateData.state) {
+      case 'idle':
+        return 'Idle';
+      case 'arming':
+        return 'Arming';
+      case 'running':
+        return 'Running';
+      case 'paused':
+        return 'Paused';
+      case 'finished':
+        return 'Finished';
+      case 'aborted':
+        return 'Aborted';
+      default:
+        return 'Unknown';
+    }
+  };
+
+  // Full-screen overdue banner, shown for background bays too
+  const overdueBanner = stateData.showBanner && stateData.escalation && (
+    <div className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-4 md:gap-6 p-6 bg-red-700/95 text-white text-center animate-pulse">
+      <span className="px-4 py-2 border-2 border-white font-bold text-sm md:text-lg tracking-wider uppercase">
+        {timer.name} · {config.activityType}
+      </span>
+      <p className="text-2xl md:text-5xl font-black tracking-wider uppercase">
+        ⚠ {stateData.escalation.label}
+      </p>
+      <p className="text-5xl md:text-8xl font-mono font-black">
+        {formatTime(stateData.remainingMs)}
+      </p>
+      <div className="flex flex-wrap justify-center gap-3">
+        {stateData.state === 'running' && (
+          <button
+            onClick={completeSession}
+            className="px-6 py-3 bg-blue-600 border-2 border-blue-300 text-white hover:bg-blue-500 transition-all font-bold text-sm tracking-wider uppercase"
+          >
+            ✓ Done
+          </button>
+        )}
+        <button
+          onClick={dismissBanner}
+          className="px-6 py-3 bg-white border-2 border-white text-red-700 hover:bg-red-100 transition-all font-bold text-sm tracking-wider uppercase"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+
+  // Shown for background bays too, so a lost session is never silent
+  const saveErrorBar = saveError && (
+    <div className="fixed bottom-3 inset-x-3 md:bottom-4 md:inset-x-auto md:right-4 md:max-w-lg z-50 flex items-start gap-3 p-3 md:p-4 border-2 border-red-400 bg-red-700 text-white shadow-lg shadow-red-500/50 font-mono text-xs md:text-sm">
+      <span className="flex-1 font-bold">⚠ {saveError}</span>
+      <button
+        onClick={dismissSaveError}
+        className="px-3 py-1 bg-white border-2 border-white text-red-700 hover:bg-red-100 transition-all font-bold text-[10px] md:text-xs tracking-wider uppercase"
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+
+  if (variant === 'hidden') {
+    return (
+      <>
+        {overdueBanner}
+        {saveErrorBar}
+      </>
+    );
+  }
+
+  if (variant === 'card') {
+    return (
+      <div className={`border-2 p-3 md:p-4 flex flex-col gap-3 ${
+        isDarkMode
+          ? 'bg-gray-900 border-gray-700'
+          : 'bg-white border-gray-300 shadow-lg'
+      } ${stateData.isWarning || stateData.remainingMs < 0 ? 'border-red-500' : ''}`}>
+        {overdueBanner}
+        {saveErrorBar}
+        {/* Card Header */}
+        <div className="flex items-center justify-between gap-2">
+          <button
+            onClick={onSelect}
+            className={`text-left text-sm md:text-base font-bold tracking-wider uppercase hover:underline ${
+              isDarkMode ? 'text-white' : 'text-gray-900'
+            }`}
+            title="Open bay"
+          >
+            {timer.name}
+          </button>
+          <div className="flex items-center gap-2">
+            <span className={`inline-block px-2 py-0.5 border-2 text-white font-bold text-[10px] tracking-wider uppercase ${getStateBadgeColor()}`}>
+              {getStateLabel()}
+            </span>
+            {stateData.activeCheckpoint && (
+              <span className={`inline-block px-2 py-0.5 border-2 text-white font-bold animate-pulse text-[10px] tracking-wider uppercase ${PRESET_COLOR_CLASSES[stateData.activeCheckpoint.color]}`}>
+                ⚠ {stateData.activeCheckpoint.label}
+              </span>
+            )}
+            {stateData.escalation && (
+              <span className="inline-block px-2 py-0.5 border-2 border-purple-400 bg-purple-600 text-white font-bold text-[10px] tracking-wider uppercase">
+                ⏰
+              </span>
+            )}
+          </div>
+        </div>
+
+        <p className={`flex items-center gap-1.5 text-xs font-mono ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {activePreset && (
+            <span className={`inline-block w-2.5 h-2.5 border ${PRESET_COLOR_CLASSES[activePreset.color]}`} />
+          )}
+          {config.activityType}
+        </p>
+
+        {/* Card Timer */}
+        <div className={`text-4xl md:text-5xl font-mono font-black text-center leading-none ${
+          stateData.state === 'arming'
+            ? isDarkMode ? 'text-yellow-400' : 'text-yellow-600'
+            : getTimerColor()
+        }`}>
+          {stateData.state === 'arming' ? stateData.armingCountdown : formatTime(stateData.remainingMs)}
+        </div>
+
+        {/* Card Controls */}
+        <div className="flex flex-wrap justify-center gap-2">
+          {stateData.state === 'idle' && (
+            <button
+              onClick={startSession}
+              className="px-3 py-1.5 bg-green-600 border-2 border-green-400 text-white hover:bg-green-500 transition-all font-bold text-[10px] md:text-xs tracking-wider uppercase"
+            >
+              ▶ Start
+            </button>
+          )}
+          {isStopping && (
+            <StopReasonPicker isDarkMode={isDarkMode} compact onConfirm={handleStop} onCancel={() => setStopping(false)} />
+          )}
+          {stateData.state === 'running' && !isStopping && (
+            <button
+              onClick={handlePause}
+              className="px-3 py-1.5 bg-orange-600 border-2 border-orange-400 text-white hover:bg-orange-500 transition-all font-bold text-[10px] md:text-xs tracking-wider uppercase"
+            >
+              ⏸ Pause
+            </button>
+          )}
+          {stateData.state === 'paused' && !isStopping && (
+            <button
+              onClick={resumeSession}
+              className="px-3 py-1.5 bg-green-600 border-2 border-green-400 text-white hover:bg-green-500 transition-all font-bold text-[10px] md:text-xs tracking-wider uppercase"
+            >
+              ▶ Resume
+            </button>
+          )}
+          {(stateData.state === 'running' || stateData.state === 'paused') && !isStopping && (
+            <>
+              <button
+                onClick={completeSession}
+                className="px-3 py-1.5 bg-blue-600 border-2 border-blue-400 text-white hover:bg-blue-500 transition-all font-bold text-[10px] md:text-xs tracking-wider uppercase"
+              >
+                ✓ Done
+              </button>
+              <button
+                onClick={() => setStopping(true)}
+                className="px-3 py-1.5 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all font-bold text-[10px] md:text-xs tracking-wider uppercase"
+              >
+                ⏹ Stop
+              </button>
+            </>
+          )}
+          {stateData.state === 'arming' && (
+            <button
+              onClick={cancelArming}
+              className="px-3 py-1.5 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all font-bold text-[10px] md:text-xs tracking-wider uppercase"
+            >
+              ✕ Abort
+            </button>
+          )}
+          {(stateData.state === 'finished' || stateData.state === 'aborted') && (
+            <button
+              onClick={resetSession}
+              className="px-3 py-1.5 bg-blue-600 border-2 border-blue-400 text-white hover:bg-blue-500 transition-all font-bold text-[10px] md:text-xs tracking-wider uppercase"
+            >
+              ⟲ Reset
+            </button>
+          )}
+          {canRemove && stateData.state === 'idle' && (
+            <button
+              onClick={onRemove}
+              className={`px-3 py-1.5 border-2 transition-all font-bold text-[10px] md:text-xs tracking-wider uppercase ${
+                isDarkMode
+                  ? 'bg-gray-800 border-gray-600 text-gray-300 hover:bg-gray-700'
+                  : 'bg-gray-100 border-gray-300 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      {overdueBanner}
+      {saveErrorBar}
+      {displayMode && (
+        <DisplayMode
+          timerName={timer.name}
+          activityType={config.activityType}
+          activePreset={activePreset}
+          stateData={stateData}
+          stateLabel={getStateLabel()}
+          stateBadgeClass={getStateBadgeColor()}
+          timerClass={getTimerColor()}
+          isDarkMode={isDarkMode}
+          onExit={closeDisplay}
+        />
+      )}
+      {showCheatSheet && (
+        <ShortcutCheatSheet timerName={timer.name} settings={shortcuts} onClose={() => setShowCheatSheet(false)} />
+      )}
+      {/* Timer Display - F1 Style Full Width */}
+      <div className={`w-full border-b-4 py-6 md:py-10 lg:py-16 text-center relative overflow-hidden ${
+        isDarkMode 
+          ? 'bg-gradient-to-b from-gray-900 to-black border-gray-800' 
+          : 'bg-gradient-to-b from-gray-50 to-white border-gray-200'
+      }`}>
+        {/* Grid overlay effect */}
+        <div className={`absolute inset-0 ${isDarkMode ? 'opacity-5' : 'opacity-10'}`} style={{
+          backgroundImage: isDarkMode
+            ? 'linear-gradient(rgba(255,255,255,0.1) 1px, transparent 1px), linear-gradient(90deg, rgba(255,255,255,0.1) 1px, transparent 1px)'
+            : 'linear-gradient(rgba(0,0,0,0.1) 1px, transparent 1px), linear-gradient(90deg, rgba(0,0,0,0.1) 1px, transparent 1px)',
+          backgroundSize: '50px 50px'
+        }}></div>
+        
+        {/* State Badge - F1 Style */}
+        <div className="mb-4 md:mb-6 lg:mb-8 relative z-10 flex justify-center items-center flex-wrap gap-2 md:gap-3">
+          <span className={`inline-block px-3 md:px-4 lg:px-6 py-1.5 md:py-2 border-2 font-bold text-[10px] md:text-xs lg:text-sm tracking-wider uppercase ${
+            isDarkMode ? 'bg-gray-900 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+          }`}>
+            {timer.name}
+          </span>
+          {activePreset && (
+            <span className={`inline-block px-3 md:px-4 lg:px-6 py-1.5 md:py-2 border-2 text-white font-bold text-[10px] md:text-xs lg:text-sm tracking-wider uppercase ${PRESET_COLOR_CLASSES[activePreset.color]}`}>
+              {activePreset.name}
+            </span>
+          )}
+          <span className={`inline-block px-3 md:px-4 lg:px-6 py-1.5 md:py-2 border-2 text-white font-bold text-[10px] md:text-xs lg:text-sm tracking-wider uppercase ${getStateBadgeColor()}`}>
+            {getStateLabel()}
+          </span>
+          {stateData.activeCheckpoint && (
+            <span className={`inline-block px-3 md:px-4 lg:px-6 py-1.5 md:py-2 border-2 text-white font-bold animate-pulse text-[10px] md:text-xs lg:text-sm tracking-wider uppercase shadow-lg ${PRESET_COLOR_CLASSES[stateData.activeCheckpoint.color]}`}>
+              ⚠ {stateData.activeCheckpoint.label}
+            </span>
+          )}
+          {stateData.escalation && (
+            <span className="inline-block px-3 md:px-4 lg:px-6 py-1.5 md:py-2 border-2 border-purple-400 bg-purple-600 text-white font-bold text-[10px] md:text-xs lg:text-sm tracking-wider uppercase shadow-lg shadow-purple-500/50">
+              ⏰ {stateData.escalation.label}
+            </span>
+          )}
+          {!stateData.isLeader && (
+            <span
+              className={`inline-block px-3 md:px-4 lg:px-6 py-1.5 md:py-2 border-2 font-bold text-[10px] md:text-xs lg:text-sm tracking-wider uppercase ${
+                isDarkMode ? 'bg-gray-900 border-gray-600 text-gray-400' : 'bg-white border-gray-300 text-gray-500'
+              }`}
+              title="Timer is driven by another open tab or window; sound plays there"
+            >
+              ⇄ Mirror
+            </span>
+          )}
+        </div>
+
+        {/* Timer - F1 Style Large Display */}
+        {stateData.state === 'arming' ? (
+          <div className={`text-[6rem] sm:text-[8rem] md:text-[12rem] lg:text-[15rem] xl:text-[18rem] font-mono font-black mb-4 md:mb-6 relative z-10 leading-none ${
+            isDarkMode
+              ? 'text-yellow-400 drop-shadow-[0_0_20px_rgba(250,204,21,0.8)] md:drop-shadow-[0_0_30px_rgba(250,204,21,0.9)]'
+              : 'text-yellow-600 drop-shadow-[0_0_20px_rgba(202,138,4,0.6)] md:drop-shadow-[0_0_30px_rgba(202,138,4,0.7)]'
+          }`}>
+            {stateData.armingCountdown}
+          </div>
+        ) : (
+          <div className={`text-[5rem] sm:text-[6rem] md:text-[10rem] lg:text-[12rem] xl:text-[16rem] font-mono font-black mb-4 md:mb-6 relative z-10 leading-none ${getTimerColor()}`}>
+            {formatTime(stateData.remainingMs)}
+          </div>
+        )}
+
+        {/* Audio Controls - F1 Style */}
+        <div className="flex justify-center gap-2 md:gap-3 mb-4 md:mb-6 relative z-10">
+          {!audioEnabled && (
+            <button
+              onClick={onEnableAudio}
+              className="px-3 md:px-4 lg:px-5 py-1.5 md:py-2 bg-green-600 border-2 border-green-400 text-white hover:bg-green-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-green-500/50"
+            >
+              Enable Sound
+            </button>
+          )}
+          {audioBlocked && (
+            <button
+              onClick={onEnableAudio}
+              className="px-3 md:px-4 lg:px-5 py-1.5 md:py-2 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-red-500/50 animate-pulse"
+            >
+              🔇 Sound Blocked: Tap to Re-enable
+            </button>
+          )}
+          {audioEnabled && !audioBlocked && (
+            <button
+              onClick={toggleMute}
+              className={`px-3 md:px-4 lg:px-5 py-1.5 md:py-2 border-2 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg ${
+                stateData.mute
+                  ? 'bg-gray-700 border-gray-500 text-gray-400 hover:bg-gray-600'
+                  : 'bg-blue-600 border-blue-400 text-white hover:bg-blue-500 shadow-blue-500/50'
+              }`}
+            >
+              {stateData.mute ? '🔇 Muted' : '🔊 Sound'}
+            </button>
+          )}
+          <button
+            onClick={openDisplay}
+            className={`px-3 md:px-4 lg:px-5 py-1.5 md:py-2 border-2 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase ${
+              isDarkMode
+                ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+                : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+            }`}
+            title="Fullscreen wall display; press and hold anywhere for 3 seconds to exit"
+          >
+            ⛶ Display
+          </button>
+          <button
+            onClick={() => setShowCheatSheet(true)}
+            className={`px-3 md:px-4 lg:px-5 py-1.5 md:py-2 border-2 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase ${
+              isDarkMode
+                ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+                : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+            }`}
+            title="Keyboard / foot-pedal shortcuts (press ?)"
+          >
+            ⌨ Keys
+          </button>
+        </div>
+
+        {/* Control Buttons - F1 Style */}
+        <div className="flex flex-wrap justify-center gap-2 md:gap-3 lg:gap-4 relative z-10 px-2">
+          {stateData.state === 'idle' && (
+            <button
+              onClick={startSession}
+              className="px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 bg-green-600 border-2 border-green-400 text-white hover:bg-green-500 transition-all font-bold text-xs md:text-sm lg:text-base tracking-wider uppercase shadow-lg shadow-green-500/50"
+            >
+              ▶ Start
+            </button>
+          )}
+
+          {isStopping && (
+            <StopReasonPicker isDarkMode={isDarkMode} onConfirm={handleStop} onCancel={() => setStopping(false)} />
+          )}
+
+          {stateData.state === 'running' && !isStopping && (
+            <button
+              onClick={handlePause}
+              className="px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 bg-orange-600 border-2 border-orange-400 text-white hover:bg-orange-500 transition-all font-bold text-xs md:text-sm tracking-wider uppercase shadow-lg shadow-orange-500/50"
+            >
+              ⏸ Pause
+            </button>
+          )}
+
+          {stateData.state === 'paused' && !isStopping && (
+            <button
+              onClick={resumeSession}
+              className="px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 bg-green-600 border-2 border-green-400 text-white hover:bg-green-500 transition-all font-bold text-xs md:text-sm tracking-wider uppercase shadow-lg shadow-green-500/50"
+            >
+              ▶ Resume
+            </button>
+          )}
+
+          {(stateData.state === 'running' || stateData.state === 'paused') && !isStopping && (
+            <>
+              <button
+                onClick={completeSession}
+                className="px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 bg-blue-600 border-2 border-blue-400 text-white hover:bg-blue-500 transition-all font-bold text-xs md:text-sm tracking-wider uppercase shadow-lg shadow-blue-500/50"
+              >
+                ✓ Done
+              </button>
+              <button
+                onClick={() => setStopping(true)}
+                className="px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all font-bold text-xs md:text-sm tracking-wider uppercase shadow-lg shadow-red-500/50"
+              >
+                ⏹ Stop
+              </button>
+            </>
+          )}
+
+          {(stateData.state === 'finished' || stateData.state === 'aborted') && (
+            <button
+              onClick={resetSession}
+              className="px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 bg-blue-600 border-2 border-blue-400 text-white hover:bg-blue-500 transition-all font-bold text-xs md:text-sm tracking-wider uppercase shadow-lg shadow-blue-500/50"
+            >
+              ⟲ Reset
+            </button>
+          )}
+
+          {stateData.state === 'arming' && (
+            <button
+              onClick={cancelArming}
+              className="px-5 md:px-6 lg:px-8 py-2 md:py-2.5 lg:py-3 bg-red-600 border-2 border-red-400 text-white hover:bg-red-500 transition-all font-bold text-xs md:text-sm tracking-wider uppercase shadow-lg shadow-red-500/50"
+            >
+              ✕ Abort
+            </button>
+          )}
+        </div>
+
+        {/* Pause Reason - recorded on the session event log */}
+        {stateData.state === 'paused' && (
+          <div className="relative z-10 flex flex-wrap justify-center items-center gap-2 mt-4 md:mt-6 px-2">
+            <input
+              type="text"
+              list={`pause-reasons-${timer.id}`}
+              value={pauseReason}
+              onChange={(e) => setPauseReasonInput(e.target.value)}
+              onBlur={() => setPauseReason(pauseReason)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') setPauseReason(pauseReason);
+              }}
+              placeholder="Pause reason (optional)"
+              className={`w-64 max-w-full px-3 py-1.5 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-xs md:text-sm ${
+                isDarkMode
+                  ? 'bg-gray-800 border-gray-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-900'
+              }`}
+            />
+            <datalist id={`pause-reasons-${timer.id}`}>
+              {PAUSE_REASONS.map((reason) => (
+                <option key={reason} value={reason} />
+              ))}
+            </datalist>
+          </div>
+        )}
+      </div>
+
+      {/* Content Area - F1 Style */}
+      <div className={`w-full px-3 md:px-4 lg:px-8 pt-4 md:pt-6 ${isDarkMode ? 'bg-black' : 'bg-gray-50'}`}>
+        <div className="max-w-6xl mx-auto">
+          {/* Config Panel - F1 Style */}
+          <div className={`border-2 p-3 md:p-4 lg:p-6 mb-4 md:mb-6 ${
+            isDarkMode 
+              ? 'bg-gray-900 border-gray-700' 
+              : 'bg-white border-gray-300 shadow-lg'
+          }`}>
+            <h2 className={`text-base md:text-lg font-bold mb-3 md:mb-4 tracking-wider uppercase border-b-2 pb-2 ${
+              isDarkMode 
+                ? 'text-white border-gray-700' 
+                : 'text-gray-900 border-gray-300'
+            }`}>Session Configuration</h2>
+        
+            <div className="space-y-4">
+              {/* Activity Type */}
+              <div>
+                <label className={`block text-xs font-bold mb-2 tracking-wide uppercase ${
+                  isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                }`}>
+                  Activity Type
+                </label>
+                <select
+                  value={config.activityType}
+                  onChange={(e) => handleActivityChange(e.target.value)}
+                  disabled={stateData.state !== 'idle'}
+                  className={`w-full px-4 py-2 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:cursor-not-allowed font-mono ${
+                    isDarkMode
+                      ? 'bg-gray-800 border-gray-600 text-white disabled:bg-gray-950 disabled:border-gray-800 disabled:text-gray-600'
+                      : 'bg-white border-gray-300 text-gray-900 disabled:bg-gray-100 disabled:border-gray-200 disabled:text-gray-400'
+                  }`}
+                >
+                  {presets.map((preset) => (
+                    <option key={preset.id} value={preset.name} className={isDarkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'}>
+                      {preset.name}
+                    </option>
+                  ))}
+                  {!activePreset && (
+                    <option value={config.activityType} className={isDarkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'}>
+                      {config.activityType}
+                    </option>
+                  )}
+                </select>
+              </div>
+
+              {/* Session Details */}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {SESSION_DETAIL_FIELDS.map(({ field, label, placeholder }) => (
+                  <div key={field} className={field === 'notes' ? 'sm:col-span-3' : undefined}>
+                    <label className={`block text-xs font-bold mb-2 tracking-wide uppercase ${
+                      isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                    }`}>
+                      {label}
+                    </label>
+                    <input
+                      type="text"
+                      value={config[field] || ''}
+                      onChange={(e) => setConfig({ ...config, [field]: e.target.value })}
+                      placeholder={placeholder}
+                      list={field === 'notes' ? undefined : `${field}-suggestions-${timer.id}`}
+                      maxLength={field === 'notes' ? 500 : 60}
+                      disabled={detailsLocked}
+                      className={`w-full px-4 py-2 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:cursor-not-allowed font-mono ${
+                        isDarkMode
+                          ? 'bg-gray-800 border-gray-600 text-white placeholder-gray-600 disabled:bg-gray-950 disabled:border-gray-800 disabled:text-gray-600'
+                          : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400 disabled:bg-gray-100 disabled:border-gray-200 disabled:text-gray-400'
+                      }`}
+                    />
+                  </div>
+                ))}
+                {INDEXED_DETAIL_FIELDS.map((field) => (
+                  <datalist key={field} id={`${field}-suggestions-${timer.id}`}>
+                    {detailSuggestions[field].map((value) => (
+                      <option key={value} value={value} />
+                    ))}
+                  </datalist>
+                ))}
+              </div>
+
+              {/* Duration */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={`block text-xs font-bold mb-2 tracking-wide uppercase ${
+                    isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                  }`}>
+                    Minutes
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="999"
+                    value={config.targetMinutes === 0 ? '' : config.targetMinutes}
+                    onChange={(e) => {
+                      const val = e.target.value;
+                      // Remove leading zeros and parse
+                      const cleanVal = val.replace(/^0+/, '') || '0';
+                      const numVal = parseInt(cleanVal, 10);
+                      if (!isNaN(numVal) && numVal >= 0 && numVal <= 999) {
+                        setConfig({ ...config, targetMinutes: numVal });
+                      } else if (val === '') {
+                        setConfig({ ...config, targetMinutes: 0 });
+                      }
+                    }}
+                    onBlur={(e) => {
+                      const val = parseInt(e.target.value, 10);
+                      if (isNaN(val) || val < 0) {
+                        setConfig({ ...config, targetMinutes: 0 });
+                      } else if (val > 999) {
+                        setConfig({ ...config, targetMinutes: 999 });
+                      }
+                    }}
+                    disabled={stateData.state !== 'idle'}
+                    className={`w-full px-4 py-2 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:cursor-not-allowed font-mono ${
+                      isDarkMode
+                        ? 'bg-gray-800 border-gray-600 text-white disabled:bg-gray-950 disabled:border-gray-800 disabled:text-gray-600'
+                        : 'bg-white border-gray-300 text-gray-900 disabled:bg-gray-100 disabled:border-gray-200 disabled:text-gray-400'
+                    }`}
+                  />
+                </div>
+                <div>
+                  <label className={`block text-xs font-bold mb-2 tracking-wide uppercase ${
+                    isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                  }`}>
+                    Seconds
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="59"
+                    value={config.targetSeconds === 0 ? '' : config.targetSeconds}
+                    onChange={(e) => {
+                      const val = e.target.value;
+                      // Remove leading zeros and parse
+                      const cleanVal = val.replace(/^0+/, '') || '0';
+                      const numVal = parseInt(cleanVal, 10);
+                      if (!isNaN(numVal) && numVal >= 0 && numVal <= 59) {
+                        setConfig({ ...config, targetSeconds: numVal });
+                      } else if (val === '') {
+                        setConfig({ ...config, targetSeconds: 0 });
+                      }
+                    }}
+                    onBlur={(e) => {
+                      const val = parseInt(e.target.value, 10);
+                      if (isNaN(val) || val < 0) {
+                        setConfig({ ...config, targetSeconds: 0 });
+                      } else if (val > 59) {
+                        setConfig({ ...config, targetSeconds: 59 });
+                      }
+                    }}
+                    disabled={stateData.state !== 'idle'}
+                    className={`w-full px-4 py-2 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:cursor-not-allowed font-mono ${
+                      isDarkMode
+                        ? 'bg-gray-800 border-gray-600 text-white disabled:bg-gray-950 disabled:border-gray-800 disabled:text-gray-600'
+                        : 'bg-white border-gray-300 text-gray-900 disabled:bg-gray-100 disabled:border-gray-200 disabled:text-gray-400'
+                    }`}
+                  />
+                </div>
+              </div>
+
+              {/* Warning Checkpoints */}
+              <div>
+                <label className={`block text-xs font-bold mb-2 tracking-wide uppercase ${
+                  isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                }`}>
+                  Warnings
+                </label>
+                <CheckpointEditor
+                  checkpoints={config.checkpoints}
+                  isDarkMode={isDarkMode}
+                  disabled={stateData.state !== 'idle'}
+                  onChange={(checkpoints) => setConfig({ ...config, checkpoints })}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
@@ -0,0 +1,134 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import ConfirmBar from '@/components/ConfirmBar';
+import { formatDateTime } from '@/utils/format';
+import { emptyTrash, getTrash, restoreSessions, type TrashEntry } from '@/utils/storage';
+
+const REMOVED_BY_LABELS: Record<TrashEntry['action'], string> = {
+  clear: 'Clear',
+  delete: 'Deleted',
+  import: 'Replaced by import',
+};
+
+interface TrashPanelProps {
+  isDarkMode: boolean;
+  onRestored: () => void;
+}
+
+/**
+ * Deleted, cleared and import-overwritten sessions: restore them or
+ * delete them for good
+ */
+export default function TrashPanel({ isDarkMode, onRestored }: TrashPanelProps) {
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [confirmingEmpty, setConfirmingEmpty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(() => {
+    getTrash().then(setEntries);
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const restore = async (ids: string[]) => {
+    try {
+      await restoreSessions(ids);
+    } catch (err) {
+      setError(`Restore failed: ${err instanceof Error ? err.message : 'Unknown storage error'}`);
+      return;
+    }
+    setError(null);
+    loadTrash();
+    onRestored();
+  };
+
+  const handleEmpty = async () => {
+    setConfirmingEmpty(false);
+    try {
+      await emptyTrash();
+    } catch (err) {
+      setError(`Emptying the trash failed: ${err instanceof Error ? err.message : 'Unknown storage error'}`);
+      return;
+    }
+    setError(null);
+    loadTrash();
+  };
+
+  const textMuted = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const buttonBase = 'px-3 md:px-4 py-1.5 md:py-2 border-2 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase disabled:opacity-50 disabled:cursor-not-allowed';
+  const thClassName = `text-left py-2 px-1 md:px-2 font-bold tracking-wider uppercase ${textMuted}`;
+
+  return (
+    <div className={`border-2 p-3 md:p-4 mb-3 md:mb-4 text-xs md:text-sm font-mono ${isDarkMode ? 'border-gray-700 bg-gray-950' : 'border-gray-300 bg-gray-50'}`}>
+      {confirmingEmpty && (
+        <ConfirmBar
+          message={`Permanently delete ${entries.length} session(s) in the trash? This cannot be undone.`}
+          confirmLabel="Delete Forever"
+          isDarkMode={isDarkMode}
+          onConfirm={handleEmpty}
+          onCancel={() => setConfirmingEmpty(false)}
+        />
+      )}
+
+      {error && <p className="mb-3 text-red-500 font-bold">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <span className={`mr-2 ${textMuted}`}>{entries.length} session(s) in trash</span>
+        <button
+          onClick={() => restore(entries.map((entry) => entry.id))}
+          disabled={entries.length === 0}
+          className={`${buttonBase} bg-blue-600 border-blue-400 text-white hover:bg-blue-500 shadow-lg shadow-blue-500/50`}
+        >
+          ↶ Restore All
+        </button>
+        <button
+          onClick={() => setConfirmingEmpty(true)}
+          disabled={entries.length === 0}
+          className={`${buttonBase} bg-red-600 border-red-400 text-white hover:bg-red-500 shadow-lg shadow-red-500/50`}
+        >
+          Empty Trash
+        </button>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="overflow-x-auto max-h-80 overflow-y-auto">
+          <table className="w-full text-[10px] md:text-xs">
+            <thead>
+              <tr className={`border-b-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-300'}`}>
+                <th className={thClassName}>Session</th>
+                <th className={thClassName}>Bay</th>
+                <th className={thClassName}>Activity</th>
+                <th className={thClassName}>Removed</th>
+                <th className={thClassName}>Reason</th>
+                <th className={thClassName}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.id} className={`border-b ${isDarkMode ? 'border-gray-800 text-gray-300' : 'border-gray-200 text-gray-700'}`}>
+                  <td className="py-2 px-1 md:px-2 whitespace-nowrap">{formatDateTime(entry.session.startAt)}</td>
+                  <td className="py-2 px-1 md:px-2">{entry.session.timerName || '-'}</td>
+                  <td className={`py-2 px-1 md:px-2 font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{entry.session.activityType}</td>
+                  <td className="py-2 px-1 md:px-2 whitespace-nowrap">{formatDateTime(entry.deletedAt)}</td>
+                  <td className="py-2 px-1 md:px-2">{REMOVED_BY_LABELS[entry.action]}</td>
+                  <td className="py-2 px-1 md:px-2 text-right">
+                    <button
+                      onClick={() => restore([entry.id])}
+                      className="px-2 py-1 bg-blue-600 border-2 border-blue-400 text-white hover:bg-blue-500 transition-all font-bold text-xs"
+                      title="Restore"
+                    >
+                      ↶
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
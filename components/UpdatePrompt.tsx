@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { applyUpdate, subscribeUpdateStatus, type UpdateStatus } from '@/utils/serviceWorker';
+import { hasActiveSession } from '@/utils/storage';
+
+interface UpdatePromptProps {
+  isDarkMode: boolean;
+}
+
+const ACTIVE_CHECK_INTERVAL = 1000;
+
+/**
+ * "New version available" bar. Reloading is held back while any bay has a
+ * session arming, running or paused, so an update never interrupts a timer.
+ */
+export default function UpdatePrompt({ isDarkMode }: UpdatePromptProps) {
+  const [status, setStatus] = useState<UpdateStatus>('none');
+  const [sessionActive, setSessionActive] = useState(false);
+
+  useEffect(() => subscribeUpdateStatus(setStatus), []);
+
+  useEffect(() => {
+    if (status === 'none') return;
+    const check = () => setSessionActive(hasActiveSession());
+    check();
+    const interval = setInterval(check, ACTIVE_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  if (status === 'none') return null;
+
+  const handleUpdate = () => {
+    // Checked again at click time: another tab may have started a session
+    if (hasActiveSession()) {
+      setSessionActive(true);
+      return;
+    }
+    applyUpdate();
+  };
+
+  return (
+    <div className={`fixed bottom-0 inset-x-0 z-40 border-t-2 px-3 md:px-4 lg:px-8 py-2 md:py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 ${
+      isDarkMode ? 'bg-gray-900 border-blue-500' : 'bg-white border-blue-500 shadow-lg'
+    }`}>
+      <p className={`font-mono text-xs md:text-sm ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+        {status === 'available' ? 'A new version is available.' : 'The app was updated in another tab.'}
+        {sessionActive && (
+          <span className={`block text-[10px] md:text-xs ${isDarkMode ? 'text-yellow-400' : 'text-yellow-700'}`}>
+            Finish or stop the running/paused session to update.
+          </span>
+        )}
+      </p>
+      <button
+        onClick={handleUpdate}
+        disabled={sessionActive}
+        className="self-start sm:self-auto px-3 md:px-4 py-1.5 md:py-2 bg-blue-600 border-2 border-blue-400 text-white hover:bg-blue-500 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase shadow-lg shadow-blue-500/50 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+      >
+        ⟳ {status === 'available' ? 'Update' : 'Reload'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  ANNOUNCEMENT_EVENTS,
+  DEFAULT_SPEECH_TEMPLATES,
+  SPEECH_LANGUAGES,
+  getSpeechSettings,
+  isSpeechSupported,
+  renderAnnouncement,
+  saveSpeechSettings,
+  speak,
+  type AnnouncementEvent,
+  type AnnouncementValues,
+  type SpeechLanguage,
+  type SpeechSettings,
+} from '@/utils/speech';
+
+interface VoiceSettingsProps {
+  isDarkMode: boolean;
+}
+
+const SAMPLE_VALUES: AnnouncementValues = {
+  bay: 'Bay 2',
+  activity: 'Repair',
+  remainingMs: 2 * 60 * 1000,
+  overdueMs: 5 * 60 * 1000,
+  label: '2 min',
+  count: 3,
+};
+
+/**
+ * Spoken announcements: on/off, language, rate and the template per event
+ */
+export default function VoiceSettings({ isDarkMode }: VoiceSettingsProps) {
+  const [settings, setSettings] = useState<SpeechSettings | null>(null);
+  const [supported, setSupported] = useState(true);
+
+  useEffect(() => {
+    setSettings(getSpeechSettings());
+    setSupported(isSpeechSupported());
+  }, []);
+
+  if (!settings) return null;
+
+  const templates = settings.templates[settings.language];
+
+  const update = (changes: Partial<SpeechSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveSpeechSettings(next);
+  };
+
+  const updateTemplate = (event: AnnouncementEvent, template: string) => {
+    update({ templates: { ...settings.templates, [settings.language]: { ...templates, [event]: template } } });
+  };
+
+  const resetTemplates = () => {
+    update({ templates: { ...settings.templates, [settings.language]: DEFAULT_SPEECH_TEMPLATES[settings.language] } });
+  };
+
+  const inputClassName = `w-full px-2 py-1 border-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-xs ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const labelClassName = `block text-[10px] md:text-xs font-bold tracking-wider uppercase mb-1 ${
+    isDarkMode ? 'text-gray-400' : 'text-gray-600'
+  }`;
+  const thClassName = `text-left py-2 px-1 md:px-2 font-bold tracking-wider uppercase ${
+    isDarkMode ? 'text-gray-400' : 'text-gray-600'
+  }`;
+  const hintClassName = `text-[10px] md:text-xs font-mono ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`;
+
+  if (!supported) {
+    return <p className={hintClassName}>Speech synthesis is not supported in this browser.</p>;
+  }
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 md:gap-4 items-end mb-3">
+        <div>
+          <span className={labelClassName}>Announcements</span>
+          <button
+            onClick={() => update({ enabled: !settings.enabled })}
+            className={`px-3 md:px-4 py-1.5 md:py-2 border-2 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase ${
+              settings.enabled
+                ? 'bg-blue-600 border-blue-400 text-white shadow-lg shadow-blue-500/50'
+                : isDarkMode
+                  ? 'bg-gray-800 border-gray-600 text-gray-400 hover:bg-gray-700'
+                  : 'bg-gray-100 border-gray-300 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {settings.enabled ? '🗣 On' : '🗣 Off'}
+          </button>
+        </div>
+        <div>
+          <label className={labelClassName}>Language</label>
+          <select
+            value={settings.language}
+            onChange={(e) => update({ language: e.target.value as SpeechLanguage })}
+            className={inputClassName}
+          >
+            {SPEECH_LANGUAGES.map((language) => (
+              <option key={language.id} value={language.id}>{language.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClassName}>Rate ({settings.rate.toFixed(1)}x)</label>
+          <input
+            type="range"
+            min="5"
+            max="20"
+            value={Math.round(settings.rate * 10)}
+            onChange={(e) => update({ rate: parseInt(e.target.value, 10) / 10 })}
+            className="w-full accent-blue-500"
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto -mx-3 md:mx-0">
+        <table className="w-full text-[10px] md:text-xs font-mono">
+          <thead>
+            <tr className={`border-b-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-300'}`}>
+              <th className={thClassName}>Event</th>
+              <th className={thClassName}>Template</th>
+              <th className={thClassName}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {ANNOUNCEMENT_EVENTS.map(({ event, label }) => (
+              <tr key={event} className={`border-b ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}>
+                <td className={`py-2 px-1 md:px-2 whitespace-nowrap ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{label}</td>
+                <td className="py-2 px-1 md:px-2 min-w-[200px]">
+                  <input
+                    type="text"
+                    value={templates[event]}
+                    onChange={(e) => updateTemplate(event, e.target.value)}
+                    className={inputClassName}
+                  />
+                </td>
+                <td className="py-2 px-1 md:px-2 text-right">
+                  <button
+                    onClick={() => speak(renderAnnouncement(templates[event], SAMPLE_VALUES, settings.language))}
+                    className="px-2 py-1 bg-blue-600 border-2 border-blue-400 text-white hover:bg-blue-500 transition-all font-bold text-xs"
+                    title="Preview"
+                  >
+                    ▶
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className={`mt-2 ${hintClassName}`}>
+        Placeholders: {'{bay}'} {'{activity}'} {'{remaining}'} {'{overdue}'} {'{label}'} {'{count}'}. Leave a template empty to skip that event.
+        Announcements wait until the beep pattern ends and are never spoken over each other.
+      </p>
+
+      <button
+        onClick={resetTemplates}
+        className={`mt-3 px-3 md:px-4 py-1.5 md:py-2 border-2 transition-all text-[10px] md:text-xs font-bold tracking-wider uppercase ${
+          isDarkMode
+            ? 'bg-gray-800 border-gray-600 text-white hover:bg-gray-700'
+            : 'bg-gray-100 border-gray-300 text-gray-900 hover:bg-gray-200'
+        }`}
+      >
+        ↺ Reset Templates
+      </button>
+    </div>
+  );
+}
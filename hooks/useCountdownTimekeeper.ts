@@ -1,454 +1,640 @@
 /**
  * Custom hook for countdown timekeeper with state machine
  * State: idle -> arming -> running -> paused -> finished/aborted
+ *
+ * Transition logic lives in `utils/timerMachine`; this hook owns the
+ * intervals, audio, persistence and session history around it.
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { saveSession, getState, saveState, clearState, generateId, getLastSessions, clearSessions, type Session } from '@/utils/storage';
-import { 
-  beepOnce, 
-  beepDouble, 
-  beepWarningTriple, 
-  beepFinishAlarm, 
-  beepAbortLow,
-  initAudioContext 
-} from '@/utils/audio';
-
-export type TimekeeperState = 'idle' | 'arming' | 'running' | 'paused' | 'finished' | 'aborted';
-
-const ARMING_DURATION = 3000; // 3 seconds
+import {
+  saveSession,
+  getState,
+  saveState,
+  generateId,
+  PERSISTED_STATE_VERSION,
+  type Session,
+  type SessionEvent,
+  type PersistedState,
+  type TimekeeperConfig,
+  type TimerSlot,
+} from '@/utils/storage';
+import { playSoundEvent } from '@/utils/sounds';
+import { announce, type AnnouncementEvent, type AnnouncementValues } from '@/utils/speech';
+import { notifyTimerEvent, subscribeNotificationActions, type TimerNotificationKind } from '@/utils/notifications';
+import { formatOverdue, formatTime } from '@/utils/format';
+import {
+  checkpointsFromMinutes,
+  getCheckpointThresholdMs,
+  sortCheckpoints,
+  type WarningCheckpoint,
+} from '@/utils/checkpoints';
+import { sortEscalationSteps, type EscalationStep } from '@/utils/escalation';
+import { getStopReasonLabel, type SessionOutcome, type StopReasonCode } from '@/utils/outcome';
+import { pickSessionDetails } from '@/utils/sessionDetails';
+import { getDevice, pushTimerState } from '@/utils/syncClient';
+import {
+  claimLeadership,
+  isLeaderTab,
+  joinTabSync,
+  postSyncMessage,
+  subscribeLeadership,
+  subscribeSyncMessages,
+  type TimerCommand,
+} from '@/utils/tabSync';
+import {
+  createTimerEngine,
+  createInitialContext,
+  getDisplayContext,
+  getRemainingMs,
+  type CompletedRun,
+  type MachineContext,
+  type MachineEffect,
+  type TimekeeperState,
+  type TimerEngine,
+} from '@/utils/timerMachine';
+
+export type { TimekeeperState } from '@/utils/timerMachine';
+export type { TimekeeperConfig } from '@/utils/storage';
+
 const TICK_INTERVAL = 16; // ~60fps for smooth millisecond display
 const PERSIST_INTERVAL = 250; // 250ms for state persistence (less frequent)
-const STORAGE_KEY_PREFIX = 'timekeeper_';
-
-interface TimekeeperConfig {
-  activityType: string;
-  targetMinutes: number;
-  targetSeconds: number;
-  warningThresholdMinutes: number;
-}
+const PAUSED_HEARTBEAT_INTERVAL = 10 * 1000; // Keeps a paused bay live on monitors
 
-interface TimekeeperStateData {
+export interface TimekeeperStateData {
   state: TimekeeperState;
   remainingMs: number;
   armingCountdown: number;
   isWarning: boolean;
+  activeCheckpoint: WarningCheckpoint | null; // Most recently fired checkpoint
+  escalation: EscalationStep | null; // Latest escalation step reached while overdue
+  showBanner: boolean; // Full-screen overdue banner (until dismissed)
   mute: boolean;
+  isLeader: boolean; // This tab drives the timer; otherwise it mirrors another tab
 }
 
-export function useCountdownTimekeeper() {
-  const [config, setConfig] = useState<TimekeeperConfig>({
+interface TimekeeperOptions {
+  timer: TimerSlot;
+  audioEnabled: boolean;
+  onSessionSaved?: (session: Session) => void;
+  defaultConfig?: Partial<TimekeeperConfig>;
+  escalationSteps?: EscalationStep[];
+}
+
+export function useCountdownTimekeeper({
+  timer,
+  audioEnabled,
+  onSessionSaved,
+  defaultConfig,
+  escalationSteps = [],
+}: TimekeeperOptions) {
+  const [config, setConfig] = useState<TimekeeperConfig>(() => ({
     activityType: 'Loading',
     targetMinutes: 5,
     targetSeconds: 0,
-    warningThresholdMinutes: 2,
-  });
+    checkpoints: checkpointsFromMinutes(2),
+    soundProfile: 'standard',
+    ...defaultConfig,
+  }));
 
   const [stateData, setStateData] = useState<TimekeeperStateData>({
     state: 'idle',
     remainingMs: 0,
     armingCountdown: 0,
     isWarning: false,
+    activeCheckpoint: null,
+    escalation: null,
+    showBanner: false,
     mute: false,
+    isLeader: false,
   });
 
-  const [sessions, setSessions] = useState<Session[]>([]);
-  const [audioEnabled, setAudioEnabled] = useState(false);
-
-  // Refs for timer management
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const persistIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const startTimestampRef = useRef<number | null>(null);
-  const pausedAtRef = useRef<number | null>(null);
-  const accumulatedPausedMsRef = useRef<number>(0);
-  const armingStartTimestampRef = useRef<number | null>(null);
-  const warningTriggeredRef = useRef<boolean>(false);
+  // Message for a finished session that could not be written to history
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Timer engine and the latest values read from inside its effects
+  const engineRef = useRef<TimerEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = createTimerEngine();
+  }
   const sessionIdRef = useRef<string | null>(null);
-  const lastCountdownRef = useRef<number | null>(null);
-  const finishAlarmTriggeredRef = useRef<boolean>(false);
+  const eventsRef = useRef<SessionEvent[]>([]);
+  const checkpointsRef = useRef<WarningCheckpoint[]>([]); // Current session, in firing order
+  const sessionEscalationsRef = useRef<EscalationStep[]>([]); // Current session, by afterMs
+  const stopReasonRef = useRef<StopReasonCode | undefined>(undefined);
+  const pauseReasonRef = useRef<string | undefined>(undefined);
+  const leaderRef = useRef(false);
+  const timerRef = useRef(timer);
+  const configRef = useRef(config);
+  const muteRef = useRef(stateData.mute);
+  const audioEnabledRef = useRef(audioEnabled);
+  const onSessionSavedRef = useRef(onSessionSaved);
+  const escalationStepsRef = useRef(escalationSteps);
+
+  timerRef.current = timer;
+  configRef.current = config;
+  muteRef.current = stateData.mute;
+  audioEnabledRef.current = audioEnabled;
+  onSessionSavedRef.current = onSessionSaved;
+  escalationStepsRef.current = escalationSteps;
+
+  // Save current engine state and config to localStorage (in every state)
+  // and share it with the other tabs. Only the leader tab writes.
+  const persistState = useCallback(() => {
+    if (!leaderRef.current) return;
+    const context = engineRef.current!.getContext();
+
+    const state: PersistedState = {
+      version: PERSISTED_STATE_VERSION,
+      state: context.state,
+      config: configRef.current,
+      targetDurationMs: context.targetDurationMs,
+      remainingMs: context.remainingMs,
+      startTimestamp: context.startTimestamp,
+      pausedAt: context.pausedAt,
+      accumulatedPausedMs: context.accumulatedPausedMs,
+      armingStartTimestamp: context.armingStartTimestamp,
+      checkpoints: checkpointsRef.current,
+      warningsFired: context.warningsFired,
+      escalationSteps: sessionEscalationsRef.current,
+      escalationsFired: context.escalationsFired,
+      targetReached: context.finishAlarmTriggered,
+      mute: muteRef.current,
+      events: eventsRef.current,
+      sessionId: sessionIdRef.current ?? undefined,
+    };
+    saveState(timerRef.current.id, state);
+    postSyncMessage({ type: 'state', timerId: timerRef.current.id, state });
+    pushTimerState(timerRef.current, state);
+  }, []);
 
-  // Calculate target duration in milliseconds
-  const targetDurationMs = config.targetMinutes * 60 * 1000 + config.targetSeconds * 1000;
-  const warningThresholdMs = config.warningThresholdMinutes * 60 * 1000;
+  // Record a completed run to history
+  const recordSession = useCallback((run: CompletedRun | null, outcome: SessionOutcome, stopReason?: StopReasonCode) => {
+    if (!run || !sessionIdRef.current) return;
+
+    const device = getDevice();
+    const session: Session = {
+      id: sessionIdRef.current,
+      activityType: configRef.current.activityType,
+      ...pickSessionDetails(configRef.current),
+      targetDurationMs: run.targetDurationMs,
+      startAt: run.startAt,
+      endAt: run.endAt,
+      status: outcome === 'on_time' || outcome === 'late' ? 'finished' : 'aborted',
+      outcome,
+      stopReason,
+      effectiveDurationMs: run.effectiveDurationMs,
+      overdueMs: run.overdueMs,
+      pausedMs: run.pausedMs,
+      events: eventsRef.current,
+      timerId: timerRef.current.id,
+      timerName: timerRef.current.name,
+      deviceId: device.id,
+      deviceName: device.name,
+    };
 
-  // Load state from localStorage on mount
-  useEffect(() => {
-    const savedState = getState();
-    if (savedState && savedState.state !== 'idle') {
-      // Restore state
-      setConfig(prev => ({
-        ...prev,
-        activityType: savedState.activityType || prev.activityType,
-      }));
-      
-      setStateData(prev => ({
-        ...prev,
-        state: savedState.state as TimekeeperState,
-        mute: savedState.mute || false,
-      }));
+    saveSession(session)
+      .then(() => {
+        setSaveError(null);
+        onSessionSavedRef.current?.(session);
+        postSyncMessage({ type: 'session', timerId: timerRef.current.id, session });
+      })
+      .catch((error) => {
+        const reason = error instanceof Error ? error.message : 'Unknown storage error';
+        setSaveError(`${session.activityType} (${timerRef.current.name}) was not saved to history: ${reason}`);
+      });
+  }, []);
+
+  // Append an entry to the current session's event log
+  const logEvent = useCallback((event: SessionEvent) => {
+    eventsRef.current = [...eventsRef.current, event];
+  }, []);
 
-      startTimestampRef.current = savedState.startTimestamp;
-      pausedAtRef.current = savedState.pausedAt;
-      accumulatedPausedMsRef.current = savedState.accumulatedPausedMs || 0;
-      armingStartTimestampRef.current = savedState.armingStartTimestamp;
-      warningTriggeredRef.current = savedState.warningTriggered || false;
-
-      // Resume timer if needed
-      if (savedState.state === 'running') {
-        if (startTimestampRef.current) {
-          const now = Date.now();
-          const elapsed = now - startTimestampRef.current - accumulatedPausedMsRef.current;
-          const remaining = savedState.targetDurationMs - elapsed;
-
-          if (remaining <= 0) {
-            // Already finished
-            finishSession();
-          } else {
-            startTimer(savedState.targetDurationMs);
+  // Side effects (sound, history, persistence) requested by the engine
+  const handleEffects = useCallback((effects: MachineEffect[]) => {
+    const soundOn = !muteRef.current && audioEnabledRef.current;
+    const profile = configRef.current.soundProfile;
+    // Checkpoints crossed together (e.g. after a reload) only sound once
+    const lastWarning = effects.filter((effect) => effect.type === 'WARNING').pop();
+    const lastEscalation = effects.filter((effect) => effect.type === 'ESCALATION').pop();
+    const say = (event: AnnouncementEvent, values: Partial<AnnouncementValues> = {}) => {
+      if (soundOn) announce(event, { bay: timerRef.current.name, activity: configRef.current.activityType, ...values });
+    };
+    const notify = (kind: TimerNotificationKind, title: string, body: string) => {
+      notifyTimerEvent({
+        kind,
+        timerId: timerRef.current.id,
+        title: `${timerRef.current.name}: ${title}`,
+        body: `${configRef.current.activityType} · ${body}`,
+      });
+    };
+
+    effects.forEach((effect) => {
+      switch (effect.type) {
+        case 'ARMING_STARTED':
+          sessionIdRef.current = generateId();
+          eventsRef.current = [{ type: 'arming', at: effect.at }];
+          break;
+        case 'ARMING_COUNTDOWN':
+          // Play beep when countdown changes (3, 2, 1)
+          if (effect.countdown > 0 && soundOn) playSoundEvent('countdown', profile);
+          if (effect.countdown > 0) say('countdown', { count: effect.countdown });
+          break;
+        case 'RUNNING_STARTED':
+          logEvent({ type: 'running', at: effect.at });
+          if (soundOn) playSoundEvent('start', profile);
+          say('start');
+          break;
+        case 'WARNING': {
+          const checkpoint = checkpointsRef.current[effect.index];
+          logEvent({ type: 'warning', at: effect.at, label: checkpoint?.label });
+          if (soundOn && effect === lastWarning) playSoundEvent('warning', profile, checkpoint?.sound);
+          if (effect === lastWarning) {
+            const remainingMs = engineRef.current!.getContext().remainingMs;
+            say('warning', { remainingMs, label: checkpoint?.label });
+            notify('warning', checkpoint?.label ?? 'Warning', `${formatTime(remainingMs)} left`);
           }
+          break;
         }
-      } else if (savedState.state === 'arming') {
-        if (armingStartTimestampRef.current) {
-          const elapsed = Date.now() - armingStartTimestampRef.current;
-          const remaining = ARMING_DURATION - elapsed;
-          
-          if (remaining <= 0) {
-            transitionToRunning(savedState.targetDurationMs);
-          } else {
-            startArmingTimer(savedState.targetDurationMs);
+        case 'TARGET_REACHED':
+          logEvent({ type: 'target_reached', at: effect.at });
+          if (soundOn) playSoundEvent('target_reached', profile);
+          say('target_reached');
+          notify('finish', 'Time is up', 'Target reached');
+          break;
+        case 'ESCALATION': {
+          const step = sessionEscalationsRef.current[effect.index];
+          if (!step) break;
+          logEvent({ type: 'escalation', at: effect.at, label: step.label });
+          if (step.action === 'banner') {
+            setStateData(prev => ({ ...prev, showBanner: true }));
           }
+          if (soundOn && effect === lastEscalation) {
+            if (step.action === 'reminder') playSoundEvent('reminder', profile);
+            else playSoundEvent('loud_alarm', 'loud');
+          }
+          if (effect === lastEscalation) {
+            say('overdue', { overdueMs: effect.overdueMs, label: step.label });
+            notify('overdue', step.label, `Overdue ${formatOverdue(effect.overdueMs)}`);
+          }
+          break;
+        }
+        case 'PAUSED':
+          logEvent({ type: 'pause', at: effect.at, reason: pauseReasonRef.current });
+          pauseReasonRef.current = undefined;
+          break;
+        case 'RESUMED':
+          logEvent({ type: 'resume', at: effect.at });
+          break;
+        case 'FINISHED':
+          logEvent({ type: 'finished', at: effect.at });
+          recordSession(effect.run, effect.run?.overdueMs ? 'late' : 'on_time');
+          if (soundOn) playSoundEvent('finish', profile);
+          say('finish');
+          sessionIdRef.current = null;
+          eventsRef.current = [];
+          break;
+        case 'ABORTED': {
+          const stopReason = effect.from === 'arming' ? undefined : stopReasonRef.current;
+          logEvent({ type: 'aborted', at: effect.at, reason: stopReason && getStopReasonLabel(stopReason) });
+          recordSession(effect.run, effect.from === 'arming' ? 'aborted_arming' : 'stopped_early', stopReason);
+          stopReasonRef.current = undefined;
+          if (soundOn) playSoundEvent('abort', profile);
+          say('abort');
+          if (effect.from !== 'arming') notify('abort', 'Stopped', stopReason ? getStopReasonLabel(stopReason) : 'Session stopped');
+          sessionIdRef.current = null;
+          eventsRef.current = [];
+          break;
         }
-      } else if (savedState.state === 'paused') {
-        // Keep paused state, don't start timer
+        case 'RESET':
+          sessionIdRef.current = null;
+          eventsRef.current = [];
+          break;
       }
+    });
+  }, [recordSession, logEvent]);
+
+  // Mirror engine context into React state and run its effects
+  useEffect(() => {
+    const engine = engineRef.current!;
+
+    const unsubscribe = engine.subscribe((context: MachineContext, effects: MachineEffect[]) => {
+      // Steps are ordered by afterMs, so the last one fired is the most severe
+      const firedIndex = context.escalationsFired.reduce((latest, count, index) => (count > 0 ? index : latest), -1);
+      const escalation = sessionEscalationsRef.current[firedIndex] ?? null;
+
+      setStateData(prev => ({
+        ...prev,
+        state: context.state,
+        remainingMs: context.remainingMs,
+        armingCountdown: context.armingCountdown,
+        isWarning: context.warningsFired.length > 0,
+        activeCheckpoint: context.warningsFired.length > 0
+          ? checkpointsRef.current[context.warningsFired[context.warningsFired.length - 1]] ?? null
+          : null,
+        escalation,
+        showBanner: escalation ? prev.showBanner : false,
+      }));
+      // Mirroring tabs only display; the leader plays sounds and records
+      if (leaderRef.current && effects.length > 0) {
+        handleEffects(effects);
+        persistState();
+      }
+    });
+
+    return unsubscribe;
+  }, [handleEffects, persistState]);
+
+  // Load a saved or broadcast state into the engine and the form
+  const applyState = useCallback((saved: PersistedState) => {
+    const engine = engineRef.current!;
+    const previousFired = saved.sessionId && saved.sessionId === sessionIdRef.current
+      ? engine.getContext().escalationsFired
+      : [];
+
+    // Read by persists that run before the re-render lands
+    configRef.current = saved.config;
+    muteRef.current = saved.mute;
+    setConfig(saved.config);
+    setStateData(prev => ({ ...prev, mute: saved.mute }));
+    checkpointsRef.current = saved.checkpoints;
+    sessionEscalationsRef.current = saved.escalationSteps;
+    eventsRef.current = saved.events;
+
+    // Idle, finished and aborted screens only need the values they display
+    if (saved.state === 'idle' || saved.state === 'finished' || saved.state === 'aborted') {
+      sessionIdRef.current = null;
+      engine.restore({
+        ...createInitialContext(),
+        state: saved.state,
+        targetDurationMs: saved.targetDurationMs,
+        remainingMs: saved.remainingMs,
+      });
+      return;
     }
 
-    // Load sessions
-    loadSessions();
+    const restored: MachineContext = {
+      ...createInitialContext(),
+      state: saved.state,
+      targetDurationMs: saved.targetDurationMs,
+      warningThresholdsMs: saved.checkpoints.map((checkpoint) => getCheckpointThresholdMs(checkpoint, saved.targetDurationMs)),
+      startTimestamp: saved.startTimestamp,
+      pausedAt: saved.pausedAt,
+      accumulatedPausedMs: saved.accumulatedPausedMs,
+      armingStartTimestamp: saved.armingStartTimestamp,
+      // Fired checkpoints stay fired; ones crossed while closed fire on the next tick
+      warningsFired: saved.warningsFired,
+      finishAlarmTriggered: saved.targetReached,
+      escalations: saved.escalationSteps.map(({ afterMs, repeatMs }) => ({ afterMs, repeatMs })),
+      escalationsFired: saved.escalationsFired,
+    };
+    sessionIdRef.current = saved.sessionId || generateId();
+    // Paused sessions keep their frozen remaining time (pausedAt caps elapsed)
+    engine.restore(getDisplayContext(restored, Date.now()));
+
+    // Raise the overdue banner for banner steps fired since the last known state
+    const bannerFired = saved.escalationSteps.some((step, index) =>
+      step.action === 'banner' && (restored.escalationsFired[index] || 0) > (previousFired[index] || 0)
+    );
+    if (bannerFired) {
+      setStateData(prev => ({ ...prev, showBanner: true }));
+    }
+    // A session that went overdue while the page was closed keeps counting;
+    // target-reached and due escalations fire on the next tick
   }, []);
 
-  // Load sessions from storage
-  const loadSessions = useCallback(() => {
-    setSessions(getLastSessions(10));
-  }, []);
+  // Join leader election; a tab that takes over re-shares what it mirrored
+  useEffect(() => {
+    const leave = joinTabSync();
+    const updateLeader = (leader: boolean) => {
+      leaderRef.current = leader;
+      setStateData(prev => ({ ...prev, isLeader: leader }));
+    };
+    updateLeader(isLeaderTab());
 
-  // Save current state to localStorage
-  const persistState = useCallback((currentState: TimekeeperState) => {
-    const stateToSave = {
-      state: currentState,
-      activityType: config.activityType,
-      targetDurationMs,
-      startTimestamp: startTimestampRef.current,
-      pausedAt: pausedAtRef.current,
-      accumulatedPausedMs: accumulatedPausedMsRef.current,
-      armingStartTimestamp: armingStartTimestampRef.current,
-      warningTriggered: warningTriggeredRef.current,
-      mute: stateData.mute,
+    const unsubscribe = subscribeLeadership((leader) => {
+      updateLeader(leader);
+      if (leader) persistState();
+    });
+    return () => {
+      unsubscribe();
+      leave();
     };
-    saveState(stateToSave);
-  }, [config.activityType, targetDurationMs, stateData.mute]);
-
-  // Cleanup timer
-  const clearTimer = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
-    if (persistIntervalRef.current) {
-      clearInterval(persistIntervalRef.current);
-      persistIntervalRef.current = null;
-    }
+  }, [persistState]);
+
+  // Load state from localStorage on mount
+  useEffect(() => {
+    const savedState = getState(timer.id);
+    if (savedState) applyState(savedState);
   }, []);
 
-  // Start arming countdown (3..2..1)
-  const startArmingTimer = useCallback((duration: number) => {
-    clearTimer();
-    armingStartTimestampRef.current = Date.now();
-    warningTriggeredRef.current = false;
-    finishAlarmTriggeredRef.current = false;
-    lastCountdownRef.current = null;
-
-    intervalRef.current = setInterval(() => {
-      const now = Date.now();
-      const elapsed = now - (armingStartTimestampRef.current || now);
-      const remaining = ARMING_DURATION - elapsed;
-      const countdown = Math.ceil(remaining / 1000);
-
-      // Play beep when countdown changes (3, 2, 1)
-      if (countdown > 0 && countdown !== lastCountdownRef.current && !stateData.mute && audioEnabled) {
-        beepOnce();
-        lastCountdownRef.current = countdown;
-      }
+  // Persist config edits (target, checkpoints, sound) so the form survives a reload
+  useEffect(() => {
+    persistState();
+  }, [config, persistState]);
 
-      if (remaining <= 0) {
-        clearTimer();
-        transitionToRunning(duration);
-      } else {
-        setStateData(prev => ({
-          ...prev,
-          armingCountdown: Math.max(0, countdown),
-        }));
+  // Drive the engine clock while arming or running
+  useEffect(() => {
+    if (stateData.state !== 'arming' && stateData.state !== 'running') return;
+
+    const engine = engineRef.current!;
+    // High frequency interval for smooth display (~60fps); mirroring tabs
+    // never fire thresholds themselves
+    const tickInterval = setInterval(() => {
+      if (leaderRef.current) engine.tick();
+      else engine.restore(getDisplayContext(engine.getContext(), Date.now()));
+    }, TICK_INTERVAL);
+    // Lower frequency interval for state persistence
+    const persistInterval = setInterval(persistState, PERSIST_INTERVAL);
+
+    return () => {
+      clearInterval(tickInterval);
+      clearInterval(persistInterval);
+    };
+  }, [stateData.state, persistState]);
+
+  // A paused clock has nothing to tick, but monitors still need a sign of life
+  useEffect(() => {
+    if (stateData.state !== 'paused') return;
+
+    const heartbeatInterval = setInterval(persistState, PAUSED_HEARTBEAT_INTERVAL);
+    return () => clearInterval(heartbeatInterval);
+  }, [stateData.state, persistState]);
+
+  // Persist on every state change while a session is active
+  useEffect(() => {
+    persistState();
+  }, [stateData.state, persistState]);
+
+  // Run a command on this tab's engine (leader only)
+  const runCommand = useCallback((command: TimerCommand) => {
+    const engine = engineRef.current!;
+    const state = engine.getContext().state;
+
+    switch (command.type) {
+      case 'start': {
+        const { targetMinutes, targetSeconds } = configRef.current;
+        const targetDurationMs = targetMinutes * 60 * 1000 + targetSeconds * 1000;
+        const checkpoints = sortCheckpoints(configRef.current.checkpoints, targetDurationMs);
+        checkpointsRef.current = checkpoints;
+        const escalations = sortEscalationSteps(escalationStepsRef.current);
+        sessionEscalationsRef.current = escalations;
+        engine.send({
+          type: 'START',
+          targetDurationMs,
+          warningThresholdsMs: checkpoints.map((checkpoint) => getCheckpointThresholdMs(checkpoint, targetDurationMs)),
+          escalations: escalations.map(({ afterMs, repeatMs }) => ({ afterMs, repeatMs })),
+        });
+        break;
       }
-    }, 100);
-  }, [clearTimer, stateData.mute, audioEnabled]);
-
-  // Finish session
-  const finishSession = useCallback(() => {
-    clearTimer();
-    
-    if (startTimestampRef.current && sessionIdRef.current) {
-      const endTime = Date.now();
-      const effectiveDuration = endTime - startTimestampRef.current - accumulatedPausedMsRef.current;
-      const overdueMs = effectiveDuration > targetDurationMs ? effectiveDuration - targetDurationMs : 0;
-      
-      const session: Session = {
-        id: sessionIdRef.current,
-        activityType: config.activityType,
-        targetDurationMs,
-        startAt: startTimestampRef.current,
-        endAt: endTime,
-        status: 'finished',
-        effectiveDurationMs: effectiveDuration,
-        overdueMs: overdueMs > 0 ? overdueMs : undefined,
-      };
-
-      saveSession(session);
-      loadSessions();
+      case 'pause':
+        pauseReasonRef.current = command.reason?.trim() || undefined;
+        engine.send({ type: 'PAUSE' });
+        break;
+      case 'set_pause_reason': {
+        const events = [...eventsRef.current];
+        const last = events[events.length - 1];
+        if (!last || last.type !== 'pause') return;
+
+        events[events.length - 1] = { ...last, reason: command.reason.trim() || undefined };
+        eventsRef.current = events;
+        persistState();
+        break;
+      }
+      case 'resume':
+        engine.send({ type: 'RESUME' });
+        break;
+      case 'complete':
+        engine.send({ type: 'FINISH' });
+        break;
+      case 'stop':
+        if (state !== 'running' && state !== 'paused') return;
+        stopReasonRef.current = command.reason;
+        engine.send({ type: 'STOP' });
+        break;
+      case 'cancel_arming':
+        if (state !== 'arming') return;
+        engine.send({ type: 'STOP' });
+        break;
+      case 'reset':
+        engine.send({ type: 'RESET' });
+        break;
+      case 'config':
+        configRef.current = command.config;
+        setConfig(command.config);
+        break;
+      case 'mute':
+        muteRef.current = command.mute;
+        setStateData(prev => ({ ...prev, mute: command.mute }));
+        persistState();
+        break;
     }
+  }, [persistState]);
 
-    setStateData(prev => ({
-      ...prev,
-      state: 'finished',
-      remainingMs: 0,
-      isWarning: false,
-    }));
-
-    if (!stateData.mute && audioEnabled) {
-      beepFinishAlarm();
+  // Run locally when leading, otherwise hand the command to the leader tab
+  const dispatch = useCallback((command: TimerCommand) => {
+    if (leaderRef.current) {
+      runCommand(command);
+    } else {
+      postSyncMessage({ type: 'command', timerId: timerRef.current.id, command });
     }
+  }, [runCommand]);
 
-    // Reset refs
-    startTimestampRef.current = null;
-    pausedAtRef.current = null;
-    accumulatedPausedMsRef.current = 0;
-    armingStartTimestampRef.current = null;
-    warningTriggeredRef.current = false;
-    finishAlarmTriggeredRef.current = false;
-    sessionIdRef.current = null;
-
-    clearState();
-  }, [clearTimer, config.activityType, targetDurationMs, stateData.mute, audioEnabled, loadSessions]);
-
-  // Start main countdown timer
-  const startTimer = useCallback((duration: number) => {
-    clearTimer();
-    
-    // High frequency interval for smooth display (~60fps)
-    intervalRef.current = setInterval(() => {
-      if (!startTimestampRef.current) return;
-
-      const now = Date.now();
-      const elapsed = now - startTimestampRef.current - accumulatedPausedMsRef.current;
-      const remaining = duration - elapsed;
-
-      // Check warning threshold (only once)
-      if (!warningTriggeredRef.current && remaining > 0 && remaining <= warningThresholdMs) {
-        warningTriggeredRef.current = true;
-        setStateData(prev => ({ ...prev, isWarning: true }));
-        
-        if (!stateData.mute && audioEnabled) {
-          beepWarningTriple();
-        }
+  // Mirror the leader's state and execute commands from mirroring tabs
+  useEffect(() => {
+    return subscribeSyncMessages((message) => {
+      if (message.type === 'hello') {
+        persistState();
+        return;
       }
-
-      // Trigger finish alarm when reaching 0 (only once)
-      if (!finishAlarmTriggeredRef.current && remaining <= 0) {
-        finishAlarmTriggeredRef.current = true;
-        if (!stateData.mute && audioEnabled) {
-          beepFinishAlarm();
-        }
+      if (message.timerId !== timerRef.current.id) return;
+
+      if (message.type === 'state' && !leaderRef.current) {
+        applyState(message.state);
+      } else if (message.type === 'command' && leaderRef.current) {
+        runCommand(message.command);
+      } else if (message.type === 'session') {
+        onSessionSavedRef.current?.(message.session);
       }
+    });
+  }, [applyState, runCommand, persistState]);
 
-      // Update display - allow negative values to show overdue time
-      setStateData(prev => ({
-        ...prev,
-        remainingMs: remaining,
-      }));
-    }, TICK_INTERVAL);
-
-    // Lower frequency interval for state persistence
-    persistIntervalRef.current = setInterval(() => {
-      persistState('running');
-    }, PERSIST_INTERVAL);
-
-    persistState('running');
-  }, [clearTimer, warningThresholdMs, stateData.mute, audioEnabled, persistState, finishSession]);
-
-  // Transition from arming to running
-  const transitionToRunning = useCallback((duration: number) => {
-    setStateData(prev => ({ ...prev, state: 'running', armingCountdown: 0 }));
-    startTimestampRef.current = Date.now();
-    accumulatedPausedMsRef.current = 0;
-    pausedAtRef.current = null;
-    sessionIdRef.current = generateId();
-    
-    if (!stateData.mute && audioEnabled) {
-      beepDouble();
-    }
+  // "Pause" / "Finish" pressed on a system notification (leader tab only)
+  useEffect(() => {
+    return subscribeNotificationActions((action, timerId) => {
+      if (timerId !== timerRef.current.id || !leaderRef.current) return;
+      runCommand({ type: action });
+    });
+  }, [runCommand]);
 
-    startTimer(duration);
-  }, [stateData.mute, audioEnabled, startTimer]);
+  // The tab where sound gets enabled leads when no other tab does, so alerts are audible
+  useEffect(() => {
+    if (audioEnabled) claimLeadership();
+  }, [audioEnabled]);
 
   // Start session
-  const startSession = useCallback(() => {
-    if (stateData.state !== 'idle') return;
-    
-    setStateData(prev => ({ ...prev, state: 'arming' }));
-    startArmingTimer(targetDurationMs);
-    persistState('arming');
-  }, [stateData.state, startArmingTimer, targetDurationMs, persistState]);
-
-  // Pause session
-  const pauseSession = useCallback(() => {
-    if (stateData.state !== 'running') return;
-    
-    clearTimer();
-    pausedAtRef.current = Date.now();
-    setStateData(prev => ({ ...prev, state: 'paused' }));
-    persistState('paused');
-  }, [stateData.state, clearTimer, persistState]);
+  const startSession = useCallback(() => dispatch({ type: 'start' }), [dispatch]);
 
-  // Resume session
-  const resumeSession = useCallback(() => {
-    if (stateData.state !== 'paused' || !startTimestampRef.current || !pausedAtRef.current) return;
-
-    const now = Date.now();
-    accumulatedPausedMsRef.current += now - pausedAtRef.current;
-    pausedAtRef.current = null;
-
-    setStateData(prev => ({ ...prev, state: 'running' }));
-    
-    const nowElapsed = now - startTimestampRef.current - accumulatedPausedMsRef.current;
-    const remaining = targetDurationMs - nowElapsed;
-    
-    if (remaining <= 0) {
-      finishSession();
-    } else {
-      startTimer(targetDurationMs);
-    }
-  }, [stateData.state, targetDurationMs, startTimer, finishSession]);
-
-  // Abort session
-  const abortSession = useCallback(() => {
-    if (stateData.state === 'idle' || stateData.state === 'finished') return;
-
-    clearTimer();
-
-    if (startTimestampRef.current && sessionIdRef.current) {
-      const endTime = Date.now();
-      const effectiveDuration = endTime - startTimestampRef.current - accumulatedPausedMsRef.current;
-      const overdueMs = effectiveDuration > targetDurationMs ? effectiveDuration - targetDurationMs : 0;
-
-      const session: Session = {
-        id: sessionIdRef.current,
-        activityType: config.activityType,
-        targetDurationMs,
-        startAt: startTimestampRef.current,
-        endAt: endTime,
-        status: 'aborted',
-        effectiveDurationMs: effectiveDuration,
-        overdueMs: overdueMs > 0 ? overdueMs : undefined,
-      };
-
-      saveSession(session);
-      loadSessions();
-    }
+  // Pause session, optionally with a reason for the event log
+  const pauseSession = useCallback((reason?: string) => dispatch({ type: 'pause', reason }), [dispatch]);
 
-    setStateData(prev => ({
-      ...prev,
-      state: 'aborted',
-      isWarning: false,
-      armingCountdown: 0,
-    }));
+  // Set or change the reason of the current pause
+  const setPauseReason = useCallback((reason: string) => dispatch({ type: 'set_pause_reason', reason }), [dispatch]);
 
-    if (!stateData.mute && audioEnabled) {
-      beepAbortLow();
-    }
+  // Resume session
+  const resumeSession = useCallback(() => dispatch({ type: 'resume' }), [dispatch]);
 
-    // Reset refs
-    startTimestampRef.current = null;
-    pausedAtRef.current = null;
-    accumulatedPausedMsRef.current = 0;
-    armingStartTimestampRef.current = null;
-    warningTriggeredRef.current = false;
-    finishAlarmTriggeredRef.current = false;
-    sessionIdRef.current = null;
+  // Complete the job (on time or late, depending on overdue)
+  const completeSession = useCallback(() => dispatch({ type: 'complete' }), [dispatch]);
 
-    clearState();
-  }, [stateData.state, clearTimer, config.activityType, targetDurationMs, stateData.mute, audioEnabled, loadSessions]);
+  // Stop an unfinished job early; a reason code is required
+  const stopSession = useCallback((reason: StopReasonCode) => dispatch({ type: 'stop', reason }), [dispatch]);
 
-  // Reset to idle
-  const resetSession = useCallback(() => {
-    clearTimer();
-    setStateData({
-      state: 'idle',
-      remainingMs: 0,
-      armingCountdown: 0,
-      isWarning: false,
-      mute: stateData.mute,
-    });
-    startTimestampRef.current = null;
-    pausedAtRef.current = null;
-    accumulatedPausedMsRef.current = 0;
-    armingStartTimestampRef.current = null;
-    warningTriggeredRef.current = false;
-    finishAlarmTriggeredRef.current = false;
-    sessionIdRef.current = null;
-    clearState();
-  }, [clearTimer, stateData.mute]);
-
-  // Toggle mute
-  const toggleMute = useCallback(() => {
-    setStateData(prev => {
-      const newMute = !prev.mute;
-      persistState(stateData.state);
-      return { ...prev, mute: newMute };
-    });
-  }, [stateData.state, persistState]);
+  // Abort during the 3..2..1 arming countdown
+  const cancelArming = useCallback(() => dispatch({ type: 'cancel_arming' }), [dispatch]);
 
-  // Enable audio
-  const enableAudio = useCallback(() => {
-    initAudioContext();
-    setAudioEnabled(true);
+  // Reset to idle
+  const resetSession = useCallback(() => dispatch({ type: 'reset' }), [dispatch]);
+
+  // Update the form; mirroring tabs show the edit at once and forward it
+  const updateConfig = useCallback((next: TimekeeperConfig) => {
+    configRef.current = next;
+    setConfig(next);
+    if (!leaderRef.current) dispatch({ type: 'config', config: next });
+  }, [dispatch]);
+
+  // Hide the overdue banner in this tab (a later banner step shows it again)
+  const dismissBanner = useCallback(() => {
+    setStateData(prev => ({ ...prev, showBanner: false }));
   }, []);
 
-  // Clear history
-  const clearHistory = useCallback(() => {
-    clearSessions();
-    loadSessions();
-  }, [loadSessions]);
+  const dismissSaveError = useCallback(() => {
+    setSaveError(null);
+  }, []);
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      clearTimer();
-    };
-  }, [clearTimer]);
+  // Toggle mute (shared by all tabs)
+  const toggleMute = useCallback(() => {
+    const mute = !muteRef.current;
+    muteRef.current = mute;
+    setStateData(prev => ({ ...prev, mute }));
+    dispatch({ type: 'mute', mute });
+  }, [dispatch]);
 
   return {
     config,
-    setConfig,
+    setConfig: updateConfig,
     stateData,
-    sessions,
-    audioEnabled,
+    saveError,
     startSession,
     pauseSession,
+    setPauseReason,
     resumeSession,
-    abortSession,
-    finishSession,
+    completeSession,
+    stopSession,
+    cancelArming,
     resetSession,
+    dismissBanner,
+    dismissSaveError,
     toggleMute,
-    enableAudio,
-    clearHistory,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,57 @@
+/**
+ * Global key handler for the open bay: runs the bound action, with a
+ * cooldown so a bouncing pedal or an accidental double press only counts once
+ */
+
+import { useEffect, useRef } from 'react';
+import { CHEAT_SHEET_KEY, findShortcutAction, type ShortcutAction, type ShortcutSettings } from '@/utils/shortcuts';
+
+interface UseShortcutsOptions {
+  settings: ShortcutSettings;
+  active: boolean;
+  onAction: (action: ShortcutAction) => void;
+  onToggleCheatSheet: () => void;
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+export function useShortcuts({ settings, active, onAction, onToggleCheatSheet }: UseShortcutsOptions) {
+  const lastFiredRef = useRef(0);
+
+  // Latest callbacks without re-adding the listener on every render
+  const onActionRef = useRef(onAction);
+  const onToggleCheatSheetRef = useRef(onToggleCheatSheet);
+  onActionRef.current = onAction;
+  onToggleCheatSheetRef.current = onToggleCheatSheet;
+
+  useEffect(() => {
+    if (!active || !settings.enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+
+      if (e.key === CHEAT_SHEET_KEY) {
+        e.preventDefault();
+        if (!e.repeat) onToggleCheatSheetRef.current();
+        return;
+      }
+
+      const action = findShortcutAction(settings.bindings, e.key);
+      if (!action) return;
+      e.preventDefault();
+
+      // Held keys auto-repeat; only the first press counts
+      if (e.repeat) return;
+      const now = Date.now();
+      if (now - lastFiredRef.current < settings.cooldownMs) return;
+      lastFiredRef.current = now;
+      onActionRef.current(action);
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [active, settings]);
+}
@@ -0,0 +1,29 @@
+/**
+ * Dark/light theme preference, persisted in localStorage
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+
+const THEME_KEY = 'timekeeper-theme';
+
+export function useTheme() {
+  const [isDarkMode, setIsDarkMode] = useState(true);
+
+  // Load theme preference from localStorage
+  useEffect(() => {
+    const savedTheme = localStorage.getItem(THEME_KEY);
+    if (savedTheme === 'light') {
+      setIsDarkMode(false);
+    }
+  }, []);
+
+  // Save theme preference to localStorage
+  const toggleTheme = useCallback(() => {
+    setIsDarkMode(prev => {
+      localStorage.setItem(THEME_KEY, prev ? 'light' : 'dark');
+      return !prev;
+    });
+  }, []);
+
+  return { isDarkMode, toggleTheme };
+}
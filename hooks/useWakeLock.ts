@@ -0,0 +1,41 @@
+/**
+ * Keep the screen on (Screen Wake Lock API) while `active` is true
+ */
+
+import { useEffect } from 'react';
+
+export function useWakeLock(active: boolean) {
+  useEffect(() => {
+    if (!active || typeof navigator === 'undefined' || !('wakeLock' in navigator)) return;
+
+    let lock: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    const acquire = async () => {
+      if (document.visibilityState !== 'visible' || (lock && !lock.released)) return;
+      try {
+        const sentinel = await navigator.wakeLock.request('screen');
+        if (cancelled) {
+          sentinel.release();
+          return;
+        }
+        lock = sentinel;
+      } catch (error) {
+        console.error('Failed to acquire wake lock:', error);
+      }
+    };
+
+    // The browser drops the lock whenever the page is hidden
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') acquire();
+    };
+
+    acquire();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      lock?.release().catch(() => undefined);
+    };
+  }, [active]);
+}
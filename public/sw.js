@@ -0,0 +1,156 @@
+/**
+ * Service worker:
+ * - pre-caches the app shell (pages, Next.js chunks, icon, manifest) so the
+ *   timekeeper loads and runs with the workshop Wi-Fi down
+ * - forwards notification action buttons ("Pause", "Finish") to the open tabs
+ *
+ * `/sw-version` changes with every build, so browsers see a new worker after
+ * a deploy. The new version waits until the page asks it to take over
+ * (`skip_waiting`), so an update never swaps code under a running session.
+ * Registered with `?cache=0` in development, where only notifications work.
+ */
+
+importScripts('/sw-version');
+
+const VERSION = self.TIMEKEEPER_BUILD || 'dev';
+const SHELL_CACHE = `timekeeper-shell-${VERSION}`;
+// Hashed Next.js build files never change, so they outlive shell versions
+const STATIC_CACHE = 'timekeeper-static';
+const SHELL_PAGES = ['/', '/stats', '/history'];
+const SHELL_FILES = ['/profile.png', '/manifest.webmanifest'];
+const NAVIGATION_TIMEOUT = 3000; // Flaky Wi-Fi: fall back to a cached page instead of hanging
+
+const CACHING = new URL(self.location.href).searchParams.get('cache') !== '0';
+
+/**
+ * Cache the shell pages and every build file they reference
+ */
+async function precacheShell() {
+  const shell = await caches.open(SHELL_CACHE);
+  const statics = await caches.open(STATIC_CACHE);
+  await shell.addAll(SHELL_FILES);
+
+  for (const page of SHELL_PAGES) {
+    const response = await fetch(page, { cache: 'no-store' });
+    if (!response.ok) throw new Error(`Failed to fetch ${page}: ${response.status}`);
+    const html = await response.clone().text();
+    await shell.put(page, response);
+
+    const assets = Array.from(new Set(html.match(/\/_next\/static\/[^"'\s)\\]+/g) || []));
+    await Promise.all(assets.map(async (asset) => {
+      if (await statics.match(asset)) return;
+      // A chunk that fails now is fetched (and cached) on first use instead
+      await statics.add(asset).catch((error) => console.warn('Failed to precache', asset, error));
+    }));
+  }
+}
+
+self.addEventListener('install', (event) => {
+  if (CACHING) {
+    event.waitUntil(precacheShell());
+  } else {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter((name) => name.startsWith('timekeeper-shell-') && (name !== SHELL_CACHE || !CACHING))
+      .map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'skip_waiting') self.skipWaiting();
+});
+
+/**
+ * Shell pages come from this version's cache (updates arrive as a new
+ * worker); other pages go to the network, with a timeout
+ */
+async function handleNavigation(request) {
+  const shell = await caches.open(SHELL_CACHE);
+  const url = new URL(request.url);
+
+  if (SHELL_PAGES.includes(url.pathname)) {
+    const cached = await shell.match(url.pathname);
+    if (cached) return cached;
+  }
+
+  try {
+    return await Promise.race([
+      fetch(request),
+      new Promise((_, reject) => setTimeout(() => reject(new Error('Navigation timed out')), NAVIGATION_TIMEOUT)),
+    ]);
+  } catch (error) {
+    const fallback = await shell.match('/');
+    if (fallback) return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Cache first for hashed build files
+ */
+async function handleStatic(request) {
+  const statics = await caches.open(STATIC_CACHE);
+  const cached = await statics.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await statics.put(request, response.clone());
+  return response;
+}
+
+/**
+ * Cached copy right away, refreshed in the background
+ */
+async function handleShellFile(request) {
+  const shell = await caches.open(SHELL_CACHE);
+  const cached = await shell.match(request);
+  const refresh = fetch(request)
+    .then((response) => {
+      if (response.ok) shell.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || refresh;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // The API (sync, monitor stream) always goes to the network; the outbox retries
+  if (!CACHING || request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(handleStatic(request));
+  } else if (SHELL_FILES.includes(url.pathname)) {
+    event.respondWith(handleShellFile(request));
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const { timerId } = event.notification.data || {};
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (event.action) {
+      // Every tab hears it; only the leader tab of that bay acts on it
+      windows.forEach((client) => client.postMessage({ type: 'notification_action', action: event.action, timerId }));
+      return;
+    }
+    // Plain click: bring the app to the front
+    if (windows[0]) {
+      await windows[0].focus();
+    } else {
+      await self.clients.openWindow('/');
+    }
+  })());
+});
@@ -4,39 +4,201 @@
  */
 
 let audioContext: AudioContext | null = null;
+let masterGain: GainNode | null = null;
+let masterVolume = 1;
+let outputDeviceId = '';
+let busyUntil = 0; // Date.now() at which the last started sound ends
+let speechActive = false;
+const heldSounds: (() => void)[] = []; // Started while an announcement was speaking
+
+// 'blocked' = context exists but the browser keeps it suspended (autoplay policy, tab sleep)
+export type AudioStatus = 'off' | 'running' | 'blocked';
+
+type AudioStatusListener = (status: AudioStatus) => void;
+
+const statusListeners = new Set<AudioStatusListener>();
+
+export type SoundProfile = 'standard' | 'loud' | 'soft';
+
+export const SOUND_PROFILES: SoundProfile[] = ['standard', 'loud', 'soft'];
+
+// Gain multiplier applied on top of each pattern's own envelope
+const PROFILE_GAIN: Record<SoundProfile, number> = {
+  standard: 1,
+  loud: 1.6,
+  soft: 0.5,
+};
+
+// Sound played when a warning checkpoint fires
+export type WarningSound = 'single' | 'double' | 'triple' | 'alarm' | 'none';
+
+export const WARNING_SOUNDS: WarningSound[] = ['single', 'double', 'triple', 'alarm', 'none'];
+
+// Built-in synth recipes a timer event can be mapped to
+export type SynthPattern = 'beep' | 'start' | 'triple' | 'alarm' | 'brake' | 'horn' | 'siren';
+
+export const SYNTH_PATTERNS: SynthPattern[] = ['beep', 'start', 'triple', 'alarm', 'brake', 'horn', 'siren'];
+
+// How long each pattern sounds, so speech can wait for it
+const PATTERN_DURATION_MS: Record<SynthPattern, number> = {
+  beep: 250,
+  start: 750,
+  triple: 400,
+  alarm: 1500,
+  brake: 700,
+  horn: 2100,
+  siren: 2100,
+};
+
+const WARNING_PATTERNS: Record<Exclude<WarningSound, 'none'>, SynthPattern> = {
+  single: 'beep',
+  double: 'start',
+  triple: 'triple',
+  alarm: 'alarm',
+};
 
 /**
- * Initialize audio context (must be called on user interaction)
+ * Initialize audio context (must be called on user interaction).
+ * A suspended context is resumed on every call.
  */
 export function initAudioContext(): AudioContext {
   if (!audioContext) {
     audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    masterGain = audioContext.createGain();
+    masterGain.gain.value = masterVolume;
+    masterGain.connect(audioContext.destination);
+    audioContext.onstatechange = notifyAudioStatus;
+    if (outputDeviceId && canSelectOutput(audioContext)) applyOutputDevice(audioContext);
+    // Browsers suspend the context while a tab sleeps
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') resumeAudio();
+    });
+    notifyAudioStatus();
+  }
+  if (audioContext.state !== 'running') {
+    audioContext.resume().catch(() => undefined).finally(notifyAudioStatus);
   }
   return audioContext;
 }
 
+/**
+ * Resume the audio context; resolves true once sound can play.
+ * Call from a user gesture to clear a "blocked" status.
+ */
+export async function resumeAudio(): Promise<boolean> {
+  const context = initAudioContext();
+  try {
+    await context.resume();
+  } catch (error) {
+    console.error('Failed to resume audio:', error);
+  }
+  notifyAudioStatus();
+  return context.state === 'running';
+}
+
+/**
+ * Current audio status
+ */
+export function getAudioStatus(): AudioStatus {
+  if (!audioContext) return 'off';
+  return audioContext.state === 'running' ? 'running' : 'blocked';
+}
+
+function notifyAudioStatus(): void {
+  const status = getAudioStatus();
+  statusListeners.forEach((listener) => listener(status));
+}
+
+/**
+ * Listen for audio status changes (called once with the current status)
+ */
+export function subscribeAudioStatus(listener: AudioStatusListener): () => void {
+  statusListeners.add(listener);
+  listener(getAudioStatus());
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+/**
+ * Set the master volume (0..1) applied to every sound
+ */
+export function setMasterVolume(volume: number): void {
+  masterVolume = Math.min(1, Math.max(0, volume));
+  if (masterGain) masterGain.gain.value = masterVolume;
+}
+
+/**
+ * Whether the browser can route audio to a chosen output device
+ */
+export function isOutputSelectionSupported(): boolean {
+  return typeof window !== 'undefined' && !!window.AudioContext && 'setSinkId' in AudioContext.prototype;
+}
+
+/**
+ * Available audio outputs. Labels may be empty until the site
+ * has been granted media permission.
+ */
+export async function listOutputDevices(): Promise<{ id: string; label: string }[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter((device) => device.kind === 'audiooutput' && device.deviceId !== 'default')
+      .map((device, index) => ({ id: device.deviceId, label: device.label || `Output ${index + 1}` }));
+  } catch (error) {
+    console.error('Failed to list audio outputs:', error);
+    return [];
+  }
+}
+
+type SinkSelectableAudioContext = AudioContext & { setSinkId(id: string): Promise<void> };
+
+function canSelectOutput(context: AudioContext): context is SinkSelectableAudioContext {
+  return isOutputSelectionSupported() && 'setSinkId' in context;
+}
+
+function applyOutputDevice(context: SinkSelectableAudioContext): Promise<void> {
+  return context.setSinkId(outputDeviceId).catch((error: unknown) => {
+    console.error('Failed to set audio output:', error);
+  });
+}
+
+/**
+ * Route audio to an output device ('' = system default)
+ */
+export async function setOutputDevice(deviceId: string): Promise<void> {
+  outputDeviceId = deviceId;
+  if (audioContext && canSelectOutput(audioContext)) await applyOutputDevice(audioContext);
+}
+
+// Every sound goes through the master gain
+function getOutput(context: AudioContext): AudioNode {
+  return masterGain ?? context.destination;
+}
+
 /**
  * Play a beep tone
  */
 function beep(
   frequency: number,
   duration: number,
-  type: OscillatorType = 'sine'
+  type: OscillatorType = 'sine',
+  profile: SoundProfile = 'standard',
+  volume: number = 1
 ): void {
-  if (!audioContext) {
-    audioContext = initAudioContext();
-  }
+  audioContext = initAudioContext();
 
   const oscillator = audioContext.createOscillator();
   const gainNode = audioContext.createGain();
 
   oscillator.connect(gainNode);
-  gainNode.connect(audioContext.destination);
+  gainNode.connect(getOutput(audioContext));
 
   oscillator.frequency.value = frequency;
   oscillator.type = type;
 
-  gainNode.gain.setValueAtTime(0.3, audioContext.currentTime);
+  gainNode.gain.setValueAtTime(Math.max(0.0001, 0.3 * PROFILE_GAIN[profile] * volume), audioContext.currentTime);
   gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + duration);
 
   oscillator.start(audioContext.currentTime);
@@ -47,23 +209,22 @@ function beep(
  * Play racing countdown beep (for 3..2..1 countdown)
  * Like racing game countdown - clear beep
  */
-export function beepOnce(): void {
-  if (!audioContext) {
-    audioContext = initAudioContext();
-  }
+export function beepOnce(profile: SoundProfile = 'standard', volume: number = 1): void {
+  const scale = PROFILE_GAIN[profile] * volume;
+  audioContext = initAudioContext();
   
   const oscillator = audioContext.createOscillator();
   const gainNode = audioContext.createGain();
   
   oscillator.connect(gainNode);
-  gainNode.connect(audioContext.destination);
+  gainNode.connect(getOutput(audioContext));
   
   oscillator.frequency.value = 600;
   oscillator.type = 'sine';
   
   // Quick attack and decay like racing countdown
   gainNode.gain.setValueAtTime(0, audioContext.currentTime);
-  gainNode.gain.linearRampToValueAtTime(0.4, audioContext.currentTime + 0.05);
+  gainNode.gain.linearRampToValueAtTime(0.4 * scale, audioContext.currentTime + 0.05);
   gainNode.gain.linearRampToValueAtTime(0, audioContext.currentTime + 0.25);
   
   oscillator.start(audioContext.currentTime);
@@ -74,25 +235,24 @@ export function beepOnce(): void {
  * Play racing start sound (green flag / GO sound)
  * Ascending frequency sweep like racing game start - longer and more dramatic
  */
-export function beepDouble(): void {
-  if (!audioContext) {
-    audioContext = initAudioContext();
-  }
+export function beepDouble(profile: SoundProfile = 'standard', volume: number = 1): void {
+  const scale = PROFILE_GAIN[profile] * volume;
+  audioContext = initAudioContext();
   
   // First beep - longer ascending sweep (like engine revving)
   const oscillator1 = audioContext.createOscillator();
   const gainNode1 = audioContext.createGain();
   
   oscillator1.connect(gainNode1);
-  gainNode1.connect(audioContext.destination);
+  gainNode1.connect(getOutput(audioContext));
   
   oscillator1.frequency.setValueAtTime(300, audioContext.currentTime);
   oscillator1.frequency.linearRampToValueAtTime(1500, audioContext.currentTime + 0.5);
   oscillator1.type = 'sawtooth'; // More aggressive sound
   
   gainNode1.gain.setValueAtTime(0, audioContext.currentTime);
-  gainNode1.gain.linearRampToValueAtTime(0.6, audioContext.currentTime + 0.1);
-  gainNode1.gain.linearRampToValueAtTime(0.5, audioContext.currentTime + 0.3);
+  gainNode1.gain.linearRampToValueAtTime(0.6 * scale, audioContext.currentTime + 0.1);
+  gainNode1.gain.linearRampToValueAtTime(0.5 * scale, audioContext.currentTime + 0.3);
   gainNode1.gain.linearRampToValueAtTime(0, audioContext.currentTime + 0.5);
   
   oscillator1.start(audioContext.currentTime);
@@ -105,14 +265,14 @@ export function beepDouble(): void {
     const gainNode2 = audioContext.createGain();
     
     oscillator2.connect(gainNode2);
-    gainNode2.connect(audioContext.destination);
+    gainNode2.connect(getOutput(audioContext));
     
     oscillator2.frequency.value = 1000;
     oscillator2.type = 'square';
     
     gainNode2.gain.setValueAtTime(0, audioContext.currentTime);
-    gainNode2.gain.linearRampToValueAtTime(0.5, audioContext.currentTime + 0.05);
-    gainNode2.gain.linearRampToValueAtTime(0.4, audioContext.currentTime + 0.2);
+    gainNode2.gain.linearRampToValueAtTime(0.5 * scale, audioContext.currentTime + 0.05);
+    gainNode2.gain.linearRampToValueAtTime(0.4 * scale, audioContext.currentTime + 0.2);
     gainNode2.gain.linearRampToValueAtTime(0, audioContext.currentTime + 0.35);
     
     oscillator2.start(audioContext.currentTime);
@@ -123,18 +283,36 @@ export function beepDouble(): void {
 /**
  * Play warning triple beep (three quick beeps)
  */
-export function beepWarningTriple(): void {
-  beep(1000, 0.1);
-  setTimeout(() => beep(1000, 0.1), 150);
-  setTimeout(() => beep(1000, 0.1), 300);
+export function beepWarningTriple(profile: SoundProfile = 'standard', volume: number = 1): void {
+  beep(1000, 0.1, 'sine', profile, volume);
+  setTimeout(() => beep(1000, 0.1, 'sine', profile, volume), 150);
+  setTimeout(() => beep(1000, 0.1, 'sine', profile, volume), 300);
 }
 
 /**
  * Play finish alarm (longer tone, repeated)
  */
-export function beepFinishAlarm(): void {
+export function beepFinishAlarm(profile: SoundProfile = 'standard', volume: number = 1): void {
   for (let i = 0; i < 5; i++) {
-    setTimeout(() => beep(600, 0.3, 'square'), i * 300);
+    setTimeout(() => beep(600, 0.3, 'square', profile, volume), i * 300);
+  }
+}
+
+/**
+ * Play workshop horn (three long low pulses that carry over compressor noise)
+ */
+export function beepHorn(profile: SoundProfile = 'standard', volume: number = 1): void {
+  for (let i = 0; i < 3; i++) {
+    setTimeout(() => beep(350, 0.6, 'square', profile, volume), i * 750);
+  }
+}
+
+/**
+ * Play two-tone siren (alternating high/low, like a forklift alarm)
+ */
+export function beepSiren(profile: SoundProfile = 'standard', volume: number = 1): void {
+  for (let i = 0; i < 6; i++) {
+    setTimeout(() => beep(i % 2 === 0 ? 1100 : 700, 0.35, 'sawtooth', profile, volume), i * 350);
   }
 }
 
@@ -142,16 +320,15 @@ export function beepFinishAlarm(): void {
  * Play racing stop/abort sound (screech/brake sound)
  * Longer descending frequency like braking/screeching - more dramatic
  */
-export function beepAbortLow(): void {
-  if (!audioContext) {
-    audioContext = initAudioContext();
-  }
+export function beepAbortLow(profile: SoundProfile = 'standard', volume: number = 1): void {
+  const scale = PROFILE_GAIN[profile] * volume;
+  audioContext = initAudioContext();
   
   const oscillator = audioContext.createOscillator();
   const gainNode = audioContext.createGain();
   
   oscillator.connect(gainNode);
-  gainNode.connect(audioContext.destination);
+  gainNode.connect(getOutput(audioContext));
   
   // Longer descending frequency like braking/screeching sound
   oscillator.frequency.setValueAtTime(900, audioContext.currentTime);
@@ -160,14 +337,106 @@ export function beepAbortLow(): void {
   
   // Quick attack, longer decay (like screeching to stop)
   gainNode.gain.setValueAtTime(0, audioContext.currentTime);
-  gainNode.gain.linearRampToValueAtTime(0.6, audioContext.currentTime + 0.05);
-  gainNode.gain.linearRampToValueAtTime(0.5, audioContext.currentTime + 0.2);
+  gainNode.gain.linearRampToValueAtTime(0.6 * scale, audioContext.currentTime + 0.05);
+  gainNode.gain.linearRampToValueAtTime(0.5 * scale, audioContext.currentTime + 0.2);
   gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.7);
   
   oscillator.start(audioContext.currentTime);
   oscillator.stop(audioContext.currentTime + 0.7);
 }
 
+/**
+ * Play the sound configured for a warning checkpoint
+ */
+export function playWarningSound(sound: WarningSound, profile: SoundProfile = 'standard', volume: number = 1): void {
+  if (sound !== 'none') playSynthPattern(WARNING_PATTERNS[sound], profile, volume);
+}
+
+/**
+ * Play a built-in synth pattern
+ */
+export function playSynthPattern(pattern: SynthPattern, profile: SoundProfile = 'standard', volume: number = 1): void {
+  markBusy(PATTERN_DURATION_MS[pattern]);
+  switch (pattern) {
+    case 'beep':
+      beepOnce(profile, volume);
+      break;
+    case 'start':
+      beepDouble(profile, volume);
+      break;
+    case 'triple':
+      beepWarningTriple(profile, volume);
+      break;
+    case 'alarm':
+      beepFinishAlarm(profile, volume);
+      break;
+    case 'brake':
+      beepAbortLow(profile, volume);
+      break;
+    case 'horn':
+      beepHorn(profile, volume);
+      break;
+    case 'siren':
+      beepSiren(profile, volume);
+      break;
+  }
+}
+
+function markBusy(durationMs: number): void {
+  busyUntil = Math.max(busyUntil, Date.now() + durationMs);
+}
+
+/**
+ * Time (Date.now()) at which the sounds started so far have finished
+ */
+export function getSoundBusyUntil(): number {
+  return busyUntil;
+}
+
+/**
+ * Mark an announcement as speaking; when it ends, the sounds held in the
+ * meantime play (and the next announcement waits for them)
+ */
+export function setSpeechActive(active: boolean): void {
+  speechActive = active;
+  if (!active) heldSounds.splice(0).forEach((play) => play());
+}
+
+/**
+ * Play now, or once the current announcement has finished, so beeps never
+ * talk over speech
+ */
+export function playWhenSpeechEnds(play: () => void): void {
+  if (speechActive) {
+    heldSounds.push(play);
+  } else {
+    play();
+  }
+}
+
+/**
+ * Decode an uploaded audio file for playback
+ */
+export function decodeAudioFile(data: ArrayBuffer): Promise<AudioBuffer> {
+  return initAudioContext().decodeAudioData(data);
+}
+
+/**
+ * Play a decoded audio file
+ */
+export function playAudioBuffer(buffer: AudioBuffer, profile: SoundProfile = 'standard', volume: number = 1): void {
+  const context = initAudioContext();
+  const source = context.createBufferSource();
+  const gainNode = context.createGain();
+
+  source.buffer = buffer;
+  source.connect(gainNode);
+  gainNode.connect(getOutput(context));
+  gainNode.gain.value = PROFILE_GAIN[profile] * volume;
+  source.start();
+  markBusy(buffer.duration * 1000);
+}
+
 /**
  * Check if audio is supported
  */
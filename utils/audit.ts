@@ -0,0 +1,92 @@
+/**
+ * Append-only audit log of history changes (IndexedDB store `audit`):
+ * which device cleared, deleted, edited, imported or restored which
+ * sessions, and when. Entries are written in the same transaction as the
+ * change itself and are never updated or removed.
+ */
+
+import { AUDIT_STORE, openDb } from '@/utils/db';
+import { SESSION_DETAIL_FIELDS } from '@/utils/sessionDetails';
+import { getDevice } from '@/utils/syncClient';
+import type { Session } from '@/utils/storage';
+
+export type AuditAction = 'clear' | 'delete' | 'edit' | 'import' | 'restore' | 'empty_trash';
+
+export interface AuditChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export interface AuditEntry {
+  id?: number; // Assigned by the store (auto increment)
+  at: number;
+  action: AuditAction;
+  deviceId: string;
+  deviceName: string;
+  sessionIds: string[];
+  source?: string; // Import file name
+  changes?: AuditChange[]; // Edits only
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  clear: 'Cleared history',
+  delete: 'Deleted',
+  edit: 'Edited',
+  import: 'Imported',
+  restore: 'Restored',
+  empty_trash: 'Emptied trash',
+};
+
+// Fields an edit may change (see SessionEditor)
+const EDITABLE_FIELDS: { field: keyof Session; label: string }[] = [
+  { field: 'activityType', label: 'Activity' },
+  ...SESSION_DETAIL_FIELDS.map(({ field, label }) => ({ field, label })),
+];
+
+/**
+ * New entry stamped with the current time and this device
+ */
+export function createAuditEntry(
+  action: AuditAction,
+  sessionIds: string[],
+  extra: Pick<AuditEntry, 'source' | 'changes'> = {}
+): AuditEntry {
+  const device = getDevice();
+  return { at: Date.now(), action, deviceId: device.id, deviceName: device.name, sessionIds, ...extra };
+}
+
+/**
+ * Field-by-field differences between two versions of a session
+ */
+export function diffSessions(before: Session, after: Session): AuditChange[] {
+  return EDITABLE_FIELDS
+    .map(({ field, label }) => ({ field: label, from: String(before[field] ?? ''), to: String(after[field] ?? '') }))
+    .filter((change) => change.from !== change.to);
+}
+
+/**
+ * Latest audit entries, newest first
+ */
+export async function getAuditLog(limit: number = 100): Promise<AuditEntry[]> {
+  try {
+    const db = await openDb();
+    const store = db.transaction(AUDIT_STORE, 'readonly').objectStore(AUDIT_STORE);
+    const entries: AuditEntry[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.openCursor(null, 'prev');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || entries.length >= limit) return resolve();
+        entries.push(cursor.value as AuditEntry);
+        cursor.continue();
+      };
+    });
+    return entries;
+  } catch (error) {
+    console.error('Failed to get audit log:', error);
+    return [];
+  }
+}
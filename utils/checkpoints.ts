@@ -0,0 +1,72 @@
+/**
+ * Warning checkpoints: absolute (time remaining) or relative (% of the
+ * target elapsed), each with its own badge label, color and sound
+ */
+
+import type { WarningSound } from '@/utils/audio';
+import type { PresetColor } from '@/utils/presets';
+
+export type CheckpointKind = 'remaining' | 'elapsed';
+
+export interface WarningCheckpoint {
+  id: string;
+  kind: CheckpointKind;
+  value: number; // ms remaining ('remaining') or percent of target elapsed ('elapsed')
+  label: string;
+  color: PresetColor;
+  sound: WarningSound;
+}
+
+/**
+ * Remaining time (ms) at which a checkpoint fires for a given target;
+ * 0 (100% elapsed or 0:00 left) fires together with the target
+ */
+export function getCheckpointThresholdMs(checkpoint: WarningCheckpoint, targetDurationMs: number): number {
+  if (checkpoint.kind === 'elapsed') {
+    return Math.max(0, Math.round(targetDurationMs * (1 - checkpoint.value / 100)));
+  }
+  return Math.max(0, checkpoint.value);
+}
+
+/**
+ * Checkpoints in firing order (earliest first) for a given target
+ */
+export function sortCheckpoints(checkpoints: WarningCheckpoint[], targetDurationMs: number): WarningCheckpoint[] {
+  return [...checkpoints].sort(
+    (a, b) => getCheckpointThresholdMs(b, targetDurationMs) - getCheckpointThresholdMs(a, targetDurationMs)
+  );
+}
+
+/**
+ * Short description, e.g. "2:00 left" or "80% elapsed"
+ */
+export function describeCheckpoint(checkpoint: WarningCheckpoint): string {
+  if (checkpoint.kind === 'elapsed') return `${checkpoint.value}% elapsed`;
+  const totalSeconds = Math.round(checkpoint.value / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')} left`;
+}
+
+/**
+ * New checkpoint with sensible defaults
+ */
+export function createCheckpoint(changes: Partial<WarningCheckpoint> = {}): WarningCheckpoint {
+  return {
+    id: `cp-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    kind: 'remaining',
+    value: 60 * 1000,
+    label: 'Warning',
+    color: 'red',
+    sound: 'triple',
+    ...changes,
+  };
+}
+
+/**
+ * Single "minutes remaining" warning, as used before checkpoints existed
+ */
+export function checkpointsFromMinutes(minutes: number): WarningCheckpoint[] {
+  if (!minutes || minutes <= 0) return [];
+  return [createCheckpoint({ id: 'warning', value: minutes * 60 * 1000 })];
+}
@@ -0,0 +1,111 @@
+/**
+ * IndexedDB helpers (promise wrappers around the raw request API)
+ */
+
+export const DB_NAME = 'timekeeper';
+const DB_VERSION = 4;
+
+export const SESSIONS_STORE = 'sessions';
+export const SOUNDS_STORE = 'sounds';
+export const TRASH_STORE = 'trash';
+export const AUDIT_STORE = 'audit';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve when a transaction commits
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function upgrade(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void {
+  if (oldVersion < 1) {
+    const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+    sessions.createIndex('startAt', 'startAt');
+    sessions.createIndex('activityType', 'activityType');
+    sessions.createIndex('status', 'status');
+    // Compound indexes keep filtered queries ordered by start time
+    sessions.createIndex('activityType_startAt', ['activityType', 'startAt']);
+    sessions.createIndex('status_startAt', ['status', 'startAt']);
+  }
+  if (oldVersion < 2) {
+    // Uploaded alert audio files
+    db.createObjectStore(SOUNDS_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    // Session details, for autocomplete (sessions without a value are skipped)
+    const sessions = transaction.objectStore(SESSIONS_STORE);
+    sessions.createIndex('operator', 'operator');
+    sessions.createIndex('unit', 'unit');
+    sessions.createIndex('workOrder', 'workOrder');
+  }
+  if (oldVersion < 4) {
+    // Deleted sessions (restorable) and the append-only history audit log
+    db.createObjectStore(TRASH_STORE, { keyPath: 'id' }).createIndex('deletedAt', 'deletedAt');
+    db.createObjectStore(AUDIT_STORE, { keyPath: 'id', autoIncrement: true });
+  }
+}
+
+/**
+ * Open (and create/upgrade) the database once per page.
+ * Connections close themselves when another tab needs a newer version, and
+ * an upgrade held up by an older tab fails instead of hanging.
+ */
+export function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      let settled = false;
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, request.transaction!, event.oldVersion);
+      request.onsuccess = () => {
+        const db = request.result;
+        // The blocked request may still succeed once the other tabs close
+        if (settled) {
+          db.close();
+          return;
+        }
+        settled = true;
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onblocked = () => {
+        if (settled) return;
+        settled = true;
+        dbPromise = null;
+        reject(new Error('Database upgrade is blocked by another open tab of this app. Close the other tabs and reload.'));
+      };
+      request.onerror = () => {
+        if (settled) return;
+        settled = true;
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Check if IndexedDB is available
+ */
+export function isIndexedDbSupported(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
@@ -0,0 +1,65 @@
+/**
+ * Overdue escalation: reminders and louder alerts once a session runs
+ * past its target
+ */
+
+export type EscalationAction = 'reminder' | 'loud' | 'banner';
+
+export interface EscalationStep {
+  id: string;
+  afterMs: number; // overdue time before the step first fires
+  repeatMs: number; // repeat interval while still overdue (0 = once)
+  action: EscalationAction;
+  label: string;
+}
+
+export const ESCALATION_ACTIONS: EscalationAction[] = ['reminder', 'loud', 'banner'];
+
+const ESCALATION_KEY = 'timekeeper_escalation_steps';
+
+const MINUTE = 60 * 1000;
+
+export const DEFAULT_ESCALATION_STEPS: EscalationStep[] = [
+  { id: 'reminder', afterMs: 2 * MINUTE, repeatMs: 2 * MINUTE, action: 'reminder', label: 'Overdue' },
+  { id: 'loud', afterMs: 10 * MINUTE, repeatMs: 2 * MINUTE, action: 'loud', label: 'Very late' },
+  { id: 'banner', afterMs: 15 * MINUTE, repeatMs: 0, action: 'banner', label: 'Escalate to supervisor' },
+];
+
+/**
+ * Get saved escalation steps (defaults on first use)
+ */
+export function getEscalationSteps(): EscalationStep[] {
+  try {
+    const data = localStorage.getItem(ESCALATION_KEY);
+    return data ? JSON.parse(data) : DEFAULT_ESCALATION_STEPS;
+  } catch (error) {
+    console.error('Failed to get escalation steps:', error);
+    return DEFAULT_ESCALATION_STEPS;
+  }
+}
+
+/**
+ * Save escalation steps
+ */
+export function saveEscalationSteps(steps: EscalationStep[]): void {
+  try {
+    localStorage.setItem(ESCALATION_KEY, JSON.stringify(steps));
+  } catch (error) {
+    console.error('Failed to save escalation steps:', error);
+  }
+}
+
+/**
+ * Steps ordered by when they first fire
+ */
+export function sortEscalationSteps(steps: EscalationStep[]): EscalationStep[] {
+  return [...steps].sort((a, b) => a.afterMs - b.afterMs);
+}
+
+/**
+ * Short description, e.g. "after 10m, every 2m"
+ */
+export function describeEscalationStep(step: EscalationStep): string {
+  const after = `after ${Math.round(step.afterMs / MINUTE)}m`;
+  return step.repeatMs > 0 ? `${after}, every ${Math.round(step.repeatMs / MINUTE)}m` : after;
+}
@@ -0,0 +1,151 @@
+/**
+ * Session history export (CSV, JSON and Excel-compatible SpreadsheetML)
+ */
+
+import { formatDuration } from '@/utils/format';
+import { getSessionOutcome } from '@/utils/outcome';
+import type { Session } from '@/utils/storage';
+
+export type ExportFormat = 'csv' | 'json' | 'xls';
+
+export const EXPORT_VERSION = 1;
+
+interface ExportColumn {
+  header: string;
+  value: (session: Session) => string | number;
+}
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'id', value: (s) => s.id },
+  { header: 'bay', value: (s) => s.timerName || '' },
+  { header: 'activityType', value: (s) => s.activityType },
+  { header: 'operator', value: (s) => s.operator || '' },
+  { header: 'unit', value: (s) => s.unit || '' },
+  { header: 'workOrder', value: (s) => s.workOrder || '' },
+  { header: 'notes', value: (s) => s.notes || '' },
+  { header: 'status', value: (s) => s.status },
+  { header: 'outcome', value: (s) => getSessionOutcome(s) },
+  { header: 'stopReason', value: (s) => s.stopReason || '' },
+  { header: 'startAt', value: (s) => new Date(s.startAt).toISOString() },
+  { header: 'endAt', value: (s) => new Date(s.endAt).toISOString() },
+  { header: 'targetDurationMs', value: (s) => s.targetDurationMs },
+  { header: 'target', value: (s) => formatDuration(s.targetDurationMs) },
+  { header: 'effectiveDurationMs', value: (s) => s.effectiveDurationMs },
+  { header: 'effective', value: (s) => formatDuration(s.effectiveDurationMs) },
+  { header: 'overdueMs', value: (s) => s.overdueMs || 0 },
+  { header: 'overdue', value: (s) => formatDuration(s.overdueMs || 0) },
+  { header: 'pausedMs', value: (s) => s.pausedMs || 0 },
+  { header: 'paused', value: (s) => formatDuration(s.pausedMs || 0) },
+  { header: 'escalations', value: (s) => (s.events || []).filter((event) => event.type === 'escalation').length },
+];
+
+// Text starting with these runs as a formula in Excel / Google Sheets
+export const CSV_FORMULA_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * Escape a CSV field (quotes, separators and line breaks). Free text that a
+ * spreadsheet would run as a formula is prefixed with ' so it stays text.
+ */
+function escapeCsv(value: string | number): string {
+  const text = typeof value === 'string' && CSV_FORMULA_PATTERN.test(value) ? `'${value}` : String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Sessions as CSV (RFC 4180, CRLF line endings)
+ */
+export function toCsv(sessions: Session[]): string {
+  const header = EXPORT_COLUMNS.map((column) => escapeCsv(column.header)).join(',');
+  const rows = sessions.map((session) =>
+    EXPORT_COLUMNS.map((column) => escapeCsv(column.value(session))).join(',')
+  );
+  return [header, ...rows].join('\r\n');
+}
+
+/**
+ * Sessions as JSON, with formatted durations alongside the raw records
+ */
+export function toJson(sessions: Session[]): string {
+  return JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      count: sessions.length,
+      sessions: sessions.map((session) => ({
+        ...session,
+        formatted: {
+          target: formatDuration(session.targetDurationMs),
+          effective: formatDuration(session.effectiveDurationMs),
+          overdue: formatDuration(session.overdueMs || 0),
+          paused: formatDuration(session.pausedMs || 0),
+        },
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Sessions as SpreadsheetML 2003 (opens in Excel / LibreOffice as a sheet
+ * with numeric columns kept numeric)
+ */
+export function toSpreadsheetXml(sessions: Session[]): string {
+  const cell = (value: string | number) =>
+    typeof value === 'number'
+      ? `<Cell><Data ss:Type="Number">${value}</Data></Cell>`
+      : `<Cell><Data ss:Type="String">${escapeXml(value)}</Data></Cell>`;
+
+  const header = `<Row>${EXPORT_COLUMNS.map((column) => cell(column.header)).join('')}</Row>`;
+  const rows = sessions.map(
+    (session) => `<Row>${EXPORT_COLUMNS.map((column) => cell(column.value(session))).join('')}</Row>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    '<Worksheet ss:Name="Sessions"><Table>',
+    header,
+    ...rows,
+    '</Table></Worksheet>',
+    '</Workbook>',
+  ].join('\n');
+}
+
+const FORMAT_INFO: Record<ExportFormat, { extension: string; mime: string; serialize: (sessions: Session[]) => string }> = {
+  // BOM so Excel opens the CSV as UTF-8
+  csv: { extension: 'csv', mime: 'text/csv;charset=utf-8', serialize: (sessions) => `\uFEFF${toCsv(sessions)}` },
+  json: { extension: 'json', mime: 'application/json', serialize: toJson },
+  xls: { extension: 'xls', mime: 'application/vnd.ms-excel', serialize: toSpreadsheetXml },
+};
+
+/**
+ * Trigger a browser download of the given sessions
+ */
+export function downloadSessions(sessions: Session[], format: ExportFormat): void {
+  const info = FORMAT_INFO[format];
+  const blob = new Blob([info.serialize(sessions)], { type: info.mime });
+  const url = URL.createObjectURL(blob);
+  const date = new Date().toISOString().slice(0, 10);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `timekeeper-sessions-${date}.${info.extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
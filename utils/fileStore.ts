@@ -0,0 +1,139 @@
+/**
+ * Server-side storage for the sync API: sessions and live timer snapshots
+ * from every device, kept as JSON files in `TIMEKEEPER_DATA_DIR` (default
+ * `./data`). Only imported by route handlers.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getSessionOutcome } from '@/utils/outcome';
+import { matchesSessionDetails } from '@/utils/sessionDetails';
+import type { PersistedState, Session, SessionQuery } from '@/utils/storage';
+
+export interface TimerSnapshot {
+  deviceId: string;
+  deviceName: string;
+  timerId: string;
+  timerName: string;
+  state: PersistedState;
+  updatedAt: number; // Server time of the last push
+  clockOffsetMs: number; // Server clock minus device clock (state timestamps are device time)
+}
+
+export interface RemoteSessionQuery extends SessionQuery {
+  deviceId?: string;
+}
+
+const DATA_DIR = process.env.TIMEKEEPER_DATA_DIR || path.join(process.cwd(), 'data');
+const SESSIONS_FILE = path.join(DATA_DIR, 'sessions.json');
+const TIMERS_FILE = path.join(DATA_DIR, 'timers.json');
+
+// Snapshots not pushed for this long are dropped (device closed or bay gone);
+// active timers push at least every 10 s
+const SNAPSHOT_TTL = 10 * 60 * 1000;
+
+// Writes go one at a time so concurrent requests never drop each other's records
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function readJson<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Write via a temporary file so a crash never leaves half a file behind
+ */
+async function writeJson(file: string, data: unknown): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(data));
+  await fs.rename(temp, file);
+}
+
+/**
+ * Query stored sessions (same filters as the browser store, plus device)
+ */
+export async function querySessions(query: RemoteSessionQuery = {}): Promise<{ sessions: Session[]; total: number }> {
+  const all = await readJson<Session[]>(SESSIONS_FILE, []);
+  const matching = all
+    .filter((session) =>
+      (query.from === undefined || session.startAt >= query.from) &&
+      (query.to === undefined || session.startAt <= query.to) &&
+      (query.activityType === undefined || session.activityType === query.activityType) &&
+      (query.status === undefined || session.status === query.status) &&
+      (query.outcome === undefined || getSessionOutcome(session) === query.outcome) &&
+      (!query.overdueOnly || !!session.overdueMs) &&
+      (query.deviceId === undefined || session.deviceId === query.deviceId) &&
+      matchesSessionDetails(session, query)
+    )
+    .sort((a, b) => (query.order === 'oldest' ? a.startAt - b.startAt : b.startAt - a.startAt));
+
+  const offset = query.offset ?? 0;
+  const end = query.limit !== undefined ? offset + query.limit : undefined;
+  return { sessions: matching.slice(offset, end), total: matching.length };
+}
+
+/**
+ * Insert or replace sessions by id (pushes are retried, so this is idempotent)
+ */
+export function upsertSessions(sessions: Session[]): Promise<void> {
+  return serialize(async () => {
+    const byId = new Map((await readJson<Session[]>(SESSIONS_FILE, [])).map((session) => [session.id, session]));
+    sessions.forEach((session) => byId.set(session.id, session));
+    await writeJson(SESSIONS_FILE, Array.from(byId.values()));
+  });
+}
+
+/**
+ * Remove sessions by id (deleted on their device); unknown ids are ignored
+ */
+export function deleteSessions(ids: string[]): Promise<void> {
+  if (ids.length === 0) return Promise.resolve();
+  return serialize(async () => {
+    const removed = new Set(ids);
+    const sessions = await readJson<Session[]>(SESSIONS_FILE, []);
+    await writeJson(SESSIONS_FILE, sessions.filter((session) => !removed.has(session.id)));
+  });
+}
+
+/**
+ * Latest snapshot of every timer on every device, without expired ones
+ */
+export async function getTimerSnapshots(): Promise<TimerSnapshot[]> {
+  const expiredBefore = Date.now() - SNAPSHOT_TTL;
+  return (await readJson<TimerSnapshot[]>(TIMERS_FILE, [])).filter((item) => item.updatedAt >= expiredBefore);
+}
+
+/**
+ * Replace the snapshot of one device's timer (expired snapshots are pruned)
+ */
+export function saveTimerSnapshot(snapshot: TimerSnapshot): Promise<void> {
+  return serialize(async () => {
+    const snapshots = (await getTimerSnapshots()).filter(
+      (item) => item.deviceId !== snapshot.deviceId || item.timerId !== snapshot.timerId
+    );
+    await writeJson(TIMERS_FILE, [...snapshots, snapshot]);
+  });
+}
+
+/**
+ * Drop the snapshot of one device's timer (bay removed or reset)
+ */
+export function removeTimerSnapshot(deviceId: string, timerId: string): Promise<void> {
+  return serialize(async () => {
+    const snapshots = (await getTimerSnapshots()).filter(
+      (item) => item.deviceId !== deviceId || item.timerId !== timerId
+    );
+    await writeJson(TIMERS_FILE, snapshots);
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * Time and date formatting helpers shared by the timer and history views
+ */
+
+/**
+ * Format countdown time as m:ss.mmm (or h:mm:ss.mmm), negative when overdue
+ */
+export function formatTime(ms: number): string {
+  const isNegative = ms < 0;
+  const absMs = Math.abs(ms);
+  const totalSeconds = Math.floor(absMs / 1000);
+  const milliseconds = Math.floor(absMs % 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  const sign = isNegative ? '-' : '';
+  if (hours > 0) {
+    return `${sign}${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(3, '0')}`;
+  }
+  return `${sign}${minutes}:${seconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(3, '0')}`;
+}
+
+/**
+ * Countdown time without milliseconds (m:ss or h:mm:ss), for wall displays
+ */
+export function formatClockTime(ms: number): string {
+  return formatTime(ms).replace(/\.\d{3}$/, '');
+}
+
+/**
+ * Format duration as "Xm Ys"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${seconds}s`;
+}
+
+/**
+ * Format overdue duration as "+Xm Ys" (empty when not overdue)
+ */
+export function formatOverdue(ms: number): string {
+  if (!ms || ms <= 0) return '';
+  return `+${formatDuration(ms)}`;
+}
+
+/**
+ * Format timestamp as dd/mm/yyyy hh:mm (id-ID locale)
+ */
+export function formatDateTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return date.toLocaleString('id-ID', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Format timestamp as hh:mm:ss (id-ID locale)
+ */
+export function formatClock(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('id-ID', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+/**
+ * Parse a yyyy-mm-dd input value as local start/end of day
+ */
+export function parseDateInput(value: string, endOfDay: boolean): number | undefined {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999)
+    : new Date(year, month - 1, day, 0, 0, 0, 0);
+  return date.getTime();
+}
@@ -0,0 +1,37 @@
+/**
+ * Fullscreen API helpers for the wall display
+ */
+
+/**
+ * Whether the page can go fullscreen (not on iPhone Safari, for example)
+ */
+export function isFullscreenSupported(): boolean {
+  return typeof document !== 'undefined' && typeof document.documentElement.requestFullscreen === 'function';
+}
+
+/**
+ * Whether the page is currently fullscreen
+ */
+export function isFullscreen(): boolean {
+  return typeof document !== 'undefined' && !!document.fullscreenElement;
+}
+
+/**
+ * Make the whole page fullscreen (must be called from a user gesture)
+ */
+export function enterFullscreen(): void {
+  if (!isFullscreenSupported() || isFullscreen()) return;
+  document.documentElement.requestFullscreen({ navigationUI: 'hide' }).catch((error) => {
+    console.error('Failed to enter fullscreen:', error);
+  });
+}
+
+/**
+ * Leave fullscreen if the page is in it
+ */
+export function exitFullscreen(): void {
+  if (!isFullscreen()) return;
+  document.exitFullscreen().catch((error) => {
+    console.error('Failed to exit fullscreen:', error);
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Sorting and paging for the full history view
+ */
+
+import { getSessionOutcome, OUTCOMES } from '@/utils/outcome';
+import type { Session } from '@/utils/storage';
+
+export type HistorySortKey =
+  | 'startAt'
+  | 'bay'
+  | 'activityType'
+  | 'operator'
+  | 'unit'
+  | 'workOrder'
+  | 'targetDurationMs'
+  | 'outcome'
+  | 'effectiveDurationMs'
+  | 'overdueMs';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface HistorySort {
+  key: HistorySortKey;
+  direction: SortDirection;
+}
+
+export const HISTORY_PAGE_SIZE = 25;
+
+export const DEFAULT_HISTORY_SORT: HistorySort = { key: 'startAt', direction: 'desc' };
+
+const SORT_VALUES: Record<HistorySortKey, (session: Session) => string | number> = {
+  startAt: (s) => s.startAt,
+  bay: (s) => s.timerName || '',
+  activityType: (s) => s.activityType,
+  operator: (s) => s.operator || '',
+  unit: (s) => s.unit || '',
+  workOrder: (s) => s.workOrder || '',
+  targetDurationMs: (s) => s.targetDurationMs,
+  // Best to worst: on time, late, stopped early, aborted
+  outcome: (s) => OUTCOMES.indexOf(getSessionOutcome(s)),
+  effectiveDurationMs: (s) => s.effectiveDurationMs,
+  overdueMs: (s) => s.overdueMs || 0,
+};
+
+const collator = new Intl.Collator('id-ID', { numeric: true, sensitivity: 'base' });
+
+/**
+ * Only start time has an index, so only that sort can be paged in storage;
+ * the other keys sort the full matching set in memory
+ */
+export function isIndexedSort(sort: HistorySort): boolean {
+  return sort.key === 'startAt';
+}
+
+/**
+ * Sorted copy; ties fall back to newest first so paging is stable
+ */
+export function sortSessions(sessions: Session[], sort: HistorySort): Session[] {
+  const value = SORT_VALUES[sort.key];
+  const sign = sort.direction === 'asc' ? 1 : -1;
+
+  return [...sessions].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    const result = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : collator.compare(String(left), String(right));
+    return result * sign || b.startAt - a.startAt;
+  });
+}
+
+/**
+ * Clicking the sorted column flips it; a new column starts with the
+ * direction that makes sense for it (text A-Z, numbers largest first)
+ */
+export function toggleSort(current: HistorySort, key: HistorySortKey): HistorySort {
+  if (current.key === key) {
+    return { key, direction: current.direction === 'asc' ? 'desc' : 'asc' };
+  }
+  const isText = key === 'bay' || key === 'activityType' || key === 'operator' || key === 'unit' || key === 'workOrder' || key === 'outcome';
+  return { key, direction: isText ? 'asc' : 'desc' };
+}
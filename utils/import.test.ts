@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv, toJson } from './export';
+import { parseImportFile, planImport, validateSession } from './import';
+import type { Session } from './storage';
+
+const SESSION: Session = {
+  id: 'session-1',
+  activityType: 'Oil change',
+  operator: 'Budi',
+  unit: 'B 1234 XY',
+  workOrder: 'WO-17',
+  notes: 'Filter, "synthetic" oil, new gasket\r\nCheck again next visit',
+  targetDurationMs: 15 * 60 * 1000,
+  startAt: Date.UTC(2026, 2, 14, 8, 30),
+  endAt: Date.UTC(2026, 2, 14, 8, 47),
+  status: 'finished',
+  outcome: 'late',
+  effectiveDurationMs: 16 * 60 * 1000,
+  overdueMs: 60 * 1000,
+  pausedMs: 60 * 1000,
+  timerName: 'Bay 1',
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Export to CSV, read the file back and validate every record
+ */
+function roundTripCsv(sessions: Session[]): Session[] {
+  return parseImportFile(toCsv(sessions), 'history.csv').map((raw) => {
+    const result = validateSession(raw);
+    if ('error' in result) throw new Error(result.error);
+    return result.session;
+  });
+}
+
+describe('CSV round trip', () => {
+  it('reads back what was exported, including quotes and line breaks', () => {
+    expect(roundTripCsv([SESSION])).toEqual([SESSION]);
+  });
+
+  it('plans a re-import of its own export as duplicates only', () => {
+    const plan = planImport([SESSION], parseImportFile(toCsv([SESSION]), 'history.csv'));
+    expect(plan.invalid).toEqual([]);
+    expect(plan.added).toEqual([]);
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.duplicates).toHaveLength(1);
+  });
+
+  it('reads back a JSON export', () => {
+    const [raw] = parseImportFile(toJson([SESSION]), 'history.json');
+    expect(validateSession(raw)).toEqual({ session: SESSION });
+  });
+});
+
+describe('CSV formula injection', () => {
+  const formulas = ['=HYPERLINK("http://evil.example","x")', '+1+2', '-2+3', '@SUM(A1:A2)', '\tcmd'];
+
+  it.each(formulas)('exports %j as text', (formula) => {
+    const csv = toCsv([{ ...SESSION, notes: formula }]);
+    // The cell starts with ' whether or not it needed quoting
+    expect(csv).toMatch(new RegExp(`,"?'${escapeRegExp(formula.slice(0, 4))}`));
+    expect(csv).not.toMatch(new RegExp(`,"?${escapeRegExp(formula.slice(0, 4))}`));
+  });
+
+  it.each(formulas)('imports %j back without the guard', (formula) => {
+    const [session] = roundTripCsv([{ ...SESSION, notes: formula }]);
+    expect(session.notes).toBe(formula.trim());
+  });
+
+  it('leaves ordinary text alone', () => {
+    expect(toCsv([{ ...SESSION, notes: 'Plain note' }])).toContain(',Plain note,');
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Session history import: parse exported JSON/CSV files, validate records
+ * and plan a merge with the stored history before anything is written
+ */
+
+import { CSV_FORMULA_PATTERN } from '@/utils/export';
+import { getSessionOutcome, OUTCOMES, STOP_REASON_CODES, type SessionOutcome, type StopReasonCode } from '@/utils/outcome';
+import type { Session, SessionEvent } from '@/utils/storage';
+
+export interface InvalidRecord {
+  index: number; // 1-based row/record number in the file
+  reason: string;
+}
+
+export interface ImportConflict {
+  existing: Session;
+  incoming: Session;
+}
+
+export interface ImportPlan {
+  total: number;
+  valid: Session[];
+  invalid: InvalidRecord[];
+  added: Session[];
+  duplicates: Session[]; // Same id, identical content
+  conflicts: ImportConflict[]; // Same id, different content
+  toWrite: Session[]; // Records to store, oldest first
+}
+
+export type ConflictStrategy = 'keep-existing' | 'prefer-imported';
+
+const SESSION_STATUSES: Session['status'][] = ['finished', 'aborted'];
+const EVENT_TYPES: SessionEvent['type'][] = [
+  'arming',
+  'running',
+  'pause',
+  'resume',
+  'warning',
+  'target_reached',
+  'escalation',
+  'finished',
+  'aborted',
+];
+
+/**
+ * Split CSV text into rows of fields (quoted fields, escaped quotes, CRLF)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+function parseTimestamp(value: string): number {
+  if (/^\d+$/.test(value)) return Number(value);
+  return Date.parse(value);
+}
+
+/**
+ * Convert CSV rows (export column layout) to raw session objects
+ */
+function csvToRecords(text: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  return rows.map((cells) => {
+    const row: Record<string, string> = {};
+    header.forEach((name, index) => {
+      const cell = cells[index] ?? '';
+      // Undo the ' the export puts in front of formula-like text
+      const text = cell.startsWith("'") && CSV_FORMULA_PATTERN.test(cell.slice(1)) ? cell.slice(1) : cell;
+      row[name.trim()] = text.trim();
+    });
+
+    const optionalNumber = (value: string | undefined) => (value ? Number(value) : undefined);
+    return {
+      id: row.id,
+      activityType: row.activityType,
+      status: row.status,
+      outcome: row.outcome || undefined,
+      stopReason: row.stopReason || undefined,
+      timerName: row.bay || undefined,
+      operator: row.operator || undefined,
+      unit: row.unit || undefined,
+      workOrder: row.workOrder || undefined,
+      notes: row.notes || undefined,
+      startAt: parseTimestamp(row.startAt ?? ''),
+      endAt: parseTimestamp(row.endAt ?? ''),
+      targetDurationMs: Number(row.targetDurationMs),
+      effectiveDurationMs: Number(row.effectiveDurationMs),
+      overdueMs: optionalNumber(row.overdueMs) || undefined,
+      pausedMs: optionalNumber(row.pausedMs),
+    };
+  });
+}
+
+/**
+ * Read raw records from an exported file (JSON envelope, JSON array or CSV)
+ */
+export function parseImportFile(text: string, fileName: string): unknown[] {
+  const content = text.replace(/^\uFEFF/, '');
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(content);
+
+  if (!isJson) {
+    return csvToRecords(content);
+  }
+
+  const data = JSON.parse(content);
+  if (Array.isArray(data)) return data;
+  if (data && Array.isArray(data.sessions)) return data.sessions;
+  throw new Error('JSON file does not contain a sessions array');
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Validate a raw record against the Session shape
+ */
+export function validateSession(raw: unknown): { session: Session } | { error: string } {
+  if (!raw || typeof raw !== 'object') return { error: 'Not an object' };
+  const record = raw as Record<string, unknown>;
+
+  if (typeof record.id !== 'string' || record.id === '') return { error: 'Missing id' };
+  if (typeof record.activityType !== 'string' || record.activityType === '') return { error: 'Missing activityType' };
+  if (!SESSION_STATUSES.includes(record.status as Session['status'])) return { error: `Invalid status "${String(record.status)}"` };
+
+  for (const key of ['startAt', 'endAt', 'targetDurationMs', 'effectiveDurationMs'] as const) {
+    if (!isFiniteNumber(record[key])) return { error: `Invalid ${key}` };
+  }
+  if ((record.endAt as number) < (record.startAt as number)) return { error: 'endAt is before startAt' };
+
+  for (const key of ['overdueMs', 'pausedMs'] as const) {
+    if (record[key] !== undefined && !isFiniteNumber(record[key])) return { error: `Invalid ${key}` };
+  }
+
+  if (record.outcome !== undefined && !OUTCOMES.includes(record.outcome as SessionOutcome)) {
+    return { error: `Invalid outcome "${String(record.outcome)}"` };
+  }
+  if (record.stopReason !== undefined && !STOP_REASON_CODES.includes(record.stopReason as StopReasonCode)) {
+    return { error: `Invalid stopReason "${String(record.stopReason)}"` };
+  }
+
+  let events: SessionEvent[] | undefined;
+  if (record.events !== undefined) {
+    if (!Array.isArray(record.events)) return { error: 'Invalid events' };
+    const valid = record.events.every((event) =>
+      event && EVENT_TYPES.includes(event.type) && isFiniteNumber(event.at)
+    );
+    if (!valid) return { error: 'Invalid events' };
+    events = record.events.map((event) => ({
+      type: event.type,
+      at: event.at,
+      ...(typeof event.reason === 'string' && event.reason ? { reason: event.reason } : {}),
+      ...(typeof event.label === 'string' && event.label ? { label: event.label } : {}),
+    }));
+  }
+
+  const session: Session = {
+    id: record.id,
+    activityType: record.activityType,
+    targetDurationMs: record.targetDurationMs as number,
+    startAt: record.startAt as number,
+    endAt: record.endAt as number,
+    status: record.status as Session['status'],
+    effectiveDurationMs: record.effectiveDurationMs as number,
+  };
+  if (record.overdueMs) session.overdueMs = record.overdueMs as number;
+  if (record.pausedMs !== undefined) session.pausedMs = record.pausedMs as number;
+  if (record.outcome) session.outcome = record.outcome as SessionOutcome;
+  if (record.stopReason) session.stopReason = record.stopReason as StopReasonCode;
+  if (events) session.events = events;
+  if (typeof record.timerId === 'string') session.timerId = record.timerId;
+  if (typeof record.timerName === 'string') session.timerName = record.timerName;
+  if (typeof record.deviceId === 'string') session.deviceId = record.deviceId;
+  if (typeof record.deviceName === 'string') session.deviceName = record.deviceName;
+  for (const key of ['operator', 'unit', 'workOrder', 'notes'] as const) {
+    const value = record[key];
+    if (typeof value === 'string' && value.trim()) session[key] = value.trim();
+  }
+
+  return { session };
+}
+
+function isSameSession(a: Session, b: Session): boolean {
+  return (
+    a.activityType === b.activityType &&
+    a.status === b.status &&
+    getSessionOutcome(a) === getSessionOutcome(b) &&
+    a.startAt === b.startAt &&
+    a.endAt === b.endAt &&
+    a.targetDurationMs === b.targetDurationMs &&
+    a.effectiveDurationMs === b.effectiveDurationMs &&
+    (a.operator || '') === (b.operator || '') &&
+    (a.unit || '') === (b.unit || '') &&
+    (a.workOrder || '') === (b.workOrder || '') &&
+    (a.notes || '') === (b.notes || '')
+  );
+}
+
+/**
+ * Build a preview of merging `records` into `existing` (nothing is written)
+ */
+export function planImport(
+  existing: Session[],
+  records: unknown[],
+  strategy: ConflictStrategy = 'keep-existing'
+): ImportPlan {
+  const invalid: InvalidRecord[] = [];
+  const valid: Session[] = [];
+  const seenInFile = new Set<string>();
+
+  records.forEach((raw, index) => {
+    const result = validateSession(raw);
+    if ('error' in result) {
+      invalid.push({ index: index + 1, reason: result.error });
+    } else if (seenInFile.has(result.session.id)) {
+      invalid.push({ index: index + 1, reason: `Duplicate id "${result.session.id}" in file` });
+    } else {
+      seenInFile.add(result.session.id);
+      valid.push(result.session);
+    }
+  });
+
+  const byId = new Map(existing.map((session) => [session.id, session]));
+  const added: Session[] = [];
+  const duplicates: Session[] = [];
+  const conflicts: ImportConflict[] = [];
+
+  valid.forEach((incoming) => {
+    const current = byId.get(incoming.id);
+    if (!current) {
+      added.push(incoming);
+    } else if (isSameSession(current, incoming)) {
+      duplicates.push(incoming);
+    } else {
+      conflicts.push({ existing: current, incoming });
+    }
+  });
+
+  const replaced = strategy === 'prefer-imported' ? conflicts.map((conflict) => conflict.incoming) : [];
+  const toWrite = [...added, ...replaced].sort((a, b) => a.startAt - b.startAt);
+
+  return {
+    total: records.length,
+    valid,
+    invalid,
+    added,
+    duplicates,
+    conflicts,
+    toWrite,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * In-process fan-out of timer snapshots to live monitor (SSE) connections.
+ * Server only; lives on the bundled Next server, no external broker.
+ */
+
+import type { TimerSnapshot } from '@/utils/fileStore';
+
+type SnapshotListener = (snapshot: TimerSnapshot) => void;
+
+export interface TimerRemoval {
+  deviceId: string;
+  timerId: string;
+}
+
+type RemovalListener = (removal: TimerRemoval) => void;
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one hub
+const hub = globalThis as typeof globalThis & {
+  __timekeeperMonitor?: Set<SnapshotListener>;
+  __timekeeperMonitorRemovals?: Set<RemovalListener>;
+};
+const listeners = hub.__timekeeperMonitor ?? (hub.__timekeeperMonitor = new Set());
+const removalListeners = hub.__timekeeperMonitorRemovals ?? (hub.__timekeeperMonitorRemovals = new Set());
+
+/**
+ * Send a timer snapshot to every connected monitor
+ */
+export function publishTimerSnapshot(snapshot: TimerSnapshot): void {
+  listeners.forEach((listener) => {
+    try {
+      listener(snapshot);
+    } catch (error) {
+      console.error('Failed to publish timer snapshot:', error);
+    }
+  });
+}
+
+/**
+ * Listen for timer snapshots as devices push them
+ */
+export function subscribeTimerSnapshots(listener: SnapshotListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Tell every connected monitor that a timer's snapshot was dropped
+ */
+export function publishTimerRemoval(removal: TimerRemoval): void {
+  removalListeners.forEach((listener) => {
+    try {
+      listener(removal);
+    } catch (error) {
+      console.error('Failed to publish timer removal:', error);
+    }
+  });
+}
+
+/**
+ * Listen for timers whose snapshot was dropped (bay removed or reset)
+ */
+export function subscribeTimerRemovals(listener: RemovalListener): () => void {
+  removalListeners.add(listener);
+  return () => {
+    removalListeners.delete(listener);
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * System notifications and vibration for timer alerts, so an operator who
+ * switched apps still sees warnings, time-up, overdue and stops.
+ * Notification actions ("Pause", "Finish") come back through the service worker.
+ */
+
+import { isServiceWorkerSupported, registerServiceWorker } from '@/utils/serviceWorker';
+
+export type TimerNotificationKind = 'warning' | 'finish' | 'overdue' | 'abort';
+
+export type NotificationAction = 'pause' | 'complete';
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+export interface NotificationSettings {
+  enabled: boolean;
+  vibrate: boolean;
+}
+
+export interface TimerNotification {
+  kind: TimerNotificationKind;
+  timerId: string;
+  title: string;
+  body: string;
+}
+
+type NotificationActionListener = (action: NotificationAction, timerId: string) => void;
+
+const NOTIFICATION_SETTINGS_KEY = 'timekeeper_notifications';
+
+const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = { enabled: false, vibrate: true };
+
+const VIBRATION_PATTERNS: Record<TimerNotificationKind, number[]> = {
+  warning: [200, 100, 200],
+  finish: [600, 200, 600, 200, 600],
+  overdue: [1000, 300, 1000],
+  abort: [400],
+};
+
+const NOTIFICATION_ACTIONS: Record<TimerNotificationKind, { action: NotificationAction; title: string }[]> = {
+  warning: [
+    { action: 'pause', title: '⏸ Pause' },
+    { action: 'complete', title: '✓ Finish' },
+  ],
+  finish: [
+    { action: 'complete', title: '✓ Finish' },
+    { action: 'pause', title: '⏸ Pause' },
+  ],
+  overdue: [{ action: 'complete', title: '✓ Finish' }],
+  abort: [],
+};
+
+/**
+ * Saved notification settings
+ */
+export function getNotificationSettings(): NotificationSettings {
+  try {
+    const data = localStorage.getItem(NOTIFICATION_SETTINGS_KEY);
+    return data ? { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(data) } : DEFAULT_NOTIFICATION_SETTINGS;
+  } catch (error) {
+    console.error('Failed to get notification settings:', error);
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+}
+
+/**
+ * Save notification settings
+ */
+export function saveNotificationSettings(settings: NotificationSettings): void {
+  try {
+    localStorage.setItem(NOTIFICATION_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save notification settings:', error);
+  }
+}
+
+/**
+ * Current permission, or 'unsupported' without the Notifications API
+ */
+export function getNotificationPermission(): NotificationPermissionState {
+  if (typeof window === 'undefined' || !('Notification' in window)) return 'unsupported';
+  return Notification.permission;
+}
+
+/**
+ * Ask for permission (must be called from a user gesture)
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+  if (getNotificationPermission() === 'unsupported') return 'unsupported';
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.error('Failed to request notification permission:', error);
+    return getNotificationPermission();
+  }
+}
+
+/**
+ * Whether the device can vibrate
+ */
+export function isVibrationSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'vibrate' in navigator;
+}
+
+/**
+ * Vibrate and, while the page is in the background, show a system
+ * notification. One notification per bay: a newer alert replaces the last.
+ */
+export async function notifyTimerEvent(notification: TimerNotification, force: boolean = false): Promise<void> {
+  const settings = getNotificationSettings();
+  if (!settings.enabled && !force) return;
+
+  if (settings.vibrate && isVibrationSupported()) {
+    navigator.vibrate(VIBRATION_PATTERNS[notification.kind]);
+  }
+
+  if (getNotificationPermission() !== 'granted') return;
+  if (document.visibilityState === 'visible' && !force) return;
+
+  const options: NotificationOptions & { actions?: { action: string; title: string }[]; renotify?: boolean } = {
+    body: notification.body,
+    tag: notification.timerId,
+    renotify: true,
+    requireInteraction: notification.kind !== 'abort',
+    icon: '/profile.png',
+    data: { timerId: notification.timerId },
+  };
+
+  try {
+    if (await registerServiceWorker()) {
+      // Only service worker notifications can carry action buttons
+      const registration = await navigator.serviceWorker.ready;
+      const actions = NOTIFICATION_ACTIONS[notification.kind];
+      await registration.showNotification(notification.title, { ...options, actions } as NotificationOptions);
+      return;
+    }
+    const fallback = new Notification(notification.title, options);
+    fallback.onclick = () => {
+      window.focus();
+      fallback.close();
+    };
+  } catch (error) {
+    console.error('Failed to show notification:', error);
+  }
+}
+
+/**
+ * Listen for notification action buttons pressed by the operator
+ */
+export function subscribeNotificationActions(listener: NotificationActionListener): () => void {
+  if (!isServiceWorkerSupported()) return () => {};
+
+  const handleMessage = (event: MessageEvent) => {
+    const data = event.data;
+    if (data?.type === 'notification_action' && (data.action === 'pause' || data.action === 'complete')) {
+      listener(data.action, data.timerId);
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
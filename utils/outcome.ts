@@ -0,0 +1,59 @@
+/**
+ * Session outcomes: how a session ended, beyond finished/aborted
+ */
+
+import type { Session } from '@/utils/storage';
+
+export type SessionOutcome = 'on_time' | 'late' | 'stopped_early' | 'aborted_arming';
+
+export type StopReasonCode =
+  | 'job_cancelled'
+  | 'parts_unavailable'
+  | 'equipment_fault'
+  | 'reassigned'
+  | 'wrong_activity'
+  | 'other';
+
+export const OUTCOMES: SessionOutcome[] = ['on_time', 'late', 'stopped_early', 'aborted_arming'];
+
+export const OUTCOME_LABELS: Record<SessionOutcome, string> = {
+  on_time: 'On time',
+  late: 'Late',
+  stopped_early: 'Stopped',
+  aborted_arming: 'Aborted',
+};
+
+export const OUTCOME_BADGE_CLASSES: Record<SessionOutcome, string> = {
+  on_time: 'bg-green-600 border-green-400',
+  late: 'bg-orange-500 border-orange-400',
+  stopped_early: 'bg-red-600 border-red-400',
+  aborted_arming: 'bg-gray-600 border-gray-400',
+};
+
+export const STOP_REASONS: { code: StopReasonCode; label: string }[] = [
+  { code: 'job_cancelled', label: 'Pekerjaan dibatalkan' },
+  { code: 'parts_unavailable', label: 'Sparepart tidak tersedia' },
+  { code: 'equipment_fault', label: 'Alat / fasilitas rusak' },
+  { code: 'reassigned', label: 'Dialihkan ke bay / shift lain' },
+  { code: 'wrong_activity', label: 'Salah pilih activity' },
+  { code: 'other', label: 'Lainnya' },
+];
+
+export const STOP_REASON_CODES = STOP_REASONS.map((reason) => reason.code);
+
+/**
+ * Outcome of a session; sessions saved before outcomes existed are
+ * derived from their status and overdue time
+ */
+export function getSessionOutcome(session: Session): SessionOutcome {
+  if (session.outcome) return session.outcome;
+  if (session.status === 'aborted') return 'stopped_early';
+  return session.overdueMs && session.overdueMs > 0 ? 'late' : 'on_time';
+}
+
+/**
+ * Human-readable stop reason
+ */
+export function getStopReasonLabel(code: StopReasonCode): string {
+  return STOP_REASONS.find((reason) => reason.code === code)?.label ?? code;
+}
@@ -0,0 +1,108 @@
+/**
+ * Activity presets: default target, warning threshold, color and sound
+ * profile per activity type
+ */
+
+import type { SoundProfile } from '@/utils/audio';
+import { checkpointsFromMinutes, createCheckpoint, type WarningCheckpoint } from '@/utils/checkpoints';
+
+export type PresetColor = 'blue' | 'green' | 'yellow' | 'orange' | 'red' | 'purple' | 'gray';
+
+export interface ActivityPreset {
+  id: string;
+  name: string;
+  targetMinutes: number;
+  targetSeconds: number;
+  checkpoints: WarningCheckpoint[];
+  color: PresetColor;
+  soundProfile: SoundProfile;
+}
+
+// Full class names so Tailwind keeps them in the build
+export const PRESET_COLOR_CLASSES: Record<PresetColor, string> = {
+  blue: 'bg-blue-600 border-blue-400',
+  green: 'bg-green-600 border-green-400',
+  yellow: 'bg-yellow-500 border-yellow-400',
+  orange: 'bg-orange-500 border-orange-400',
+  red: 'bg-red-600 border-red-400',
+  purple: 'bg-purple-600 border-purple-400',
+  gray: 'bg-gray-600 border-gray-400',
+};
+
+// Text color for a checkpoint-tinted countdown
+export const PRESET_TEXT_CLASSES: Record<PresetColor, string> = {
+  blue: 'text-blue-500',
+  green: 'text-green-500',
+  yellow: 'text-yellow-500',
+  orange: 'text-orange-500',
+  red: 'text-red-500',
+  purple: 'text-purple-500',
+  gray: 'text-gray-500',
+};
+
+export const PRESET_COLORS = Object.keys(PRESET_COLOR_CLASSES) as PresetColor[];
+
+const PRESETS_KEY = 'timekeeper_activity_presets';
+
+// Presets saved before checkpoints existed carry a single minutes threshold
+type StoredPreset = Omit<ActivityPreset, 'checkpoints'> & {
+  checkpoints?: WarningCheckpoint[];
+  warningThresholdMinutes?: number;
+};
+
+const PERCENT_CHECKPOINTS: WarningCheckpoint[] = [
+  createCheckpoint({ id: 'half', kind: 'elapsed', value: 50, label: 'Halfway', color: 'blue', sound: 'single' }),
+  createCheckpoint({ id: 'late', kind: 'elapsed', value: 80, label: 'Warning', color: 'yellow', sound: 'double' }),
+  createCheckpoint({ id: 'final', kind: 'elapsed', value: 95, label: 'Final', color: 'red', sound: 'triple' }),
+];
+
+export const DEFAULT_PRESETS: ActivityPreset[] = [
+  { id: 'loading', name: 'Loading', targetMinutes: 5, targetSeconds: 0, checkpoints: PERCENT_CHECKPOINTS, color: 'blue', soundProfile: 'standard' },
+  { id: 'repair', name: 'Repair', targetMinutes: 45, targetSeconds: 0, checkpoints: checkpointsFromMinutes(5), color: 'orange', soundProfile: 'loud' },
+  { id: 'inspection', name: 'Inspection', targetMinutes: 15, targetSeconds: 0, checkpoints: checkpointsFromMinutes(3), color: 'purple', soundProfile: 'standard' },
+  { id: 'ready', name: 'Ready', targetMinutes: 5, targetSeconds: 0, checkpoints: checkpointsFromMinutes(1), color: 'green', soundProfile: 'standard' },
+  { id: 'non-downtime', name: 'Non-downtime', targetMinutes: 30, targetSeconds: 0, checkpoints: checkpointsFromMinutes(5), color: 'gray', soundProfile: 'soft' },
+  { id: 'downtime', name: 'Downtime', targetMinutes: 60, targetSeconds: 0, checkpoints: checkpointsFromMinutes(10), color: 'red', soundProfile: 'loud' },
+];
+
+function normalizePreset({ warningThresholdMinutes, ...preset }: StoredPreset): ActivityPreset {
+  return {
+    ...preset,
+    checkpoints: preset.checkpoints ?? checkpointsFromMinutes(warningThresholdMinutes ?? 0),
+  };
+}
+
+/**
+ * Get saved presets (defaults on first use)
+ */
+export function getPresets(): ActivityPreset[] {
+  try {
+    const data = localStorage.getItem(PRESETS_KEY);
+    if (data) {
+      const presets: StoredPreset[] = JSON.parse(data);
+      if (presets.length > 0) return presets.map(normalizePreset);
+    }
+    return DEFAULT_PRESETS;
+  } catch (error) {
+    console.error('Failed to get presets:', error);
+    return DEFAULT_PRESETS;
+  }
+}
+
+/**
+ * Save presets (order is the dropdown order)
+ */
+export function savePresets(presets: ActivityPreset[]): void {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error('Failed to save presets:', error);
+  }
+}
+
+/**
+ * Find the preset for an activity type name
+ */
+export function findPreset(presets: ActivityPreset[], name: string): ActivityPreset | undefined {
+  return presets.find((preset) => preset.name === name);
+}
@@ -0,0 +1,111 @@
+/**
+ * Service worker registration (`public/sw.js`): offline app shell,
+ * notification actions and the "update available" flow
+ */
+
+// 'available' = a new version is installed and waiting;
+// 'ready' = it has taken over and this page still runs the old code
+export type UpdateStatus = 'none' | 'available' | 'ready';
+
+type UpdateListener = (status: UpdateStatus) => void;
+
+const UPDATE_CHECK_INTERVAL = 30 * 60 * 1000;
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+let updateStatus: UpdateStatus = 'none';
+let reloadOnTakeover = false;
+const updateListeners = new Set<UpdateListener>();
+
+function setUpdateStatus(status: UpdateStatus): void {
+  updateStatus = status;
+  updateListeners.forEach((listener) => listener(status));
+}
+
+/**
+ * Whether the browser supports service workers
+ */
+export function isServiceWorkerSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+/**
+ * Watch a registration for new versions and keep checking for them
+ */
+function watchForUpdates(sw: ServiceWorkerRegistration): void {
+  // No controller yet = first install, not an update
+  const hadController = !!navigator.serviceWorker.controller;
+
+  if (sw.waiting && hadController) setUpdateStatus('available');
+  sw.addEventListener('updatefound', () => {
+    const installing = sw.installing;
+    installing?.addEventListener('statechange', () => {
+      if (installing.state === 'installed' && navigator.serviceWorker.controller) setUpdateStatus('available');
+    });
+  });
+
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (!hadController) return;
+    if (reloadOnTakeover) {
+      window.location.reload();
+      return;
+    }
+    // Another tab applied the update
+    setUpdateStatus('ready');
+  });
+
+  const check = () => {
+    sw.update().catch(() => undefined);
+  };
+  setInterval(check, UPDATE_CHECK_INTERVAL);
+  window.addEventListener('online', check);
+}
+
+/**
+ * Register the service worker once per page; resolves null when unsupported
+ * or when registration fails (e.g. plain http on a LAN address).
+ * Development builds skip the offline cache.
+ */
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!registration) {
+    const url = process.env.NODE_ENV === 'production' ? '/sw.js' : '/sw.js?cache=0';
+    registration = isServiceWorkerSupported()
+      ? navigator.serviceWorker
+          .register(url, { updateViaCache: 'none' })
+          .then((sw) => {
+            watchForUpdates(sw);
+            return sw;
+          })
+          .catch((error) => {
+            console.error('Failed to register service worker:', error);
+            return null;
+          })
+      : Promise.resolve(null);
+  }
+  return registration;
+}
+
+/**
+ * Listen for update status changes (called once with the current status)
+ */
+export function subscribeUpdateStatus(listener: UpdateListener): () => void {
+  updateListeners.add(listener);
+  listener(updateStatus);
+  return () => {
+    updateListeners.delete(listener);
+  };
+}
+
+/**
+ * Switch to the new version and reload. Callers must make sure no
+ * session is running or paused first.
+ */
+export async function applyUpdate(): Promise<void> {
+  if (updateStatus === 'ready') {
+    window.location.reload();
+    return;
+  }
+  const sw = await registration;
+  if (!sw?.waiting) return;
+  reloadOnTakeover = true;
+  sw.waiting.postMessage({ type: 'skip_waiting' });
+}
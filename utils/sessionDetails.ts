@@ -0,0 +1,45 @@
+/**
+ * Session details: who did the work (operator), on which machine (unit),
+ * for which work order, plus free-text notes. Shared by the config form,
+ * history filters, export/import and the sync server.
+ */
+
+import type { Session, SessionDetails, SessionQuery } from '@/utils/storage';
+
+export type SessionDetailField = keyof SessionDetails;
+
+// Fields with an IndexedDB index, used for autocomplete
+export type IndexedDetailField = Exclude<SessionDetailField, 'notes'>;
+
+export type DetailSuggestions = Record<IndexedDetailField, string[]>;
+
+export const SESSION_DETAIL_FIELDS: { field: SessionDetailField; label: string; placeholder: string }[] = [
+  { field: 'operator', label: 'Operator', placeholder: 'Name or ID' },
+  { field: 'unit', label: 'Unit', placeholder: 'e.g. DT-104' },
+  { field: 'workOrder', label: 'Work Order', placeholder: 'e.g. WO-2024-0312' },
+  { field: 'notes', label: 'Notes', placeholder: 'Optional' },
+];
+
+export const INDEXED_DETAIL_FIELDS: IndexedDetailField[] = ['operator', 'unit', 'workOrder'];
+
+/**
+ * Trimmed, non-empty details only (empty inputs are not stored)
+ */
+export function pickSessionDetails(source: SessionDetails): SessionDetails {
+  const details: SessionDetails = {};
+  SESSION_DETAIL_FIELDS.forEach(({ field }) => {
+    const value = source[field]?.trim();
+    if (value) details[field] = value;
+  });
+  return details;
+}
+
+/**
+ * Detail filters match case-insensitively anywhere in the value
+ */
+export function matchesSessionDetails(session: Session, query: SessionQuery): boolean {
+  return SESSION_DETAIL_FIELDS.every(({ field }) => {
+    const filter = query[field]?.trim().toLowerCase();
+    return !filter || (session[field] || '').toLowerCase().includes(filter);
+  });
+}
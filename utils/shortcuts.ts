@@ -0,0 +1,116 @@
+/**
+ * Keyboard shortcuts for the open bay. Bindings are plain `KeyboardEvent.key`
+ * values, so USB foot pedals and presenter clickers (which send keystrokes)
+ * can be bound like any keyboard key.
+ */
+
+export type ShortcutAction = 'start' | 'pauseResume' | 'stop' | 'reset' | 'mute';
+
+export interface ShortcutSettings {
+  enabled: boolean;
+  bindings: Record<ShortcutAction, string[]>;
+  cooldownMs: number; // presses within this window after a shortcut are ignored
+}
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = ['start', 'pauseResume', 'stop', 'reset', 'mute'];
+
+export const SHORTCUT_ACTION_LABELS: Record<ShortcutAction, string> = {
+  start: 'Start',
+  pauseResume: 'Pause / Resume',
+  stop: 'Stop (Abort while arming)',
+  reset: 'Reset',
+  mute: 'Mute / Unmute',
+};
+
+// Toggles the cheat sheet; never bindable
+export const CHEAT_SHEET_KEY = '?';
+
+// Keys kept for the cheat sheet and normal keyboard navigation
+export const RESERVED_KEYS = [CHEAT_SHEET_KEY, 'Escape', 'Tab'];
+
+export const MAX_COOLDOWN_MS = 5000;
+
+const SHORTCUTS_KEY = 'timekeeper_shortcuts';
+
+// PageDown / PageUp are what most presenter clickers send for next / previous
+export const DEFAULT_SHORTCUT_SETTINGS: ShortcutSettings = {
+  enabled: true,
+  bindings: {
+    start: ['s', 'PageDown'],
+    pauseResume: ['p', 'PageUp'],
+    stop: ['x'],
+    reset: ['r'],
+    mute: ['m'],
+  },
+  cooldownMs: 1000,
+};
+
+/**
+ * Saved shortcut settings (defaults on first use)
+ */
+export function getShortcutSettings(): ShortcutSettings {
+  try {
+    const data = localStorage.getItem(SHORTCUTS_KEY);
+    if (!data) return DEFAULT_SHORTCUT_SETTINGS;
+    const saved = JSON.parse(data) as Partial<ShortcutSettings>;
+    return {
+      ...DEFAULT_SHORTCUT_SETTINGS,
+      ...saved,
+      bindings: { ...DEFAULT_SHORTCUT_SETTINGS.bindings, ...saved.bindings },
+    };
+  } catch (error) {
+    console.error('Failed to get shortcut settings:', error);
+    return DEFAULT_SHORTCUT_SETTINGS;
+  }
+}
+
+/**
+ * Save shortcut settings
+ */
+export function saveShortcutSettings(settings: ShortcutSettings): void {
+  try {
+    localStorage.setItem(SHORTCUTS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save shortcut settings:', error);
+  }
+}
+
+/**
+ * Letters are matched case-insensitively (Shift or Caps Lock don't matter)
+ */
+export function normalizeShortcutKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/**
+ * Action bound to a key, if any
+ */
+export function findShortcutAction(bindings: ShortcutSettings['bindings'], key: string): ShortcutAction | null {
+  const normalized = normalizeShortcutKey(key);
+  return SHORTCUT_ACTIONS.find((action) => bindings[action].includes(normalized)) ?? null;
+}
+
+/**
+ * Bind a key to an action, taking it away from any other action
+ */
+export function bindShortcutKey(
+  bindings: ShortcutSettings['bindings'],
+  action: ShortcutAction,
+  key: string
+): ShortcutSettings['bindings'] {
+  const normalized = normalizeShortcutKey(key);
+  const next = { ...bindings };
+  for (const other of SHORTCUT_ACTIONS) {
+    next[other] = bindings[other].filter((bound) => bound !== normalized);
+  }
+  next[action] = [...next[action], normalized];
+  return next;
+}
+
+/**
+ * Readable key name for the cheat sheet, e.g. "Space", "S", "PageDown"
+ */
+export function formatShortcutKey(key: string): string {
+  if (key === ' ') return 'Space';
+  return key.length === 1 ? key.toUpperCase() : key;
+}
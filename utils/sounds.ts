@@ -0,0 +1,322 @@
+/**
+ * Sound registry: maps each timer event to a built-in synth pattern or an
+ * uploaded audio file (stored in IndexedDB), with a volume per event.
+ * Events are grouped into selectable sound packs.
+ */
+
+import {
+  decodeAudioFile,
+  playAudioBuffer,
+  playSynthPattern,
+  playWarningSound,
+  playWhenSpeechEnds,
+  setMasterVolume,
+  setOutputDevice,
+  type SoundProfile,
+  type SynthPattern,
+  type WarningSound,
+} from '@/utils/audio';
+import { openDb, requestToPromise, transactionDone, SOUNDS_STORE } from '@/utils/db';
+
+export type SoundEvent =
+  | 'countdown'
+  | 'start'
+  | 'warning'
+  | 'target_reached'
+  | 'reminder'
+  | 'loud_alarm'
+  | 'finish'
+  | 'abort';
+
+export type SoundSource =
+  | { kind: 'synth'; pattern: SynthPattern }
+  | { kind: 'file'; fileId: string }
+  | { kind: 'checkpoint' } // Warnings only: each checkpoint's own sound
+  | { kind: 'none' };
+
+export interface SoundSetting {
+  source: SoundSource;
+  volume: number; // 0..1.5, on top of the master volume and the activity's sound profile
+}
+
+export type SoundMap = Record<SoundEvent, SoundSetting>;
+
+export type SoundPackId = 'racing' | 'workshop' | 'custom';
+
+export interface SoundPack {
+  id: SoundPackId;
+  name: string;
+  sounds: SoundMap;
+}
+
+export interface SoundFile {
+  id: string;
+  name: string;
+  data: Blob;
+  createdAt: number;
+}
+
+// Device-wide audio output settings
+export interface AudioSettings {
+  enabled: boolean; // User has tapped "Enable Sound" before; re-armed after reload
+  masterVolume: number; // 0..1
+  outputDeviceId: string; // '' = system default
+}
+
+export const SOUND_EVENTS: { event: SoundEvent; label: string }[] = [
+  { event: 'countdown', label: 'Arming 3..2..1' },
+  { event: 'start', label: 'Start running' },
+  { event: 'warning', label: 'Warning checkpoint' },
+  { event: 'target_reached', label: 'Target reached' },
+  { event: 'reminder', label: 'Overdue reminder' },
+  { event: 'loud_alarm', label: 'Overdue loud / banner' },
+  { event: 'finish', label: 'Done' },
+  { event: 'abort', label: 'Stop / abort' },
+];
+
+export const MAX_SOUND_FILE_BYTES = 2 * 1024 * 1024;
+
+const PACK_KEY = 'timekeeper_sound_pack';
+const CUSTOM_SOUNDS_KEY = 'timekeeper_custom_sounds';
+const AUDIO_SETTINGS_KEY = 'timekeeper_audio';
+
+const DEFAULT_AUDIO_SETTINGS: AudioSettings = { enabled: false, masterVolume: 1, outputDeviceId: '' };
+
+const synth = (pattern: SynthPattern, volume = 1): SoundSetting => ({ source: { kind: 'synth', pattern }, volume });
+
+const RACING_SOUNDS: SoundMap = {
+  countdown: synth('beep'),
+  start: synth('start'),
+  warning: { source: { kind: 'checkpoint' }, volume: 1 },
+  target_reached: synth('alarm'),
+  reminder: synth('triple'),
+  loud_alarm: synth('alarm'),
+  finish: synth('alarm'),
+  abort: synth('brake'),
+};
+
+// Long, low pulses and sirens that carry over compressors and impact tools
+const WORKSHOP_SOUNDS: SoundMap = {
+  countdown: synth('beep'),
+  start: synth('horn'),
+  warning: { source: { kind: 'checkpoint' }, volume: 1 },
+  target_reached: synth('siren'),
+  reminder: synth('horn'),
+  loud_alarm: synth('siren'),
+  finish: synth('horn'),
+  abort: synth('brake'),
+};
+
+export const BUILT_IN_PACKS: SoundPack[] = [
+  { id: 'racing', name: 'Racing', sounds: RACING_SOUNDS },
+  { id: 'workshop', name: 'Workshop', sounds: WORKSHOP_SOUNDS },
+];
+
+let activeSounds: SoundMap | null = null;
+const bufferCache = new Map<string, Promise<AudioBuffer | null>>();
+
+/**
+ * Selected sound pack id
+ */
+export function getSoundPackId(): SoundPackId {
+  try {
+    return (localStorage.getItem(PACK_KEY) as SoundPackId | null) || 'racing';
+  } catch (error) {
+    console.error('Failed to get sound pack:', error);
+    return 'racing';
+  }
+}
+
+/**
+ * Select a sound pack
+ */
+export function saveSoundPackId(id: SoundPackId): void {
+  try {
+    localStorage.setItem(PACK_KEY, id);
+  } catch (error) {
+    console.error('Failed to save sound pack:', error);
+  }
+  activeSounds = null;
+}
+
+/**
+ * User-edited sounds (starts as a copy of the racing pack)
+ */
+export function getCustomSounds(): SoundMap {
+  try {
+    const data = localStorage.getItem(CUSTOM_SOUNDS_KEY);
+    return data ? { ...RACING_SOUNDS, ...JSON.parse(data) } : RACING_SOUNDS;
+  } catch (error) {
+    console.error('Failed to get custom sounds:', error);
+    return RACING_SOUNDS;
+  }
+}
+
+/**
+ * Save user-edited sounds
+ */
+export function saveCustomSounds(sounds: SoundMap): void {
+  try {
+    localStorage.setItem(CUSTOM_SOUNDS_KEY, JSON.stringify(sounds));
+  } catch (error) {
+    console.error('Failed to save custom sounds:', error);
+  }
+  activeSounds = null;
+}
+
+/**
+ * Sounds of a pack
+ */
+export function getPackSounds(id: SoundPackId): SoundMap {
+  if (id === 'custom') return getCustomSounds();
+  return BUILT_IN_PACKS.find((pack) => pack.id === id)?.sounds ?? RACING_SOUNDS;
+}
+
+function getActiveSounds(): SoundMap {
+  if (!activeSounds) activeSounds = getPackSounds(getSoundPackId());
+  return activeSounds;
+}
+
+/**
+ * Saved audio output settings
+ */
+export function getAudioSettings(): AudioSettings {
+  try {
+    const data = localStorage.getItem(AUDIO_SETTINGS_KEY);
+    return data ? { ...DEFAULT_AUDIO_SETTINGS, ...JSON.parse(data) } : DEFAULT_AUDIO_SETTINGS;
+  } catch (error) {
+    console.error('Failed to get audio settings:', error);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+/**
+ * Apply master volume and output device to the audio engine
+ */
+export function applyAudioSettings(settings: AudioSettings): void {
+  setMasterVolume(settings.masterVolume);
+  setOutputDevice(settings.outputDeviceId);
+}
+
+/**
+ * Save and apply audio output settings
+ */
+export function saveAudioSettings(settings: AudioSettings): void {
+  try {
+    localStorage.setItem(AUDIO_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save audio settings:', error);
+  }
+  applyAudioSettings(settings);
+}
+
+/**
+ * Store an uploaded audio file
+ */
+export async function saveSoundFile(file: File): Promise<SoundFile> {
+  if (file.size > MAX_SOUND_FILE_BYTES) {
+    throw new Error(`File is larger than ${MAX_SOUND_FILE_BYTES / 1024 / 1024} MB`);
+  }
+  // Reject files the browser cannot play before storing them
+  await decodeAudioFile(await file.arrayBuffer());
+
+  const record: SoundFile = {
+    id: `sound-${Date.now()}`,
+    name: file.name,
+    data: file,
+    createdAt: Date.now(),
+  };
+  const db = await openDb();
+  const transaction = db.transaction(SOUNDS_STORE, 'readwrite');
+  transaction.objectStore(SOUNDS_STORE).put(record);
+  await transactionDone(transaction);
+  return record;
+}
+
+/**
+ * All uploaded audio files, oldest first
+ */
+export async function getSoundFiles(): Promise<SoundFile[]> {
+  try {
+    const db = await openDb();
+    const store = db.transaction(SOUNDS_STORE, 'readonly').objectStore(SOUNDS_STORE);
+    const files = await requestToPromise(store.getAll() as IDBRequest<SoundFile[]>);
+    return files.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error('Failed to get sound files:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete an uploaded audio file (events using it fall back to silence)
+ */
+export async function deleteSoundFile(id: string): Promise<void> {
+  try {
+    const db = await openDb();
+    const transaction = db.transaction(SOUNDS_STORE, 'readwrite');
+    transaction.objectStore(SOUNDS_STORE).delete(id);
+    await transactionDone(transaction);
+    bufferCache.delete(id);
+  } catch (error) {
+    console.error('Failed to delete sound file:', error);
+  }
+}
+
+/**
+ * Decoded audio of an uploaded file (cached per page)
+ */
+function loadSoundBuffer(fileId: string): Promise<AudioBuffer | null> {
+  let buffer = bufferCache.get(fileId);
+  if (!buffer) {
+    buffer = (async () => {
+      try {
+        const db = await openDb();
+        const store = db.transaction(SOUNDS_STORE, 'readonly').objectStore(SOUNDS_STORE);
+        const file = await requestToPromise(store.get(fileId) as IDBRequest<SoundFile | undefined>);
+        return file ? await decodeAudioFile(await file.data.arrayBuffer()) : null;
+      } catch (error) {
+        console.error('Failed to load sound file:', error);
+        return null;
+      }
+    })();
+    bufferCache.set(fileId, buffer);
+  }
+  return buffer;
+}
+
+/**
+ * Play one sound setting (also used by the preview buttons)
+ */
+export function playSoundSetting(
+  setting: SoundSetting,
+  profile: SoundProfile = 'standard',
+  checkpointSound: WarningSound = 'triple'
+): void {
+  if (setting.volume <= 0) return;
+  const { source } = setting;
+
+  switch (source.kind) {
+    case 'synth':
+      playSynthPattern(source.pattern, profile, setting.volume);
+      break;
+    case 'checkpoint':
+      playWarningSound(checkpointSound, profile, setting.volume);
+      break;
+    case 'file':
+      loadSoundBuffer(source.fileId).then((buffer) => {
+        if (buffer) playAudioBuffer(buffer, profile, setting.volume);
+      });
+      break;
+  }
+}
+
+/**
+ * Play the sound mapped to a timer event in the selected pack.
+ * A checkpoint set to "none" stays silent whatever the pack says.
+ */
+export function playSoundEvent(event: SoundEvent, profile: SoundProfile = 'standard', checkpointSound?: WarningSound): void {
+  if (event === 'warning' && checkpointSound === 'none') return;
+  const setting = getActiveSounds()[event];
+  playWhenSpeechEnds(() => playSoundSetting(setting, profile, checkpointSound));
+}
@@ -0,0 +1,245 @@
+/**
+ * Spoken announcements (Web Speech API) for countdown milestones, e.g.
+ * "Bay 2 Repair: 2 minutes remaining". Templates are configurable per
+ * language; announcements are queued and wait for beep patterns to end, and
+ * beeps due while one is speaking wait for it in turn.
+ */
+
+import { getSoundBusyUntil, setSpeechActive } from '@/utils/audio';
+import { getAudioSettings } from '@/utils/sounds';
+
+export type SpeechLanguage = 'id' | 'en';
+
+export type AnnouncementEvent =
+  | 'countdown'
+  | 'start'
+  | 'warning'
+  | 'target_reached'
+  | 'overdue'
+  | 'finish'
+  | 'abort';
+
+export type SpeechTemplates = Record<AnnouncementEvent, string>;
+
+export interface SpeechSettings {
+  enabled: boolean;
+  language: SpeechLanguage;
+  rate: number; // 0.5..2
+  templates: Record<SpeechLanguage, SpeechTemplates>;
+}
+
+// Values substituted into `{bay}`, `{activity}`, `{remaining}`, `{overdue}`, `{label}`, `{count}`
+export interface AnnouncementValues {
+  bay: string;
+  activity: string;
+  remainingMs?: number;
+  overdueMs?: number;
+  label?: string;
+  count?: number;
+}
+
+export const SPEECH_LANGUAGES: { id: SpeechLanguage; label: string; lang: string }[] = [
+  { id: 'id', label: 'Bahasa Indonesia', lang: 'id-ID' },
+  { id: 'en', label: 'English', lang: 'en-US' },
+];
+
+export const ANNOUNCEMENT_EVENTS: { event: AnnouncementEvent; label: string }[] = [
+  { event: 'countdown', label: 'Arming 3..2..1' },
+  { event: 'start', label: 'Start running' },
+  { event: 'warning', label: 'Warning checkpoint' },
+  { event: 'target_reached', label: 'Target reached' },
+  { event: 'overdue', label: 'Overdue escalation' },
+  { event: 'finish', label: 'Done' },
+  { event: 'abort', label: 'Stop / abort' },
+];
+
+export const DEFAULT_SPEECH_TEMPLATES: Record<SpeechLanguage, SpeechTemplates> = {
+  id: {
+    countdown: '{count}',
+    start: '{bay} {activity}: mulai',
+    warning: '{bay} {activity}: sisa {remaining}',
+    target_reached: '{bay} {activity}: waktu habis',
+    overdue: '{bay} {activity} terlambat {overdue}',
+    finish: '{bay} {activity} selesai',
+    abort: '{bay} {activity} dihentikan',
+  },
+  en: {
+    countdown: '{count}',
+    start: '{bay} {activity}: go',
+    warning: '{bay} {activity}: {remaining} remaining',
+    target_reached: '{bay} {activity}: time is up',
+    overdue: '{bay} {activity} overdue by {overdue}',
+    finish: '{bay} {activity} done',
+    abort: '{bay} {activity} stopped',
+  },
+};
+
+const SPEECH_SETTINGS_KEY = 'timekeeper_speech';
+
+const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  enabled: false,
+  language: 'id',
+  rate: 1,
+  templates: DEFAULT_SPEECH_TEMPLATES,
+};
+
+const UNITS: Record<SpeechLanguage, { minute: [string, string]; second: [string, string] }> = {
+  id: { minute: ['menit', 'menit'], second: ['detik', 'detik'] },
+  en: { minute: ['minute', 'minutes'], second: ['second', 'seconds'] },
+};
+
+// Countdown numbers go stale within a second; other announcements may wait longer
+const COUNTDOWN_MAX_DELAY = 1500;
+const ANNOUNCEMENT_MAX_DELAY = 30 * 1000;
+// Some browsers never fire `end`; give up on an utterance after this long
+const UTTERANCE_TIMEOUT = 15 * 1000;
+
+interface QueuedAnnouncement {
+  text: string;
+  expiresAt: number;
+}
+
+const queue: QueuedAnnouncement[] = [];
+let speaking = false;
+let pumpTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Whether the browser can speak
+ */
+export function isSpeechSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+/**
+ * Saved speech settings (missing templates fall back to the defaults)
+ */
+export function getSpeechSettings(): SpeechSettings {
+  try {
+    const data = localStorage.getItem(SPEECH_SETTINGS_KEY);
+    if (!data) return DEFAULT_SPEECH_SETTINGS;
+    const saved: Partial<SpeechSettings> = JSON.parse(data);
+    return {
+      ...DEFAULT_SPEECH_SETTINGS,
+      ...saved,
+      templates: {
+        id: { ...DEFAULT_SPEECH_TEMPLATES.id, ...saved.templates?.id },
+        en: { ...DEFAULT_SPEECH_TEMPLATES.en, ...saved.templates?.en },
+      },
+    };
+  } catch (error) {
+    console.error('Failed to get speech settings:', error);
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+}
+
+/**
+ * Save speech settings
+ */
+export function saveSpeechSettings(settings: SpeechSettings): void {
+  try {
+    localStorage.setItem(SPEECH_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save speech settings:', error);
+  }
+}
+
+/**
+ * Duration in words, rounded for speaking: "2 minutes", "1 menit 30 detik"
+ */
+export function formatSpokenDuration(ms: number, language: SpeechLanguage): string {
+  const totalSeconds = Math.round(Math.abs(ms) / 1000);
+  // Past a few minutes nobody needs the seconds
+  const minutes = totalSeconds >= 5 * 60 ? Math.round(totalSeconds / 60) : Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds >= 5 * 60 ? 0 : totalSeconds % 60;
+  const units = UNITS[language];
+
+  const parts: string[] = [];
+  if (minutes > 0) parts.push(`${minutes} ${units.minute[minutes === 1 ? 0 : 1]}`);
+  if (seconds > 0 || minutes === 0) parts.push(`${seconds} ${units.second[seconds === 1 ? 0 : 1]}`);
+  return parts.join(' ');
+}
+
+/**
+ * Fill a template with announcement values
+ */
+export function renderAnnouncement(template: string, values: AnnouncementValues, language: SpeechLanguage): string {
+  const replacements: Record<string, string> = {
+    bay: values.bay,
+    activity: values.activity,
+    remaining: values.remainingMs !== undefined ? formatSpokenDuration(values.remainingMs, language) : '',
+    overdue: values.overdueMs !== undefined ? formatSpokenDuration(values.overdueMs, language) : '',
+    label: values.label ?? '',
+    count: values.count !== undefined ? String(values.count) : '',
+  };
+  return template
+    .replace(/\{(\w+)\}/g, (match, key: string) => replacements[key] ?? match)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function pickVoice(lang: string): SpeechSynthesisVoice | null {
+  const voices = window.speechSynthesis.getVoices();
+  const prefix = lang.split('-')[0];
+  return voices.find((voice) => voice.lang === lang) ?? voices.find((voice) => voice.lang.startsWith(prefix)) ?? null;
+}
+
+function pump(): void {
+  pumpTimer = null;
+  if (speaking || !isSpeechSupported()) return;
+
+  const now = Date.now();
+  while (queue.length > 0 && queue[0].expiresAt < now) queue.shift();
+  if (queue.length === 0) return;
+
+  // Let the beep pattern finish first
+  const busyUntil = getSoundBusyUntil();
+  if (busyUntil > now) {
+    pumpTimer = setTimeout(pump, busyUntil - now);
+    return;
+  }
+
+  const next = queue.shift()!;
+  const settings = getSpeechSettings();
+  const lang = SPEECH_LANGUAGES.find((item) => item.id === settings.language)?.lang ?? 'id-ID';
+  const utterance = new SpeechSynthesisUtterance(next.text);
+  utterance.lang = lang;
+  utterance.voice = pickVoice(lang);
+  utterance.rate = settings.rate;
+  utterance.volume = getAudioSettings().masterVolume;
+
+  speaking = true;
+  setSpeechActive(true);
+  let finished = false;
+  const done = () => {
+    clearTimeout(timeout);
+    if (finished) return;
+    finished = true;
+    speaking = false;
+    setSpeechActive(false);
+    pump();
+  };
+  const timeout = setTimeout(done, UTTERANCE_TIMEOUT);
+  utterance.onend = done;
+  utterance.onerror = done;
+  window.speechSynthesis.speak(utterance);
+}
+
+/**
+ * Queue a text to be spoken after any earlier announcement and any beep
+ * pattern still playing. Stale texts are dropped instead of spoken late.
+ */
+export function speak(text: string, maxDelayMs: number = ANNOUNCEMENT_MAX_DELAY): void {
+  if (!text || !isSpeechSupported()) return;
+  queue.push({ text, expiresAt: Date.now() + maxDelayMs });
+  if (!pumpTimer) pump();
+}
+
+/**
+ * Announce a timer event, if announcements are enabled
+ */
+export function announce(event: AnnouncementEvent, values: AnnouncementValues): void {
+  const settings = getSpeechSettings();
+  if (!settings.enabled) return;
+  const text = renderAnnouncement(settings.templates[settings.language][event], values, settings.language);
+  speak(text, event === 'countdown' ? COUNTDOWN_MAX_DELAY : ANNOUNCEMENT_MAX_DELAY);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { getTrend, median, percentile } from './stats';
+import type { Session } from './storage';
+
+describe('percentile', () => {
+  const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+
+  it.each<[number, number]>([
+    [0, 10],
+    [10, 10],
+    [50, 50],
+    [51, 60],
+    [90, 90],
+    [95, 100],
+    [100, 100],
+  ])('p%d by nearest rank is %d', (p, expected) => {
+    expect(percentile(sorted, p)).toBe(expected);
+  });
+
+  it('returns the only value of a single-item list', () => {
+    expect(percentile([42], 90)).toBe(42);
+  });
+
+  it('returns 0 for an empty list', () => {
+    expect(percentile([], 90)).toBe(0);
+  });
+});
+
+describe('median', () => {
+  it('averages the two middle values of an even list', () => {
+    expect(median([1, 2, 3, 4])).toBe(2.5);
+    expect(median([1, 2, 3])).toBe(2);
+  });
+});
+
+describe('getTrend', () => {
+  it('handles a history too large to spread into Math.min', () => {
+    const start = new Date(2026, 0, 1, 9).getTime();
+    const sessions = Array.from({ length: 200_000 }, (_, index): Session => ({
+      id: `s${index}`,
+      activityType: 'Service',
+      targetDurationMs: 60_000,
+      startAt: start + (index % 3) * 24 * 60 * 60 * 1000,
+      endAt: start + (index % 3) * 24 * 60 * 60 * 1000 + 60_000,
+      status: 'finished',
+      effectiveDurationMs: 60_000,
+    }));
+
+    const trend = getTrend(sessions, 'day');
+    expect(trend.map((bucket) => bucket.count)).toEqual([66_667, 66_667, 66_666]);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Session statistics: per-activity summaries and daily/weekly trends
+ */
+
+import { getSessionOutcome, type SessionOutcome } from '@/utils/outcome';
+import type { Session } from '@/utils/storage';
+
+export interface ActivityStats {
+  activityType: string;
+  count: number;
+  finished: number;
+  aborted: number;
+  outcomes: Record<SessionOutcome, number>;
+  finishedRatio: number; // 0..1 of all sessions
+  onTimeRate: number; // 0..1 of completed sessions finished on time
+  meanDurationMs: number;
+  medianDurationMs: number;
+  p90DurationMs: number;
+  totalOverdueMs: number;
+}
+
+export type TrendGranularity = 'day' | 'week';
+
+export interface TrendBucket {
+  key: string; // yyyy-mm-dd of the bucket start (local time)
+  start: number;
+  count: number;
+  onTime: number;
+  late: number;
+  stopped: number; // stopped early with a reason
+  aborted: number; // aborted during arming
+}
+
+/**
+ * Percentile by nearest rank (p in 0..100) of an ascending sorted list
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export function median(sorted: number[]): number {
+  if (sorted.length === 0) return 0;
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function countOutcomes(sessions: Session[]): Record<SessionOutcome, number> {
+  const counts: Record<SessionOutcome, number> = { on_time: 0, late: 0, stopped_early: 0, aborted_arming: 0 };
+  sessions.forEach((session) => {
+    counts[getSessionOutcome(session)]++;
+  });
+  return counts;
+}
+
+/**
+ * Summarise a group of sessions. Sessions aborted during arming never ran,
+ * so they are left out of the duration figures.
+ */
+export function summarize(activityType: string, sessions: Session[]): ActivityStats {
+  const finished = sessions.filter((session) => session.status === 'finished');
+  const outcomes = countOutcomes(sessions);
+  const durations = sessions
+    .filter((session) => getSessionOutcome(session) !== 'aborted_arming')
+    .map((session) => session.effectiveDurationMs)
+    .sort((a, b) => a - b);
+  const total = durations.reduce((sum, value) => sum + value, 0);
+
+  return {
+    activityType,
+    count: sessions.length,
+    finished: finished.length,
+    aborted: sessions.length - finished.length,
+    outcomes,
+    finishedRatio: sessions.length > 0 ? finished.length / sessions.length : 0,
+    onTimeRate: finished.length > 0 ? outcomes.on_time / finished.length : 0,
+    meanDurationMs: durations.length > 0 ? total / durations.length : 0,
+    medianDurationMs: median(durations),
+    p90DurationMs: percentile(durations, 90),
+    totalOverdueMs: sessions.reduce((sum, session) => sum + (session.overdueMs || 0), 0),
+  };
+}
+
+/**
+ * Stats per activity type, busiest first
+ */
+export function getActivityStats(sessions: Session[]): ActivityStats[] {
+  const groups = new Map<string, Session[]>();
+  sessions.forEach((session) => {
+    const group = groups.get(session.activityType) || [];
+    group.push(session);
+    groups.set(session.activityType, group);
+  });
+
+  return Array.from(groups.entries())
+    .map(([activityType, group]) => summarize(activityType, group))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Local start of the day/week (weeks start on Monday)
+ */
+function getBucketStart(timestamp: number, granularity: TrendGranularity): Date {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  if (granularity === 'week') {
+    const daysSinceMonday = (date.getDay() + 6) % 7;
+    date.setDate(date.getDate() - daysSinceMonday);
+  }
+  return date;
+}
+
+function toDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Count sessions per day/week, oldest first, including empty buckets
+ * between the first and last session
+ */
+export function getTrend(sessions: Session[], granularity: TrendGranularity): TrendBucket[] {
+  if (sessions.length === 0) return [];
+
+  const buckets = new Map<string, TrendBucket>();
+  // A loop rather than Math.min(...starts): spreading a large history overflows the stack
+  let first = sessions[0].startAt;
+  let latest = sessions[0].startAt;
+  sessions.forEach((session) => {
+    if (session.startAt < first) first = session.startAt;
+    if (session.startAt > latest) latest = session.startAt;
+  });
+  const cursor = getBucketStart(first, granularity);
+  const last = getBucketStart(latest, granularity).getTime();
+
+  while (cursor.getTime() <= last) {
+    const key = toDateKey(cursor);
+    buckets.set(key, { key, start: cursor.getTime(), count: 0, onTime: 0, late: 0, stopped: 0, aborted: 0 });
+    cursor.setDate(cursor.getDate() + (granularity === 'week' ? 7 : 1));
+  }
+
+  sessions.forEach((session) => {
+    const bucket = buckets.get(toDateKey(getBucketStart(session.startAt, granularity)));
+    if (!bucket) return;
+    bucket.count++;
+    switch (getSessionOutcome(session)) {
+      case 'on_time':
+        bucket.onTime++;
+        break;
+      case 'late':
+        bucket.late++;
+        break;
+      case 'stopped_early':
+        bucket.stopped++;
+        break;
+      case 'aborted_arming':
+        bucket.aborted++;
+        break;
+    }
+  });
+
+  return Array.from(buckets.values());
+}
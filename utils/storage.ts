@@ -1,96 +1,622 @@
 /**
- * LocalStorage utilities for session history and state persistence
+ * Storage utilities: session history in IndexedDB, timer state in localStorage
  */
 
-export interface Session {
+import { openDb, requestToPromise, transactionDone, AUDIT_STORE, SESSIONS_STORE, TRASH_STORE } from '@/utils/db';
+import { createAuditEntry, diffSessions, type AuditAction, type AuditEntry } from '@/utils/audit';
+import type { SoundProfile } from '@/utils/audio';
+import { checkpointsFromMinutes, type WarningCheckpoint } from '@/utils/checkpoints';
+import type { EscalationStep } from '@/utils/escalation';
+import { getSessionOutcome, type SessionOutcome, type StopReasonCode } from '@/utils/outcome';
+import { INDEXED_DETAIL_FIELDS, matchesSessionDetails, type DetailSuggestions } from '@/utils/sessionDetails';
+import { enqueueSession, enqueueSessionDeletes } from '@/utils/syncClient';
+import type { TimekeeperState } from '@/utils/timerMachine';
+
+export type SessionEventType =
+  | 'arming'
+  | 'running'
+  | 'pause'
+  | 'resume'
+  | 'warning'
+  | 'target_reached'
+  | 'escalation'
+  | 'finished'
+  | 'aborted';
+
+export interface SessionEvent {
+  type: SessionEventType;
+  at: number;
+  reason?: string; // Alasan pause (opsional)
+  label?: string; // Label checkpoint / eskalasi
+}
+
+/**
+ * Who did the work and on what (all optional, free text)
+ */
+export interface SessionDetails {
+  operator?: string; // Operator name or ID
+  unit?: string; // Unit number (truck, excavator, ...)
+  workOrder?: string; // Work-order reference
+  notes?: string;
+}
+
+export interface Session extends SessionDetails {
   id: string;
   activityType: string;
   targetDurationMs: number;
   startAt: number;
   endAt: number;
   status: 'finished' | 'aborted';
+  outcome?: SessionOutcome; // Hasil rinci: on time, late, stopped early, aborted saat arming
+  stopReason?: StopReasonCode; // Wajib untuk stopped early
   effectiveDurationMs: number;
   overdueMs?: number; // Waktu telat dalam milliseconds (jika melebihi target)
+  pausedMs?: number; // Total waktu pause dalam milliseconds
+  events?: SessionEvent[];
+  timerId?: string;
+  timerName?: string;
+  deviceId?: string; // Tablet/browser that recorded the session
+  deviceName?: string;
 }
 
-export interface PersistedState {
-  state: string;
+export interface SessionQuery {
+  from?: number; // Inclusive startAt lower bound
+  to?: number; // Inclusive startAt upper bound
+  activityType?: string;
+  status?: Session['status'];
+  outcome?: SessionOutcome; // Derived for sessions saved before outcomes existed
+  overdueOnly?: boolean; // Only sessions that ran past their target
+  operator?: string; // Detail filters: case-insensitive "contains"
+  unit?: string;
+  workOrder?: string;
+  notes?: string;
+  order?: 'newest' | 'oldest';
+  offset?: number;
+  limit?: number;
+}
+
+export interface TrashEntry {
+  id: string; // Session id
+  session: Session;
+  deletedAt: number;
+  action: Extract<AuditAction, 'clear' | 'delete' | 'import'>; // What removed it (import = overwritten)
+}
+
+export interface TimerSlot {
+  id: string;
+  name: string;
+}
+
+export interface TimekeeperConfig extends SessionDetails {
   activityType: string;
+  targetMinutes: number;
+  targetSeconds: number;
+  checkpoints: WarningCheckpoint[];
+  soundProfile: SoundProfile;
+}
+
+export const PERSISTED_STATE_VERSION = 2;
+
+export interface PersistedState {
+  version: number;
+  state: TimekeeperState;
+  config: TimekeeperConfig; // Form values, restored in every state
   targetDurationMs: number;
+  remainingMs: number; // Displayed value for paused / finished / aborted
   startTimestamp: number | null;
   pausedAt: number | null;
   accumulatedPausedMs: number;
   armingStartTimestamp: number | null;
-  warningTriggered: boolean;
+  checkpoints: WarningCheckpoint[]; // Snapshot of the running session, in firing order
+  warningsFired: number[];
+  escalationSteps: EscalationStep[];
+  escalationsFired: number[];
+  targetReached: boolean;
   mute: boolean;
+  events: SessionEvent[];
+  sessionId?: string;
+}
+
+/**
+ * Unversioned state saved before `PersistedState.version` (flat config,
+ * only written while arming/running/paused)
+ */
+interface LegacyPersistedState {
+  state: TimekeeperState;
+  activityType?: string;
+  soundProfile?: SoundProfile;
+  targetDurationMs: number;
+  startTimestamp: number | null;
+  pausedAt: number | null;
+  accumulatedPausedMs?: number;
+  armingStartTimestamp: number | null;
+  warningTriggered?: boolean; // Single warning, before checkpoints
+  checkpoints?: WarningCheckpoint[];
+  warningsFired?: number[];
+  escalationSteps?: EscalationStep[];
+  escalationsFired?: number[];
+  targetReached?: boolean;
+  mute?: boolean;
+  events?: SessionEvent[];
+  sessionId?: string;
+}
+
+const LEGACY_SESSIONS_KEY = 'timekeeper_sessions';
+const TIMERS_KEY = 'timekeeper_timers';
+const STATE_KEY_PREFIX = 'timekeeper_state_';
+const LEGACY_STATE_KEY = 'timekeeper_state';
+const DEFAULT_TIMER: TimerSlot = { id: 'bay-1', name: 'Bay 1' };
+
+function stateKey(timerId: string): string {
+  return `${STATE_KEY_PREFIX}${timerId}`;
+}
+
+let migration: Promise<void> | null = null;
+
+/**
+ * Open the session store, moving any localStorage history into it first
+ */
+async function getDb(): Promise<IDBDatabase> {
+  const db = await openDb();
+  if (!migration) {
+    migration = migrateLegacySessions(db);
+  }
+  await migration;
+  return db;
+}
+
+/**
+ * One-time move of the old localStorage session array into IndexedDB
+ */
+async function migrateLegacySessions(db: IDBDatabase): Promise<void> {
+  try {
+    const data = localStorage.getItem(LEGACY_SESSIONS_KEY);
+    if (!data) return;
+
+    const sessions: Session[] = JSON.parse(data);
+    const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(SESSIONS_STORE);
+    sessions.forEach((session) => store.put(session));
+    await transactionDone(transaction);
+    localStorage.removeItem(LEGACY_SESSIONS_KEY);
+  } catch (error) {
+    console.error('Failed to migrate sessions:', error);
+  }
 }
 
-const SESSIONS_KEY = 'timekeeper_sessions';
-const STATE_KEY = 'timekeeper_state';
-const MAX_SESSIONS = 100;
+/**
+ * Pick the index and key range that best serve a query
+ */
+function getQuerySource(store: IDBObjectStore, query: SessionQuery): { source: IDBIndex; range: IDBKeyRange | null } {
+  const from = query.from ?? -Infinity;
+  const to = query.to ?? Infinity;
+
+  if (query.activityType !== undefined) {
+    return {
+      source: store.index('activityType_startAt'),
+      range: IDBKeyRange.bound([query.activityType, from], [query.activityType, to]),
+    };
+  }
+  if (query.status !== undefined) {
+    return {
+      source: store.index('status_startAt'),
+      range: IDBKeyRange.bound([query.status, from], [query.status, to]),
+    };
+  }
+  if (query.from !== undefined || query.to !== undefined) {
+    return { source: store.index('startAt'), range: IDBKeyRange.bound(from, to) };
+  }
+  return { source: store.index('startAt'), range: null };
+}
 
 /**
- * Save session to history
+ * Walk matching sessions in startAt order
  */
-export function saveSession(session: Session): void {
+async function iterateSessions(
+  query: SessionQuery,
+  visit: (session: Session) => boolean // return false to stop
+): Promise<void> {
+  const db = await getDb();
+  const transaction = db.transaction(SESSIONS_STORE, 'readonly');
+  const { source, range } = getQuerySource(transaction.objectStore(SESSIONS_STORE), query);
+  const direction: IDBCursorDirection = query.order === 'oldest' ? 'next' : 'prev';
+
+  await new Promise<void>((resolve, reject) => {
+    const request = source.openCursor(range, direction);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+
+      const session = cursor.value as Session;
+      // Status is only covered by the index when no activity type is given;
+      // outcome, overdue and details are never covered
+      if (
+        (query.status !== undefined && session.status !== query.status) ||
+        (query.outcome !== undefined && getSessionOutcome(session) !== query.outcome) ||
+        (query.overdueOnly && !session.overdueMs) ||
+        !matchesSessionDetails(session, query)
+      ) {
+        cursor.continue();
+        return;
+      }
+      if (visit(session)) {
+        cursor.continue();
+      } else {
+        resolve();
+      }
+    };
+  });
+}
+
+/**
+ * Save session to history and queue it for the sync server.
+ * Rejects when this device's history could not be written (the session
+ * is still queued for the server).
+ */
+export async function saveSession(session: Session): Promise<void> {
+  enqueueSession(session);
   try {
-    const existing = getSessions();
-    const updated = [session, ...existing].slice(0, MAX_SESSIONS);
-    localStorage.setItem(SESSIONS_KEY, JSON.stringify(updated));
+    const db = await getDb();
+    const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+    transaction.objectStore(SESSIONS_STORE).put(session);
+    await transactionDone(transaction);
   } catch (error) {
     console.error('Failed to save session:', error);
+    throw error;
+  }
+}
+
+/**
+ * One transaction for a history change and its audit entry
+ */
+function historyTransaction(db: IDBDatabase, entry: AuditEntry): IDBTransaction {
+  const transaction = db.transaction([SESSIONS_STORE, TRASH_STORE, AUDIT_STORE], 'readwrite');
+  transaction.objectStore(AUDIT_STORE).add(entry);
+  return transaction;
+}
+
+/**
+ * Move sessions from history to the trash (inside a history transaction)
+ */
+function moveToTrash(transaction: IDBTransaction, sessions: Session[], action: TrashEntry['action']): void {
+  const sessionStore = transaction.objectStore(SESSIONS_STORE);
+  const trashStore = transaction.objectStore(TRASH_STORE);
+  const deletedAt = Date.now();
+  sessions.forEach((session) => {
+    const entry: TrashEntry = { id: session.id, session, deletedAt, action };
+    trashStore.put(entry);
+    sessionStore.delete(session.id);
+  });
+}
+
+/**
+ * Correct a recorded session (audited, and queued for the sync server)
+ */
+export async function updateSession(before: Session, after: Session): Promise<void> {
+  try {
+    const db = await getDb();
+    const transaction = historyTransaction(db, createAuditEntry('edit', [after.id], { changes: diffSessions(before, after) }));
+    transaction.objectStore(SESSIONS_STORE).put(after);
+    await transactionDone(transaction);
+  } catch (error) {
+    console.error('Failed to update session:', error);
+    throw error;
   }
+  enqueueSession(after);
 }
 
 /**
- * Get all sessions from history
+ * Write an import merge; records it overwrites go to the trash
  */
-export function getSessions(): Session[] {
+export async function importSessions(sessions: Session[], overwritten: Session[], source: string): Promise<void> {
   try {
-    const data = localStorage.getItem(SESSIONS_KEY);
-    return data ? JSON.parse(data) : [];
+    const db = await getDb();
+    const transaction = historyTransaction(db, createAuditEntry('import', sessions.map((session) => session.id), { source }));
+    moveToTrash(transaction, overwritten, 'import');
+    const store = transaction.objectStore(SESSIONS_STORE);
+    sessions.forEach((session) => store.put(session));
+    await transactionDone(transaction);
   } catch (error) {
-    console.error('Failed to get sessions:', error);
-    return [];
+    console.error('Failed to import sessions:', error);
+    throw error;
   }
 }
 
+/**
+ * Move one session to the trash (the sync server drops its copy; a restore
+ * sends it back)
+ */
+export async function deleteSession(session: Session): Promise<void> {
+  try {
+    const db = await getDb();
+    const transaction = historyTransaction(db, createAuditEntry('delete', [session.id]));
+    moveToTrash(transaction, [session], 'delete');
+    await transactionDone(transaction);
+  } catch (error) {
+    console.error('Failed to delete session:', error);
+    throw error;
+  }
+  enqueueSessionDeletes([session.id]);
+}
+
+/**
+ * Query sessions by startAt range, activity type, status, overdue and details, with paging
+ * (newest first by default)
+ */
+export async function querySessions(query: SessionQuery = {}): Promise<Session[]> {
+  const offset = query.offset ?? 0;
+  const limit = query.limit ?? Infinity;
+  const results: Session[] = [];
+  let skipped = 0;
+
+  try {
+    await iterateSessions(query, (session) => {
+      if (skipped < offset) {
+        skipped++;
+        return true;
+      }
+      results.push(session);
+      return results.length < limit;
+    });
+  } catch (error) {
+    console.error('Failed to query sessions:', error);
+  }
+  return results;
+}
+
+/**
+ * Count sessions matching a query (paging is ignored)
+ */
+export async function countSessions(query: SessionQuery = {}): Promise<number> {
+  let count = 0;
+  try {
+    await iterateSessions(query, () => {
+      count++;
+      return true;
+    });
+  } catch (error) {
+    console.error('Failed to count sessions:', error);
+  }
+  return count;
+}
+
+/**
+ * Get all sessions from history (newest first)
+ */
+export function getSessions(): Promise<Session[]> {
+  return querySessions();
+}
+
 /**
  * Get last N sessions
  */
-export function getLastSessions(count: number = 10): Session[] {
-  return getSessions().slice(0, count);
+export function getLastSessions(count: number = 10): Promise<Session[]> {
+  return querySessions({ limit: count });
+}
+
+/**
+ * Distinct values of an indexed field, in index order
+ */
+async function getDistinctValues(indexName: string): Promise<string[]> {
+  const db = await getDb();
+  const index = db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).index(indexName);
+  const values: string[] = [];
+
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openKeyCursor(null, 'nextunique');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      values.push(cursor.key as string);
+      cursor.continue();
+    };
+  });
+  return values;
+}
+
+/**
+ * Distinct activity types present in history
+ */
+export async function getActivityTypes(): Promise<string[]> {
+  try {
+    return await getDistinctValues('activityType');
+  } catch (error) {
+    console.error('Failed to get activity types:', error);
+    return [];
+  }
 }
 
 /**
- * Clear all sessions
+ * Past operators, units and work orders, for autocomplete
  */
-export function clearSessions(): void {
+export async function getDetailSuggestions(): Promise<DetailSuggestions> {
+  const suggestions: DetailSuggestions = { operator: [], unit: [], workOrder: [] };
   try {
-    localStorage.removeItem(SESSIONS_KEY);
+    await Promise.all(INDEXED_DETAIL_FIELDS.map(async (field) => {
+      suggestions[field] = await getDistinctValues(field);
+    }));
+  } catch (error) {
+    console.error('Failed to get detail suggestions:', error);
+  }
+  return suggestions;
+}
+
+/**
+ * Move every session to the trash (and off the sync server)
+ */
+export async function clearSessions(): Promise<void> {
+  let sessions: Session[];
+  try {
+    sessions = await getSessions();
+    if (sessions.length === 0) return;
+    const db = await getDb();
+    const transaction = historyTransaction(db, createAuditEntry('clear', sessions.map((session) => session.id)));
+    moveToTrash(transaction, sessions, 'clear');
+    await transactionDone(transaction);
   } catch (error) {
     console.error('Failed to clear sessions:', error);
+    throw error;
   }
+  enqueueSessionDeletes(sessions.map((session) => session.id));
 }
 
 /**
- * Save current state
+ * Sessions in the trash, most recently deleted first
  */
-export function saveState(state: PersistedState): void {
+export async function getTrash(): Promise<TrashEntry[]> {
   try {
-    localStorage.setItem(STATE_KEY, JSON.stringify(state));
+    const db = await getDb();
+    const index = db.transaction(TRASH_STORE, 'readonly').objectStore(TRASH_STORE).index('deletedAt');
+    const entries = await requestToPromise(index.getAll());
+    return (entries as TrashEntry[]).reverse();
+  } catch (error) {
+    console.error('Failed to get trash:', error);
+    return [];
+  }
+}
+
+/**
+ * Put trashed sessions back into history (replacing any record with the same id)
+ * and back on the sync server
+ */
+export async function restoreSessions(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const restored: Session[] = [];
+  try {
+    const db = await getDb();
+    const transaction = historyTransaction(db, createAuditEntry('restore', ids));
+    const sessionStore = transaction.objectStore(SESSIONS_STORE);
+    const trashStore = transaction.objectStore(TRASH_STORE);
+    ids.forEach((id) => {
+      const request = trashStore.get(id);
+      request.onsuccess = () => {
+        const entry = request.result as TrashEntry | undefined;
+        if (!entry) return;
+        sessionStore.put(entry.session);
+        trashStore.delete(id);
+        restored.push(entry.session);
+      };
+    });
+    await transactionDone(transaction);
+  } catch (error) {
+    console.error('Failed to restore sessions:', error);
+    throw error;
+  }
+  restored.forEach(enqueueSession);
+}
+
+/**
+ * Permanently delete everything in the trash
+ */
+export async function emptyTrash(): Promise<void> {
+  try {
+    const entries = await getTrash();
+    if (entries.length === 0) return;
+    const db = await getDb();
+    const transaction = historyTransaction(db, createAuditEntry('empty_trash', entries.map((entry) => entry.id)));
+    const store = transaction.objectStore(TRASH_STORE);
+    entries.forEach((entry) => store.delete(entry.id));
+    await transactionDone(transaction);
+  } catch (error) {
+    console.error('Failed to empty trash:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get configured timers (one per work bay).
+ * On first use, migrates the single-timer state key to the default bay.
+ */
+export function getTimers(): TimerSlot[] {
+  try {
+    const data = localStorage.getItem(TIMERS_KEY);
+    if (data) {
+      const timers: TimerSlot[] = JSON.parse(data);
+      if (timers.length > 0) return timers;
+    }
+
+    const legacyState = localStorage.getItem(LEGACY_STATE_KEY);
+    if (legacyState) {
+      localStorage.setItem(stateKey(DEFAULT_TIMER.id), legacyState);
+      localStorage.removeItem(LEGACY_STATE_KEY);
+    }
+    saveTimers([DEFAULT_TIMER]);
+    return [DEFAULT_TIMER];
+  } catch (error) {
+    console.error('Failed to get timers:', error);
+    return [DEFAULT_TIMER];
+  }
+}
+
+/**
+ * Save configured timers
+ */
+export function saveTimers(timers: TimerSlot[]): void {
+  try {
+    localStorage.setItem(TIMERS_KEY, JSON.stringify(timers));
+  } catch (error) {
+    console.error('Failed to save timers:', error);
+  }
+}
+
+/**
+ * Upgrade a saved state blob to the current schema
+ */
+function migrateState(data: LegacyPersistedState | PersistedState): PersistedState {
+  if ('version' in data && data.version === PERSISTED_STATE_VERSION) return data;
+
+  const legacy = data as LegacyPersistedState;
+  // The single 2-minute warning was the only checkpoint before checkpoints were stored
+  const checkpoints = legacy.checkpoints ?? checkpointsFromMinutes(2);
+  const targetSeconds = Math.round(legacy.targetDurationMs / 1000);
+
+  return {
+    version: PERSISTED_STATE_VERSION,
+    state: legacy.state,
+    config: {
+      activityType: legacy.activityType || 'Loading',
+      targetMinutes: Math.floor(targetSeconds / 60),
+      targetSeconds: targetSeconds % 60,
+      checkpoints,
+      soundProfile: legacy.soundProfile || 'standard',
+    },
+    targetDurationMs: legacy.targetDurationMs,
+    remainingMs: legacy.targetDurationMs,
+    startTimestamp: legacy.startTimestamp,
+    pausedAt: legacy.pausedAt,
+    accumulatedPausedMs: legacy.accumulatedPausedMs || 0,
+    armingStartTimestamp: legacy.armingStartTimestamp,
+    checkpoints,
+    warningsFired: legacy.warningsFired ?? (legacy.warningTriggered ? [0] : []),
+    escalationSteps: legacy.escalationSteps ?? [],
+    escalationsFired: legacy.escalationsFired ?? [],
+    targetReached: legacy.targetReached || false,
+    mute: legacy.mute || false,
+    events: legacy.events ?? [],
+    sessionId: legacy.sessionId,
+  };
+}
+
+/**
+ * Save current state of a timer
+ */
+export function saveState(timerId: string, state: PersistedState): void {
+  try {
+    localStorage.setItem(stateKey(timerId), JSON.stringify(state));
   } catch (error) {
     console.error('Failed to save state:', error);
   }
 }
 
 /**
- * Get saved state
+ * Get saved state of a timer
  */
-export function getState(): PersistedState | null {
+export function getState(timerId: string): PersistedState | null {
   try {
-    const data = localStorage.getItem(STATE_KEY);
-    return data ? JSON.parse(data) : null;
+    const data = localStorage.getItem(stateKey(timerId));
+    return data ? migrateState(JSON.parse(data)) : null;
   } catch (error) {
     console.error('Failed to get state:', error);
     return null;
@@ -98,16 +624,26 @@ export function getState(): PersistedState | null {
 }
 
 /**
- * Clear saved state
+ * Clear saved state of a timer
  */
-export function clearState(): void {
+export function clearState(timerId: string): void {
   try {
-    localStorage.removeItem(STATE_KEY);
+    localStorage.removeItem(stateKey(timerId));
   } catch (error) {
     console.error('Failed to clear state:', error);
   }
 }
 
+/**
+ * Whether any bay has a session arming, running or paused
+ */
+export function hasActiveSession(): boolean {
+  return getTimers().some((timer) => {
+    const state = getState(timer.id)?.state;
+    return state === 'arming' || state === 'running' || state === 'paused';
+  });
+}
+
 /**
  * Generate simple UUID
  */
@@ -0,0 +1,272 @@
+/**
+ * Sync server client: an offline-first outbox that pushes completed
+ * sessions (and deletions) to `/api/sessions`, live timer snapshots for `/api/timers`
+ * and remote history queries
+ */
+
+import { generateId, type PersistedState, type Session, type SessionQuery, type TimerSlot } from '@/utils/storage';
+
+export interface DeviceInfo {
+  id: string;
+  name: string;
+}
+
+export interface SyncStatus {
+  pending: number; // Sessions and deletions waiting in the outbox
+  lastSyncAt: number | null;
+  error: string | null;
+}
+
+const DEVICE_KEY = 'timekeeper_device';
+const OUTBOX_KEY = 'timekeeper_outbox';
+const DELETED_OUTBOX_KEY = 'timekeeper_outbox_deleted';
+const SESSIONS_URL = '/api/sessions';
+const TIMERS_URL = '/api/timers';
+
+const RETRY_MIN = 5 * 1000;
+const RETRY_MAX = 5 * 60 * 1000;
+const TIMER_PUSH_INTERVAL = 5 * 1000; // Between snapshots without a transition
+
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = RETRY_MIN;
+let lastSyncAt: number | null = null;
+let lastError: string | null = null;
+const statusListeners = new Set<(status: SyncStatus) => void>();
+const lastTimerPush = new Map<string, { transition: string; at: number }>();
+
+/**
+ * This device's id and display name (created on first use)
+ */
+export function getDevice(): DeviceInfo {
+  try {
+    const data = localStorage.getItem(DEVICE_KEY);
+    if (data) return JSON.parse(data);
+
+    const id = generateId();
+    const device = { id, name: `Device ${id.slice(-4).toUpperCase()}` };
+    localStorage.setItem(DEVICE_KEY, JSON.stringify(device));
+    return device;
+  } catch (error) {
+    console.error('Failed to get device:', error);
+    return { id: 'unknown', name: 'Unknown device' };
+  }
+}
+
+/**
+ * Rename this device (shown next to the bay in the all-devices history)
+ */
+export function saveDeviceName(name: string): void {
+  try {
+    localStorage.setItem(DEVICE_KEY, JSON.stringify({ ...getDevice(), name }));
+  } catch (error) {
+    console.error('Failed to save device name:', error);
+  }
+}
+
+function getOutbox(): Session[] {
+  try {
+    const data = localStorage.getItem(OUTBOX_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Failed to get outbox:', error);
+    return [];
+  }
+}
+
+function saveOutbox(sessions: Session[]): void {
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(sessions));
+  } catch (error) {
+    console.error('Failed to save outbox:', error);
+  }
+}
+
+function getDeletedOutbox(): string[] {
+  try {
+    const data = localStorage.getItem(DELETED_OUTBOX_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Failed to get deleted outbox:', error);
+    return [];
+  }
+}
+
+function saveDeletedOutbox(ids: string[]): void {
+  try {
+    localStorage.setItem(DELETED_OUTBOX_KEY, JSON.stringify(ids));
+  } catch (error) {
+    console.error('Failed to save deleted outbox:', error);
+  }
+}
+
+/**
+ * Current outbox and last sync result
+ */
+export function getSyncStatus(): SyncStatus {
+  return { pending: getOutbox().length + getDeletedOutbox().length, lastSyncAt, error: lastError };
+}
+
+function notifyStatus(): void {
+  const status = getSyncStatus();
+  statusListeners.forEach((listener) => listener(status));
+}
+
+/**
+ * Listen for outbox / sync result changes
+ */
+export function subscribeSyncStatus(listener: (status: SyncStatus) => void): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+function scheduleRetry(): void {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, retryDelay);
+  retryDelay = Math.min(RETRY_MAX, retryDelay * 2);
+}
+
+async function pushOutbox(): Promise<void> {
+  const pending = getOutbox();
+  const deleted = getDeletedOutbox();
+  if (pending.length === 0 && deleted.length === 0) return;
+
+  try {
+    const response = await fetch(SESSIONS_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessions: pending, deleted }),
+    });
+    if (!response.ok) throw new Error(`Server responded ${response.status}`);
+
+    // Sessions queued (or edited again) while the request was in flight stay
+    // in the outbox: only records identical to what was sent are removed
+    const sent = new Set(pending.map((session) => JSON.stringify(session)));
+    saveOutbox(getOutbox().filter((session) => !sent.has(JSON.stringify(session))));
+    const sentDeleted = new Set(deleted);
+    saveDeletedOutbox(getDeletedOutbox().filter((id) => !sentDeleted.has(id)));
+    lastSyncAt = Date.now();
+    lastError = null;
+    retryDelay = RETRY_MIN;
+  } catch (error) {
+    lastError = error instanceof Error ? error.message : 'Sync failed';
+    scheduleRetry();
+  }
+}
+
+/**
+ * Push queued sessions now; failures are retried with backoff
+ */
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = pushOutbox().finally(() => {
+      flushing = null;
+      notifyStatus();
+      // Push what was queued during the request right away
+      if (!lastError && getSyncStatus().pending > 0) flushOutbox();
+    });
+  }
+  return flushing;
+}
+
+/**
+ * Queue a completed session for the server (also cancels a queued deletion)
+ */
+export function enqueueSession(session: Session): void {
+  saveOutbox([...getOutbox().filter((item) => item.id !== session.id), session]);
+  saveDeletedOutbox(getDeletedOutbox().filter((id) => id !== session.id));
+  notifyStatus();
+  flushOutbox();
+}
+
+/**
+ * Queue deleted sessions so the server drops its copies too
+ */
+export function enqueueSessionDeletes(ids: string[]): void {
+  if (ids.length === 0) return;
+  const removed = new Set(ids);
+  saveOutbox(getOutbox().filter((item) => !removed.has(item.id)));
+  saveDeletedOutbox([...getDeletedOutbox().filter((id) => !removed.has(id)), ...ids]);
+  notifyStatus();
+  flushOutbox();
+}
+
+/**
+ * Flush on start-up and whenever the browser comes back online.
+ * Returns a function that stops listening.
+ */
+export function startOutboxSync(): () => void {
+  const handleOnline = () => {
+    retryDelay = RETRY_MIN;
+    flushOutbox();
+  };
+  window.addEventListener('online', handleOnline);
+  flushOutbox();
+  return () => window.removeEventListener('online', handleOnline);
+}
+
+/**
+ * Publish a timer's live state to the server (best effort, no retry:
+ * only the latest snapshot matters). Transitions (state change, warning,
+ * target reached, escalation) go out at once; otherwise every few seconds.
+ * An idle timer has nothing to show, so its snapshot is dropped instead.
+ */
+export function pushTimerState(timer: TimerSlot, state: PersistedState): void {
+  const escalations = state.escalationsFired.reduce((total, count) => total + count, 0);
+  const transition = `${state.state}:${state.warningsFired.length}:${state.targetReached}:${escalations}`;
+  const last = lastTimerPush.get(timer.id);
+  const now = Date.now();
+  if (last && last.transition === transition && (state.state === 'idle' || now - last.at < TIMER_PUSH_INTERVAL)) return;
+
+  if (state.state === 'idle') removeTimerState(timer.id);
+  lastTimerPush.set(timer.id, { transition, at: now });
+  if (state.state === 'idle') return;
+
+  const device = getDevice();
+  fetch(TIMERS_URL, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      deviceId: device.id,
+      deviceName: device.name,
+      timerId: timer.id,
+      timerName: timer.name,
+      state,
+      sentAt: now,
+    }),
+  }).catch(() => {
+    // Offline: the next snapshot replaces this one anyway
+  });
+}
+
+/**
+ * Drop a timer's snapshot from the server (bay removed or reset); best
+ * effort, the server expires forgotten snapshots anyway
+ */
+export function removeTimerState(timerId: string): void {
+  lastTimerPush.delete(timerId);
+  const params = new URLSearchParams({ deviceId: getDevice().id, timerId });
+  fetch(`${TIMERS_URL}?${params}`, { method: 'DELETE' }).catch(() => {
+    // Offline: the server drops the snapshot once it expires
+  });
+}
+
+/**
+ * Sessions recorded on all devices (newest first by default)
+ */
+export async function fetchRemoteSessions(query: SessionQuery = {}): Promise<Session[]> {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+
+  const response = await fetch(`${SESSIONS_URL}?${params}`);
+  if (!response.ok) throw new Error(`Server responded ${response.status}`);
+  const data: { sessions: Session[] } = await response.json();
+  return data.sessions;
+}
@@ -0,0 +1,188 @@
+/**
+ * Cross-tab synchronization: one leader tab drives the timers (intervals,
+ * sounds, session history); other tabs mirror its state and forward their
+ * commands to it over a BroadcastChannel
+ */
+
+import { generateId, type PersistedState, type Session, type TimekeeperConfig } from '@/utils/storage';
+import type { StopReasonCode } from '@/utils/outcome';
+
+export type TimerCommand =
+  | { type: 'start' }
+  | { type: 'pause'; reason?: string }
+  | { type: 'set_pause_reason'; reason: string }
+  | { type: 'resume' }
+  | { type: 'complete' }
+  | { type: 'stop'; reason: StopReasonCode }
+  | { type: 'cancel_arming' }
+  | { type: 'reset' }
+  | { type: 'config'; config: TimekeeperConfig }
+  | { type: 'mute'; mute: boolean };
+
+export type SyncMessage =
+  | { type: 'state'; timerId: string; state: PersistedState }
+  | { type: 'command'; timerId: string; command: TimerCommand }
+  | { type: 'session'; timerId: string; session: Session }
+  | { type: 'hello' }; // A tab joined; the leader answers with its state
+
+interface LeaderLease {
+  tabId: string;
+  expiresAt: number;
+}
+
+const CHANNEL_NAME = 'timekeeper_sync';
+const LEADER_KEY = 'timekeeper_leader';
+const HEARTBEAT_INTERVAL = 1000;
+const LEASE_DURATION = 3000; // A crashed leader is replaced after this
+
+export const TAB_ID = generateId();
+
+let channel: BroadcastChannel | null = null;
+let heartbeat: ReturnType<typeof setInterval> | null = null;
+let members = 0;
+let isLeader = false;
+const leaderListeners = new Set<(leader: boolean) => void>();
+const messageListeners = new Set<(message: SyncMessage) => void>();
+
+function readLease(): LeaderLease | null {
+  try {
+    const data = localStorage.getItem(LEADER_KEY);
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error('Failed to read leader lease:', error);
+    return null;
+  }
+}
+
+function writeLease(): void {
+  try {
+    localStorage.setItem(LEADER_KEY, JSON.stringify({ tabId: TAB_ID, expiresAt: Date.now() + LEASE_DURATION }));
+  } catch (error) {
+    console.error('Failed to write leader lease:', error);
+  }
+}
+
+function setLeader(leader: boolean): void {
+  if (leader === isLeader) return;
+  isLeader = leader;
+  leaderListeners.forEach((listener) => listener(leader));
+}
+
+/**
+ * Renew our lease, or take it over when it is free or expired
+ */
+function electLeader(): void {
+  const lease = readLease();
+  if (!lease || lease.tabId === TAB_ID || lease.expiresAt < Date.now()) {
+    writeLease();
+  }
+  // Two tabs may write at once; the last write wins and the other steps down
+  setLeader(readLease()?.tabId === TAB_ID);
+}
+
+function releaseLease(): void {
+  if (readLease()?.tabId === TAB_ID) {
+    try {
+      localStorage.removeItem(LEADER_KEY);
+    } catch (error) {
+      console.error('Failed to release leader lease:', error);
+    }
+  }
+  setLeader(false);
+}
+
+function handleStorage(event: StorageEvent): void {
+  if (event.key === LEADER_KEY) electLeader();
+}
+
+function handleMessage(event: MessageEvent<SyncMessage>): void {
+  messageListeners.forEach((listener) => listener(event.data));
+}
+
+function start(): void {
+  // Without a channel there is nobody to follow: every tab drives its own timers
+  if (typeof BroadcastChannel === 'undefined') {
+    setLeader(true);
+    return;
+  }
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.addEventListener('message', handleMessage);
+  window.addEventListener('storage', handleStorage);
+  window.addEventListener('pagehide', releaseLease);
+  electLeader();
+  heartbeat = setInterval(electLeader, HEARTBEAT_INTERVAL);
+  postSyncMessage({ type: 'hello' });
+}
+
+function stop(): void {
+  if (!channel) {
+    setLeader(false);
+    return;
+  }
+  if (heartbeat) clearInterval(heartbeat);
+  heartbeat = null;
+  window.removeEventListener('storage', handleStorage);
+  window.removeEventListener('pagehide', releaseLease);
+  channel.close();
+  channel = null;
+  releaseLease();
+}
+
+/**
+ * Take part in leader election while a timer is mounted in this tab.
+ * Returns a function that leaves again (the last one out releases the lease).
+ */
+export function joinTabSync(): () => void {
+  if (members++ === 0) start();
+  return () => {
+    if (--members === 0) stop();
+  };
+}
+
+/**
+ * Become leader now if the lease is free or expired (e.g. the tab where
+ * sound was just enabled). A live leader is never taken over, so two tabs
+ * cannot both fire sounds and effects.
+ */
+export function claimLeadership(): void {
+  if (!channel) return;
+  electLeader();
+}
+
+/**
+ * Whether this tab currently drives the timers
+ */
+export function isLeaderTab(): boolean {
+  return isLeader;
+}
+
+/**
+ * Listen for leadership changes of this tab
+ */
+export function subscribeLeadership(listener: (leader: boolean) => void): () => void {
+  leaderListeners.add(listener);
+  return () => {
+    leaderListeners.delete(listener);
+  };
+}
+
+/**
+ * Listen for messages from other tabs
+ */
+export function subscribeSyncMessages(listener: (message: SyncMessage) => void): () => void {
+  messageListeners.add(listener);
+  return () => {
+    messageListeners.delete(listener);
+  };
+}
+
+/**
+ * Send a message to the other tabs
+ */
+export function postSyncMessage(message: SyncMessage): void {
+  try {
+    channel?.postMessage(message);
+  } catch (error) {
+    console.error('Failed to post sync message:', error);
+  }
+}
@@ -0,0 +1,427 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ARMING_DURATION,
+  createInitialContext,
+  createTimerEngine,
+  getEscalationDueCount,
+  transition,
+  type EscalationTiming,
+  type MachineContext,
+  type MachineEffect,
+  type MachineEvent,
+} from './timerMachine';
+
+const TARGET_MS = 60_000;
+const WARNINGS_MS = [30_000, 10_000];
+const ESCALATIONS: EscalationTiming[] = [
+  { afterMs: 5000, repeatMs: 10_000 },
+  { afterMs: 30_000, repeatMs: 0 },
+];
+
+/**
+ * Manually advanced clock for the engine
+ */
+function createFakeClock(start: number = 1_000_000) {
+  let now = start;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+      return now;
+    },
+  };
+}
+
+function startEngine() {
+  const clock = createFakeClock();
+  const engine = createTimerEngine(clock.now);
+  engine.send({ type: 'START', targetDurationMs: TARGET_MS, warningThresholdsMs: WARNINGS_MS });
+  return { clock, engine };
+}
+
+/**
+ * Engine already past arming and running at the given clock time
+ */
+function runningEngine() {
+  const started = startEngine();
+  started.clock.advance(ARMING_DURATION);
+  started.engine.tick();
+  return started;
+}
+
+function effectTypes(effects: MachineEffect[]): MachineEffect['type'][] {
+  return effects.map((effect) => effect.type);
+}
+
+function escalationIndices(effects: MachineEffect[]): number[] {
+  return effects.flatMap((effect) => (effect.type === 'ESCALATION' ? [effect.index] : []));
+}
+
+/**
+ * Running engine with a repeating and a one-off escalation
+ */
+function escalatingEngine() {
+  const clock = createFakeClock();
+  const engine = createTimerEngine(clock.now);
+  engine.send({ type: 'START', targetDurationMs: TARGET_MS, warningThresholdsMs: WARNINGS_MS, escalations: ESCALATIONS });
+  clock.advance(ARMING_DURATION);
+  engine.tick();
+  return { clock, engine };
+}
+
+describe('arming', () => {
+  it('counts down 3..2..1 and then starts running', () => {
+    const { clock, engine } = startEngine();
+    expect(engine.getContext().state).toBe('arming');
+    expect(engine.getContext().armingCountdown).toBe(3);
+
+    clock.advance(1000);
+    expect(engine.tick()).toEqual([{ type: 'ARMING_COUNTDOWN', countdown: 2 }]);
+    clock.advance(1000);
+    expect(engine.tick()).toEqual([{ type: 'ARMING_COUNTDOWN', countdown: 1 }]);
+
+    const startAt = clock.advance(1000);
+    expect(effectTypes(engine.tick())).toEqual(['RUNNING_STARTED']);
+    expect(engine.getContext().state).toBe('running');
+    expect(engine.getContext().startTimestamp).toBe(startAt);
+    expect(engine.getContext().remainingMs).toBe(TARGET_MS);
+  });
+
+  it('moves to running on ARM_ELAPSED', () => {
+    const { clock, engine } = startEngine();
+    const now = clock.advance(500);
+    expect(effectTypes(engine.send({ type: 'ARM_ELAPSED' }))).toEqual(['RUNNING_STARTED']);
+    expect(engine.getContext().state).toBe('running');
+    expect(engine.getContext().startTimestamp).toBe(now);
+  });
+});
+
+describe('running', () => {
+  it('counts remaining time down on TICK', () => {
+    const { clock, engine } = runningEngine();
+    clock.advance(1234);
+    engine.tick();
+    expect(engine.getContext().remainingMs).toBe(TARGET_MS - 1234);
+  });
+
+  it('fires each warning exactly once', () => {
+    const { clock, engine } = runningEngine();
+    const warnings: number[] = [];
+    const collect = (effects: MachineEffect[]) => {
+      effects.forEach((effect) => {
+        if (effect.type === 'WARNING') warnings.push(effect.index);
+      });
+    };
+
+    // Tick every 500 ms up to just before the target
+    for (let elapsed = 500; elapsed < TARGET_MS; elapsed += 500) {
+      clock.advance(500);
+      collect(engine.tick());
+    }
+    expect(warnings).toEqual([0, 1]);
+    expect(engine.getContext().warningsFired).toEqual([0, 1]);
+  });
+
+  it('fires all skipped warnings in threshold order after a long gap', () => {
+    const { clock, engine } = runningEngine();
+    clock.advance(TARGET_MS - 5000);
+    const effects = engine.tick();
+    expect(effects.flatMap((effect) => (effect.type === 'WARNING' ? [effect.index] : []))).toEqual([0, 1]);
+    expect(effectTypes(engine.tick())).toEqual([]);
+  });
+
+  it('reports TARGET_REACHED once and keeps running into overdue', () => {
+    const { clock, engine } = runningEngine();
+    clock.advance(TARGET_MS);
+    expect(effectTypes(engine.tick())).toContain('TARGET_REACHED');
+    expect(engine.getContext().state).toBe('running');
+
+    clock.advance(2000);
+    expect(effectTypes(engine.tick())).not.toContain('TARGET_REACHED');
+    expect(engine.getContext().remainingMs).toBe(-2000);
+  });
+
+  it('fires a 0 ms warning together with TARGET_REACHED', () => {
+    const clock = createFakeClock();
+    const engine = createTimerEngine(clock.now);
+    engine.send({ type: 'START', targetDurationMs: TARGET_MS, warningThresholdsMs: [0] });
+    clock.advance(ARMING_DURATION);
+    engine.tick();
+
+    clock.advance(TARGET_MS + 500);
+    expect(effectTypes(engine.tick())).toEqual(['WARNING', 'TARGET_REACHED']);
+    clock.advance(1000);
+    expect(effectTypes(engine.tick())).toEqual([]);
+  });
+
+  it('finishes with an overdue run on FINISH', () => {
+    const { clock, engine } = runningEngine();
+    const startAt = engine.getContext().startTimestamp;
+    clock.advance(TARGET_MS + 5000);
+    engine.tick();
+    const [effect] = engine.send({ type: 'FINISH' });
+
+    expect(engine.getContext().state).toBe('finished');
+    expect(effect).toMatchObject({
+      type: 'FINISHED',
+      run: { startAt, targetDurationMs: TARGET_MS, effectiveDurationMs: TARGET_MS + 5000, pausedMs: 0, overdueMs: 5000 },
+    });
+  });
+});
+
+describe('pause and resume', () => {
+  it('freezes remaining time while paused and excludes the pause afterwards', () => {
+    const { clock, engine } = runningEngine();
+    clock.advance(10_000);
+    expect(effectTypes(engine.send({ type: 'PAUSE' }))).toEqual(['PAUSED']);
+    expect(engine.getContext().remainingMs).toBe(TARGET_MS - 10_000);
+
+    // Paused time does not count
+    clock.advance(20_000);
+    expect(engine.tick()).toEqual([]);
+    expect(engine.getContext().remainingMs).toBe(TARGET_MS - 10_000);
+
+    expect(effectTypes(engine.send({ type: 'RESUME' }))).toEqual(['RESUMED']);
+    expect(engine.getContext().state).toBe('running');
+    expect(engine.getContext().accumulatedPausedMs).toBe(20_000);
+
+    clock.advance(5000);
+    engine.tick();
+    expect(engine.getContext().remainingMs).toBe(TARGET_MS - 15_000);
+  });
+
+  it('records paused time in the finished run', () => {
+    const { clock, engine } = runningEngine();
+    clock.advance(10_000);
+    engine.send({ type: 'PAUSE' });
+    clock.advance(7000);
+    engine.send({ type: 'RESUME' });
+    clock.advance(3000);
+    const [effect] = engine.send({ type: 'FINISH' });
+    expect(effect).toMatchObject({ type: 'FINISHED', run: { effectiveDurationMs: 13_000, pausedMs: 7000 } });
+  });
+
+  it('finishes instead of resuming when paused past the target', () => {
+    const { clock, engine } = runningEngine();
+    clock.advance(TARGET_MS + 2000);
+    engine.tick();
+    engine.send({ type: 'PAUSE' });
+    clock.advance(30_000);
+
+    const [effect] = engine.send({ type: 'RESUME' });
+    expect(engine.getContext().state).toBe('finished');
+    expect(effect).toMatchObject({ type: 'FINISHED', run: { effectiveDurationMs: TARGET_MS + 2000, pausedMs: 30_000, overdueMs: 2000 } });
+  });
+});
+
+describe('escalations', () => {
+  it.each<[number, number]>([
+    [0, 0],
+    [4999, 0],
+    [5000, 1],
+    [14_999, 1],
+    [15_000, 2],
+    [45_000, 5],
+  ])('counts repeats due after %d ms overdue as %d', (overdueMs, expected) => {
+    expect(getEscalationDueCount(ESCALATIONS[0], overdueMs)).toBe(expected);
+  });
+
+  it('fires a one-off escalation only once', () => {
+    expect(getEscalationDueCount(ESCALATIONS[1], 30_000)).toBe(1);
+    expect(getEscalationDueCount(ESCALATIONS[1], 600_000)).toBe(1);
+  });
+
+  it('fires at afterMs and then every repeatMs while overdue', () => {
+    const { clock, engine } = escalatingEngine();
+    clock.advance(TARGET_MS + 4999);
+    expect(escalationIndices(engine.tick())).toEqual([]);
+
+    clock.advance(1);
+    const [effect] = engine.tick().filter((item) => item.type === 'ESCALATION');
+    expect(effect).toMatchObject({ type: 'ESCALATION', index: 0, overdueMs: 5000 });
+
+    clock.advance(9999);
+    expect(escalationIndices(engine.tick())).toEqual([]);
+    clock.advance(1);
+    expect(escalationIndices(engine.tick())).toEqual([0]);
+
+    clock.advance(15_000);
+    expect(escalationIndices(engine.tick())).toEqual([0, 1]);
+    expect(engine.getContext().escalationsFired).toEqual([3, 1]);
+  });
+
+  it('collapses missed repeats into one effect per escalation', () => {
+    const { clock, engine } = escalatingEngine();
+    clock.advance(TARGET_MS + 45_000);
+    const effects = engine.tick();
+
+    expect(effectTypes(effects).filter((type) => type === 'TARGET_REACHED')).toHaveLength(1);
+    expect(escalationIndices(effects)).toEqual([0, 1]);
+    expect(engine.getContext().escalationsFired).toEqual([5, 1]);
+  });
+
+  it('does not escalate while paused', () => {
+    const { clock, engine } = escalatingEngine();
+    clock.advance(TARGET_MS + 1000);
+    engine.tick();
+    engine.send({ type: 'PAUSE' });
+    clock.advance(60_000);
+    expect(engine.tick()).toEqual([]);
+    expect(engine.getContext().escalationsFired).toEqual([0, 0]);
+  });
+});
+
+describe('restore', () => {
+  /**
+   * Context as saved before a reload, `elapsedMs` into the run
+   */
+  function savedContext(elapsedMs: number, fired: Pick<MachineContext, 'warningsFired' | 'escalationsFired' | 'finishAlarmTriggered'>) {
+    const { engine } = escalatingEngine();
+    const startAt = engine.getContext().startTimestamp!;
+    return { context: { ...engine.getContext(), ...fired }, resumeAt: startAt + elapsedMs };
+  }
+
+  it('does not fire warnings again that fired before the reload', () => {
+    const { context, resumeAt } = savedContext(TARGET_MS - 5000, {
+      warningsFired: [0],
+      escalationsFired: [0, 0],
+      finishAlarmTriggered: false,
+    });
+    const engine = createTimerEngine(() => resumeAt);
+    engine.restore(context);
+
+    const effects = engine.tick();
+    expect(effects.flatMap((effect) => (effect.type === 'WARNING' ? [effect.index] : []))).toEqual([1]);
+    expect(engine.getContext().warningsFired).toEqual([0, 1]);
+  });
+
+  it('keeps escalation counts, firing only repeats that are newly due', () => {
+    const { context, resumeAt } = savedContext(TARGET_MS + 25_000, {
+      warningsFired: [0, 1],
+      escalationsFired: [3, 0],
+      finishAlarmTriggered: true,
+    });
+    let now = resumeAt;
+    const engine = createTimerEngine(() => now);
+    engine.restore(context);
+
+    expect(effectTypes(engine.tick())).toEqual([]);
+    expect(engine.getContext().escalationsFired).toEqual([3, 0]);
+
+    now += 5000;
+    expect(escalationIndices(engine.tick())).toEqual([1]);
+    now += 5000;
+    expect(escalationIndices(engine.tick())).toEqual([0]);
+    expect(engine.getContext().escalationsFired).toEqual([4, 1]);
+  });
+
+  it('notifies subscribers without effects', () => {
+    const { context } = savedContext(1000, { warningsFired: [], escalationsFired: [0, 0], finishAlarmTriggered: false });
+    const engine = createTimerEngine(() => 0);
+    const calls: MachineEffect[][] = [];
+    engine.subscribe((_context, effects) => {
+      calls.push(effects);
+    });
+    engine.restore(context);
+    expect(calls).toEqual([[]]);
+    expect(engine.getContext()).toBe(context);
+  });
+});
+
+describe('stop', () => {
+  it('aborts while arming and records the attempt without effective time', () => {
+    const { clock, engine } = startEngine();
+    const armingStart = clock.now();
+    clock.advance(1500);
+    const [effect] = engine.send({ type: 'STOP' });
+
+    expect(engine.getContext().state).toBe('aborted');
+    expect(effect).toMatchObject({
+      type: 'ABORTED',
+      from: 'arming',
+      run: { startAt: armingStart, effectiveDurationMs: 0, pausedMs: 0 },
+    });
+  });
+
+  it('aborts while running', () => {
+    const { clock, engine } = runningEngine();
+    clock.advance(12_000);
+    const [effect] = engine.send({ type: 'STOP' });
+    expect(engine.getContext().state).toBe('aborted');
+    expect(effect).toMatchObject({ type: 'ABORTED', from: 'running', run: { effectiveDurationMs: 12_000 } });
+  });
+
+  it('aborts while paused, counting the open pause', () => {
+    const { clock, engine } = runningEngine();
+    clock.advance(12_000);
+    engine.send({ type: 'PAUSE' });
+    clock.advance(4000);
+    const [effect] = engine.send({ type: 'STOP' });
+    expect(engine.getContext().state).toBe('aborted');
+    expect(effect).toMatchObject({ type: 'ABORTED', from: 'paused', run: { effectiveDurationMs: 12_000, pausedMs: 4000 } });
+  });
+});
+
+describe('reset', () => {
+  it('returns a finished session to idle and clears the run', () => {
+    const { clock, engine } = runningEngine();
+    clock.advance(TARGET_MS - 5000);
+    engine.tick();
+    engine.send({ type: 'FINISH' });
+
+    expect(engine.send({ type: 'RESET' })).toEqual([{ type: 'RESET' }]);
+    const context = engine.getContext();
+    expect(context.state).toBe('idle');
+    expect(context.startTimestamp).toBeNull();
+    expect(context.warningsFired).toEqual([]);
+    expect(context.finishAlarmTriggered).toBe(false);
+  });
+
+  it('allows a new session to start after reset', () => {
+    const { engine } = runningEngine();
+    engine.send({ type: 'STOP' });
+    engine.send({ type: 'RESET' });
+    expect(effectTypes(engine.send({ type: 'START', targetDurationMs: TARGET_MS, warningThresholdsMs: [] }))).toEqual([
+      'ARMING_STARTED',
+      'ARMING_COUNTDOWN',
+    ]);
+  });
+});
+
+describe('invalid events', () => {
+  const idle = createInitialContext();
+  const running = transition(
+    transition(idle, { type: 'START', now: 0, targetDurationMs: TARGET_MS, warningThresholdsMs: WARNINGS_MS }).context,
+    { type: 'ARM_ELAPSED', now: ARMING_DURATION }
+  ).context;
+  const finished = transition(running, { type: 'FINISH', now: 10_000 }).context;
+
+  it.each<[string, MachineContext, MachineEvent]>([
+    ['PAUSE while idle', idle, { type: 'PAUSE', now: 1 }],
+    ['RESUME while idle', idle, { type: 'RESUME', now: 1 }],
+    ['STOP while idle', idle, { type: 'STOP', now: 1 }],
+    ['FINISH while idle', idle, { type: 'FINISH', now: 1 }],
+    ['ARM_ELAPSED while idle', idle, { type: 'ARM_ELAPSED', now: 1 }],
+    ['START while running', running, { type: 'START', now: 1, targetDurationMs: 1000, warningThresholdsMs: [] }],
+    ['RESUME while running', running, { type: 'RESUME', now: 5000 }],
+    ['PAUSE while finished', finished, { type: 'PAUSE', now: 20_000 }],
+    ['STOP while finished', finished, { type: 'STOP', now: 20_000 }],
+    ['TICK while finished', finished, { type: 'TICK', now: 20_000 }],
+  ])('ignores %s', (_name, context, event) => {
+    const result = transition(context, event);
+    expect(result.context).toBe(context);
+    expect(result.effects).toEqual([]);
+  });
+
+  it('does not notify engine subscribers', () => {
+    const engine = createTimerEngine(() => 0);
+    let notified = 0;
+    engine.subscribe(() => {
+      notified += 1;
+    });
+    engine.send({ type: 'PAUSE' });
+    engine.send({ type: 'RESUME' });
+    expect(notified).toBe(0);
+    expect(engine.getContext().state).toBe('idle');
+  });
+});
@@ -0,0 +1,409 @@
+/**
+ * Framework-free timer state machine
+ * State: idle -> arming -> running -> paused -> finished/aborted
+ *
+ * All time is injected through events (`now`), so the transitions can be
+ * driven by a fake clock without React or real intervals.
+ */
+
+export type TimekeeperState = 'idle' | 'arming' | 'running' | 'paused' | 'finished' | 'aborted';
+
+export const ARMING_DURATION = 3000; // 3 seconds
+
+/**
+ * When an overdue escalation fires: first after `afterMs` overdue, then
+ * every `repeatMs` (0 = once)
+ */
+export interface EscalationTiming {
+  afterMs: number;
+  repeatMs: number;
+}
+
+export interface MachineContext {
+  state: TimekeeperState;
+  targetDurationMs: number;
+  warningThresholdsMs: number[]; // remaining ms at which each warning fires
+  armingStartTimestamp: number | null;
+  startTimestamp: number | null;
+  pausedAt: number | null;
+  accumulatedPausedMs: number;
+  warningsFired: number[]; // indices into warningThresholdsMs
+  escalations: EscalationTiming[];
+  escalationsFired: number[]; // times each escalation has fired
+  finishAlarmTriggered: boolean;
+  armingCountdown: number;
+  remainingMs: number;
+}
+
+export type MachineEvent =
+  | { type: 'START'; now: number; targetDurationMs: number; warningThresholdsMs: number[]; escalations?: EscalationTiming[] }
+  | { type: 'ARM_ELAPSED'; now: number }
+  | { type: 'PAUSE'; now: number }
+  | { type: 'RESUME'; now: number }
+  | { type: 'STOP'; now: number }
+  | { type: 'FINISH'; now: number }
+  | { type: 'RESET' }
+  | { type: 'TICK'; now: number };
+
+/**
+ * Summary of a run that left the running/paused states
+ */
+export interface CompletedRun {
+  startAt: number;
+  endAt: number;
+  targetDurationMs: number;
+  effectiveDurationMs: number;
+  pausedMs: number;
+  overdueMs?: number;
+}
+
+export type MachineEffect =
+  | { type: 'ARMING_STARTED'; at: number }
+  | { type: 'ARMING_COUNTDOWN'; countdown: number }
+  | { type: 'RUNNING_STARTED'; at: number }
+  | { type: 'WARNING'; at: number; index: number }
+  | { type: 'TARGET_REACHED'; at: number }
+  | { type: 'ESCALATION'; at: number; index: number; overdueMs: number }
+  | { type: 'PAUSED'; at: number }
+  | { type: 'RESUMED'; at: number }
+  | { type: 'FINISHED'; at: number; run: CompletedRun | null }
+  | { type: 'ABORTED'; at: number; run: CompletedRun | null; from: TimekeeperState }
+  | { type: 'RESET' };
+
+export interface TransitionResult {
+  context: MachineContext;
+  effects: MachineEffect[];
+}
+
+export type Clock = () => number;
+
+/**
+ * Initial (idle) context
+ */
+export function createInitialContext(): MachineContext {
+  return {
+    state: 'idle',
+    targetDurationMs: 0,
+    warningThresholdsMs: [],
+    armingStartTimestamp: null,
+    startTimestamp: null,
+    pausedAt: null,
+    accumulatedPausedMs: 0,
+    warningsFired: [],
+    escalations: [],
+    escalationsFired: [],
+    finishAlarmTriggered: false,
+    armingCountdown: 0,
+    remainingMs: 0,
+  };
+}
+
+/**
+ * Effective (non-paused) running time at `now`
+ */
+export function getElapsedMs(context: MachineContext, now: number): number {
+  if (context.startTimestamp === null) return 0;
+  const until = context.pausedAt ?? now;
+  return until - context.startTimestamp - context.accumulatedPausedMs;
+}
+
+/**
+ * Remaining time at `now` (negative when overdue)
+ */
+export function getRemainingMs(context: MachineContext, now: number): number {
+  return context.targetDurationMs - getElapsedMs(context, now);
+}
+
+function getArmingCountdown(context: MachineContext, now: number): number {
+  const elapsed = now - (context.armingStartTimestamp ?? now);
+  return Math.max(0, Math.ceil((ARMING_DURATION - elapsed) / 1000));
+}
+
+/**
+ * Display values at `now` without firing thresholds or transitions
+ * (for tabs that mirror another tab's engine)
+ */
+export function getDisplayContext(context: MachineContext, now: number): MachineContext {
+  if (context.state === 'arming') {
+    return { ...context, armingCountdown: getArmingCountdown(context, now) };
+  }
+  if (context.state === 'running' || context.state === 'paused') {
+    return { ...context, remainingMs: getRemainingMs(context, now) };
+  }
+  return context;
+}
+
+function toCompletedRun(context: MachineContext, now: number): CompletedRun | null {
+  if (context.startTimestamp === null) return null;
+  const effectiveDurationMs = getElapsedMs(context, now);
+  const overdueMs = effectiveDurationMs - context.targetDurationMs;
+  return {
+    startAt: context.startTimestamp,
+    endAt: now,
+    targetDurationMs: context.targetDurationMs,
+    effectiveDurationMs,
+    pausedMs: context.accumulatedPausedMs + (context.pausedAt !== null ? now - context.pausedAt : 0),
+    overdueMs: overdueMs > 0 ? overdueMs : undefined,
+  };
+}
+
+function clearRun(context: MachineContext): MachineContext {
+  return {
+    ...context,
+    armingStartTimestamp: null,
+    startTimestamp: null,
+    pausedAt: null,
+    accumulatedPausedMs: 0,
+    warningsFired: [],
+    escalationsFired: [],
+    finishAlarmTriggered: false,
+    armingCountdown: 0,
+  };
+}
+
+/**
+ * Times an escalation is due at a given overdue time
+ */
+export function getEscalationDueCount(timing: EscalationTiming, overdueMs: number): number {
+  if (overdueMs < timing.afterMs) return 0;
+  if (timing.repeatMs <= 0) return 1;
+  return Math.floor((overdueMs - timing.afterMs) / timing.repeatMs) + 1;
+}
+
+/**
+ * Check warning / target-reached / escalation thresholds for a running context
+ */
+function checkThresholds(context: MachineContext, now: number): TransitionResult {
+  const remaining = getRemainingMs(context, now);
+  const effects: MachineEffect[] = [];
+  let next: MachineContext = { ...context, remainingMs: remaining };
+
+  // Each warning fires only once per session, earliest threshold first;
+  // a 0 threshold can only fire together with the target
+  const reachesTarget = !next.finishAlarmTriggered && remaining <= 0;
+  const due = next.warningThresholdsMs
+    .map((threshold, index) => ({ threshold, index }))
+    .filter(({ threshold, index }) =>
+      !next.warningsFired.includes(index) && remaining <= threshold && (remaining > 0 || (threshold <= 0 && reachesTarget))
+    )
+    .sort((a, b) => b.threshold - a.threshold);
+  if (due.length > 0) {
+    next = { ...next, warningsFired: [...next.warningsFired, ...due.map(({ index }) => index)] };
+    due.forEach(({ index }) => effects.push({ type: 'WARNING', at: now, index }));
+  }
+
+  // Target reached fires only once; the timer keeps running into overdue
+  if (reachesTarget) {
+    next = { ...next, finishAlarmTriggered: true };
+    effects.push({ type: 'TARGET_REACHED', at: now });
+  }
+
+  // Escalations repeat while overdue; missed repeats collapse into one effect
+  if (remaining < 0) {
+    const overdueMs = -remaining;
+    const fired = next.escalations.map((timing, index) => {
+      const count = next.escalationsFired[index] || 0;
+      const due = getEscalationDueCount(timing, overdueMs);
+      if (due > count) effects.push({ type: 'ESCALATION', at: now, index, overdueMs });
+      return Math.max(count, due);
+    });
+    next = { ...next, escalationsFired: fired };
+  }
+
+  return { context: next, effects };
+}
+
+function finish(context: MachineContext, now: number): TransitionResult {
+  const run = toCompletedRun(context, now);
+  return {
+    context: { ...clearRun(context), state: 'finished', remainingMs: 0 },
+    effects: [{ type: 'FINISHED', at: now, run }],
+  };
+}
+
+/**
+ * Pure transition function. Events that are not valid for the current
+ * state leave the context unchanged and produce no effects.
+ */
+export function transition(context: MachineContext, event: MachineEvent): TransitionResult {
+  const unchanged: TransitionResult = { context, effects: [] };
+
+  switch (event.type) {
+    case 'START': {
+      if (context.state !== 'idle') return unchanged;
+      const next: MachineContext = {
+        ...clearRun(context),
+        state: 'arming',
+        targetDurationMs: event.targetDurationMs,
+        warningThresholdsMs: event.warningThresholdsMs,
+        escalations: event.escalations ?? [],
+        armingStartTimestamp: event.now,
+        armingCountdown: Math.ceil(ARMING_DURATION / 1000),
+        remainingMs: event.targetDurationMs,
+      };
+      return {
+        context: next,
+        effects: [
+          { type: 'ARMING_STARTED', at: event.now },
+          { type: 'ARMING_COUNTDOWN', countdown: next.armingCountdown },
+        ],
+      };
+    }
+
+    case 'ARM_ELAPSED': {
+      if (context.state !== 'arming') return unchanged;
+      const next: MachineContext = {
+        ...context,
+        state: 'running',
+        armingStartTimestamp: null,
+        armingCountdown: 0,
+        startTimestamp: event.now,
+        pausedAt: null,
+        accumulatedPausedMs: 0,
+        remainingMs: context.targetDurationMs,
+      };
+      const checked = checkThresholds(next, event.now);
+      return {
+        context: checked.context,
+        effects: [{ type: 'RUNNING_STARTED', at: event.now }, ...checked.effects],
+      };
+    }
+
+    case 'TICK': {
+      if (context.state === 'arming') {
+        const elapsed = event.now - (context.armingStartTimestamp ?? event.now);
+        if (elapsed >= ARMING_DURATION) {
+          return transition(context, { type: 'ARM_ELAPSED', now: event.now });
+        }
+        const countdown = getArmingCountdown(context, event.now);
+        if (countdown === context.armingCountdown) return unchanged;
+        return {
+          context: { ...context, armingCountdown: countdown },
+          effects: [{ type: 'ARMING_COUNTDOWN', countdown }],
+        };
+      }
+      if (context.state === 'running') {
+        return checkThresholds(context, event.now);
+      }
+      return unchanged;
+    }
+
+    case 'PAUSE': {
+      if (context.state !== 'running') return unchanged;
+      return {
+        context: {
+          ...context,
+          state: 'paused',
+          pausedAt: event.now,
+          remainingMs: getRemainingMs(context, event.now),
+        },
+        effects: [{ type: 'PAUSED', at: event.now }],
+      };
+    }
+
+    case 'RESUME': {
+      if (context.state !== 'paused' || context.startTimestamp === null || context.pausedAt === null) {
+        return unchanged;
+      }
+      const resumed: MachineContext = {
+        ...context,
+        state: 'running',
+        accumulatedPausedMs: context.accumulatedPausedMs + (event.now - context.pausedAt),
+        pausedAt: null,
+      };
+      // A session paused past its target finishes instead of resuming
+      if (getRemainingMs(resumed, event.now) <= 0) {
+        return finish(resumed, event.now);
+      }
+      const checked = checkThresholds(resumed, event.now);
+      return {
+        context: checked.context,
+        effects: [{ type: 'RESUMED', at: event.now }, ...checked.effects],
+      };
+    }
+
+    case 'FINISH': {
+      if (context.state !== 'running' && context.state !== 'paused') return unchanged;
+      return finish(context, event.now);
+    }
+
+    case 'STOP': {
+      if (context.state !== 'arming' && context.state !== 'running' && context.state !== 'paused') {
+        return unchanged;
+      }
+      // Aborting while arming still records the attempt (no effective time)
+      const run = context.state === 'arming' && context.armingStartTimestamp !== null
+        ? {
+          startAt: context.armingStartTimestamp,
+          endAt: event.now,
+          targetDurationMs: context.targetDurationMs,
+          effectiveDurationMs: 0,
+          pausedMs: 0,
+        }
+        : toCompletedRun(context, event.now);
+      return {
+        context: { ...clearRun(context), state: 'aborted' },
+        effects: [{ type: 'ABORTED', at: event.now, run, from: context.state }],
+      };
+    }
+
+    case 'RESET': {
+      return {
+        context: { ...clearRun(context), state: 'idle', remainingMs: 0 },
+        effects: [{ type: 'RESET' }],
+      };
+    }
+
+    default:
+      return unchanged;
+  }
+}
+
+export interface TimerEngine {
+  getContext: () => MachineContext;
+  /** Dispatch an event; `now` is filled from the engine clock when omitted */
+  send: (event: EngineInput) => MachineEffect[];
+  tick: () => MachineEffect[];
+  restore: (context: MachineContext) => void;
+  subscribe: (listener: (context: MachineContext, effects: MachineEffect[]) => void) => () => void;
+}
+
+type WithOptionalNow<E> = E extends { now: number } ? Omit<E, 'now'> & { now?: number } : E;
+export type EngineInput = WithOptionalNow<MachineEvent>;
+
+/**
+ * Stateful wrapper around `transition` with an injectable clock
+ */
+export function createTimerEngine(
+  clock: Clock = Date.now,
+  initial: MachineContext = createInitialContext()
+): TimerEngine {
+  let context = initial;
+  const listeners = new Set<(context: MachineContext, effects: MachineEffect[]) => void>();
+
+  const send = (input: EngineInput): MachineEffect[] => {
+    const now = 'now' in input && input.now !== undefined ? input.now : clock();
+    const event = { ...input, now } as MachineEvent;
+    const result = transition(context, event);
+    if (result.context === context) return result.effects;
+    context = result.context;
+    listeners.forEach((listener) => listener(context, result.effects));
+    return result.effects;
+  };
+
+  return {
+    getContext: () => context,
+    send,
+    tick: () => send({ type: 'TICK' }),
+    restore: (next) => {
+      context = next;
+      listeners.forEach((listener) => listener(context, []));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,9 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // Same `@/` alias as tsconfig.json
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+});